@@ -1,16 +1,24 @@
 import { type ReactNode } from 'react';
+import { LEVEL_THEME_STYLES } from './render/levelThemes';
+import type { LevelTheme } from './simulation/types';
 
 interface PlayfieldProps {
   children: ReactNode;
+  theme?: LevelTheme; // Backdrop of the level being played
 }
 
-export default function Playfield({ children }: PlayfieldProps) {
+export default function Playfield({ children, theme = 'grid' }: PlayfieldProps) {
+  const { backdrop } = LEVEL_THEME_STYLES[theme];
+
   return (
     <div className="relative h-full w-full">
       <div 
         className="relative w-full h-full border-game-border rounded-none bg-game-field shadow-game overflow-hidden"
         style={{ borderWidth: 'var(--compact-border-width)' }}
       >
+        {/* Level backdrop */}
+        {backdrop && <div className="absolute inset-0" style={{ backgroundImage: backdrop }} />}
+
         {/* Corner accents - positioned to meet border cleanly */}
         <div 
           className="absolute top-[-1px] left-[-1px] border-game-accent" 
@@ -0,0 +1,108 @@
+/**
+ * Small labelled form controls shared by the level editor panels, styled like the game's HUD.
+ */
+
+import { useState } from 'react';
+
+const labelClassName = 'flex flex-col font-bold text-white';
+const controlClassName = 'bg-game-field border border-game-border rounded px-1 py-0.5 text-white font-normal disabled:opacity-50';
+const labelStyle = { fontSize: 'var(--compact-hud-font-size-small)', gap: '0.125rem' };
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean; // Never report a blank value; the field shows the last name again once left
+}
+
+export function TextField({ label, value, onChange, required = false }: TextFieldProps) {
+  // Text being typed, which may be blank for a moment while a name is retyped
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    if (!required || e.target.value.trim() !== '') onChange(e.target.value);
+  };
+
+  return (
+    <label className={labelClassName} style={labelStyle}>
+      {label}
+      <input
+        type="text"
+        value={draft ?? value}
+        required={required}
+        onChange={handleChange}
+        onBlur={() => setDraft(null)}
+        className={controlClassName}
+      />
+    </label>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void; // undefined once the field is cleared, if `optional`
+  min?: number;
+  step?: number;
+  optional?: boolean; // Allow an empty field, shown with `placeholder`
+  placeholder?: string;
+}
+
+export function NumberField({ label, value, onChange, min, step, optional = false, placeholder }: NumberFieldProps) {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (optional && e.target.value === '') {
+      onChange(undefined);
+      return;
+    }
+    // Ignore half-typed input; the field keeps showing the last valid value
+    const parsed = e.target.valueAsNumber;
+    if (Number.isFinite(parsed) && (min === undefined || parsed >= min)) {
+      onChange(parsed);
+    }
+  };
+
+  return (
+    <label className={labelClassName} style={labelStyle}>
+      {label}
+      <input
+        type="number"
+        value={value ?? ''}
+        min={min}
+        step={step}
+        placeholder={placeholder}
+        onChange={handleChange}
+        className={`${controlClassName} w-20`}
+      />
+    </label>
+  );
+}
+
+interface SelectFieldProps<T extends string> {
+  label: string;
+  value: T;
+  options: readonly T[];
+  labels?: Partial<Record<T, string>>; // Display text per option; defaults to the option itself
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+export function SelectField<T extends string>({ label, value, options, labels, onChange, disabled = false }: SelectFieldProps<T>) {
+  return (
+    <label className={labelClassName} style={labelStyle}>
+      {label}
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value as T)}
+        className={controlClassName}
+      >
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {labels?.[option] ?? option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
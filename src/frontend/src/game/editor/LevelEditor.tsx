@@ -0,0 +1,358 @@
+import { Button } from '@/components/ui/button';
+import { useRef, useState } from 'react';
+import SpawnPathEditor from './SpawnPathEditor';
+import WaveTimeline from './WaveTimeline';
+import WaveSettings from './WaveSettings';
+import { NumberField, SelectField, TextField } from './EditorFields';
+import { useEditorLevelPack } from '../hooks/useEditorLevelPack';
+import { BOSSES } from '../simulation/bosses';
+import { POWER_UP_KINDS, type DropTable } from '../simulation/powerUps';
+import {
+  LEVEL_PACK_FILE_EXTENSION,
+  LEVEL_THEMES,
+  MAX_PATH_POINTS,
+  createBlankLevel,
+  fastForwardLevel,
+  getLevelPackFileName,
+  parseLevelPack,
+  serializeLevelPack,
+  validateLevelPack,
+  type LevelDefinition,
+  type LevelPack,
+  type WaveDefinition,
+  type WinCondition,
+} from '../simulation/levels';
+import { LEVEL_THEME_STYLES } from '../render/levelThemes';
+import { POWER_UP_STYLES } from '../render/powerUpStyles';
+import { downloadBytes, readFileBytes } from '../utils/fileTransfer';
+import { Z_INDEX } from '../ui/zIndex';
+import type { BossKind, LevelTheme, Position, PowerUpKind } from '../simulation/types';
+
+interface LevelEditorProps {
+  onPlaytest: (pack: LevelPack) => void; // Run a pack right away, returning to the editor afterwards
+  onPlayPack: (pack: LevelPack) => void; // Use the pack for runs started from the start screen
+  onClose: () => void;
+}
+
+type WinType = WinCondition['type'];
+type PackEnding = 'repeat' | 'endless';
+
+const WIN_TYPES: WinType[] = ['boss', 'destroy', 'survive'];
+const WIN_LABELS: Record<WinType, string> = { boss: 'Defeat boss', destroy: 'Destroy enemies', survive: 'Survive timer' };
+const PACK_ENDINGS: PackEnding[] = ['repeat', 'endless'];
+const PACK_ENDING_LABELS: Record<PackEnding, string> = { repeat: 'Repeat the last level', endless: 'Keep getting harder' };
+const BOSS_KINDS = Object.keys(BOSSES) as BossKind[];
+const BOSS_LABELS = Object.fromEntries(BOSS_KINDS.map((kind) => [kind, BOSSES[kind].label]));
+const THEME_LABELS = Object.fromEntries(LEVEL_THEMES.map((theme) => [theme, LEVEL_THEME_STYLES[theme].label]));
+
+const NEW_WAVE: WaveDefinition = { enemy: 'drifter', count: 5, edge: 'top', pattern: 'scatter', start: 0, interval: 800 };
+
+// Keep the kill target (or boss) when switching between win types that have one
+function changeWinType(win: WinCondition, type: WinType): WinCondition {
+  const kills = win.type === 'survive' ? 10 : win.kills;
+  switch (type) {
+    case 'boss':
+      return { type, boss: win.type === 'boss' ? win.boss : 'warden', kills };
+    case 'destroy':
+      return { type, kills: Math.max(1, kills) };
+    case 'survive':
+      return { type };
+  }
+}
+
+// Weight of a power-up in a drop table; kinds the table leaves out never drop
+function getDropWeight(drops: DropTable, kind: PowerUpKind): number {
+  return drops.entries.find((entry) => entry.kind === kind)?.weight ?? 0;
+}
+
+function setDropWeight(drops: DropTable, kind: PowerUpKind, weight: number): DropTable {
+  const entries = POWER_UP_KINDS.map((other) => ({ kind: other, weight: other === kind ? weight : getDropWeight(drops, other) }));
+  return { ...drops, entries: entries.filter((entry) => entry.weight > 0) };
+}
+
+/**
+ * Level editor screen: pick a level of the pack, set its rules, lay out waves on a timeline,
+ * draw their spawn paths on the playfield and playtest from any wave. The pack is kept in
+ * localStorage and can be exported and imported as a file.
+ */
+export default function LevelEditor({ onPlaytest, onPlayPack, onClose }: LevelEditorProps) {
+  const { pack, setPack, loadError } = useEditorLevelPack();
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [selectedWave, setSelectedWave] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(loadError);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const level = pack.levels[Math.min(levelIndex, pack.levels.length - 1)];
+  const wave = selectedWave === null ? null : level.waves[selectedWave] ?? null;
+
+  const updateLevel = (changes: Partial<LevelDefinition>) => {
+    setPack({ ...pack, levels: pack.levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)) });
+  };
+
+  const updateWave = (index: number, next: WaveDefinition) => {
+    updateLevel({ waves: level.waves.map((w, i) => (i === index ? next : w)) });
+  };
+
+  const selectLevel = (index: number) => {
+    setLevelIndex(index);
+    setSelectedWave(null);
+  };
+
+  const addLevel = () => {
+    setPack({ ...pack, levels: [...pack.levels, createBlankLevel(`Level ${pack.levels.length + 1}`)] });
+    selectLevel(pack.levels.length);
+  };
+
+  const removeLevel = () => {
+    if (pack.levels.length === 1) return;
+    setPack({ ...pack, levels: pack.levels.filter((_, i) => i !== levelIndex) });
+    selectLevel(Math.max(0, levelIndex - 1));
+  };
+
+  const addWave = () => {
+    updateLevel({ waves: [...level.waves, NEW_WAVE] });
+    setSelectedWave(level.waves.length);
+  };
+
+  const removeWave = (index: number) => {
+    updateLevel({ waves: level.waves.filter((_, i) => i !== index) });
+    setSelectedWave(null);
+  };
+
+  const addPathPoint = (point: Position) => {
+    const path = wave?.path ?? [];
+    if (selectedWave === null || !wave || path.length >= MAX_PATH_POINTS) return;
+    updateWave(selectedWave, { ...wave, path: [...path, point] });
+  };
+
+  // Every way out of the editor goes through validation, so mistakes surface here and not mid-run
+  const withValidPack = (action: (valid: LevelPack) => void) => {
+    try {
+      action(validateLevelPack(pack));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'These levels are not valid');
+    }
+  };
+
+  // The edited level (fast-forwarded to the selected wave) followed by the rest of the pack
+  const playtest = (fromWave: boolean) => {
+    withValidPack((valid) => {
+      const start = fromWave && wave ? wave.start : 0;
+      const levels = valid.levels.slice(levelIndex);
+      onPlaytest({ ...valid, levels: [fastForwardLevel(levels[0], start), ...levels.slice(1)] });
+    });
+  };
+
+  const exportPack = () => {
+    withValidPack((valid) => {
+      downloadBytes(new TextEncoder().encode(serializeLevelPack(valid)), getLevelPackFileName(valid), 'application/json');
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPack(parseLevelPack(new TextDecoder().decode(await readFileBytes(file))));
+      selectLevel(0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open this level pack');
+    }
+  };
+
+  const buttonClassName = 'border-game-border bg-transparent text-white hover:bg-game-field h-auto';
+  const buttonStyle = { fontSize: 'var(--compact-hud-font-size-small)', padding: '0.25rem 0.5rem' };
+  const sectionTitleStyle = { fontSize: 'var(--compact-hud-font-size)' };
+
+  return (
+    <div
+      className="absolute inset-0 overflow-y-auto bg-game-field text-white"
+      style={{ zIndex: Z_INDEX.OVERLAY, padding: 'var(--compact-overlay-padding)' }}
+    >
+      <div className="flex flex-col gap-3 max-w-5xl mx-auto">
+        {/* Pack actions */}
+        <div className="flex flex-wrap items-end gap-2">
+          <h1 className="font-bold text-game-accent mr-2" style={{ fontSize: 'var(--compact-overlay-title)' }}>
+            LEVEL EDITOR
+          </h1>
+          <TextField label="PACK" value={pack.name} required onChange={(name) => setPack({ ...pack, name })} />
+          <SelectField
+            label="AFTER THE LAST LEVEL"
+            value={pack.endless ? 'endless' : 'repeat'}
+            options={PACK_ENDINGS}
+            labels={PACK_ENDING_LABELS}
+            onChange={(ending) => setPack({ ...pack, endless: ending === 'endless' ? true : undefined })}
+          />
+          <Button size="sm" variant="outline" onClick={() => playtest(false)} className={buttonClassName} style={buttonStyle}>
+            PLAYTEST LEVEL
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => playtest(true)}
+            disabled={!wave}
+            className={buttonClassName}
+            style={buttonStyle}
+          >
+            {selectedWave === null ? 'PLAYTEST FROM WAVE' : `PLAYTEST FROM WAVE ${selectedWave + 1}`}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => withValidPack(onPlayPack)} className={buttonClassName} style={buttonStyle}>
+            PLAY PACK
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} className={buttonClassName} style={buttonStyle}>
+            IMPORT
+          </Button>
+          <Button size="sm" variant="outline" onClick={exportPack} className={buttonClassName} style={buttonStyle}>
+            EXPORT
+          </Button>
+          <Button size="sm" variant="outline" onClick={onClose} className={buttonClassName} style={buttonStyle}>
+            CLOSE
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${LEVEL_PACK_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+        {error && (
+          <p className="text-destructive" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
+            {error}
+          </p>
+        )}
+
+        {/* Level picker */}
+        <div className="flex flex-wrap items-center gap-1">
+          {pack.levels.map((l, i) => (
+            <Button
+              key={i}
+              size="sm"
+              variant="outline"
+              onClick={() => selectLevel(i)}
+              className={`${buttonClassName} ${i === levelIndex ? 'text-game-accent border-game-accent' : ''}`}
+              style={buttonStyle}
+              title={l.name}
+            >
+              {i + 1}
+            </Button>
+          ))}
+          <Button size="sm" variant="outline" onClick={addLevel} className={buttonClassName} style={buttonStyle}>
+            + LEVEL
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={removeLevel}
+            disabled={pack.levels.length === 1}
+            className={buttonClassName}
+            style={buttonStyle}
+          >
+            DELETE LEVEL
+          </Button>
+        </div>
+
+        {/* Level rules */}
+        <div className="flex flex-wrap items-end gap-2">
+          <TextField label="NAME" value={level.name} required onChange={(name) => updateLevel({ name })} />
+          <NumberField
+            label="TIME (S)"
+            value={level.timeLimit}
+            min={1}
+            step={5}
+            onChange={(timeLimit) => timeLimit !== undefined && updateLevel({ timeLimit })}
+          />
+          <NumberField
+            label="SPEED"
+            value={level.speedScale}
+            min={0.1}
+            step={0.05}
+            onChange={(speedScale) => speedScale !== undefined && updateLevel({ speedScale })}
+          />
+          <SelectField<LevelTheme>
+            label="THEME"
+            value={level.theme}
+            options={LEVEL_THEMES}
+            labels={THEME_LABELS}
+            onChange={(theme) => updateLevel({ theme })}
+          />
+          <SelectField
+            label="WIN BY"
+            value={level.win.type}
+            options={WIN_TYPES}
+            labels={WIN_LABELS}
+            onChange={(type) => updateLevel({ win: changeWinType(level.win, type) })}
+          />
+          {level.win.type === 'boss' && (
+            <SelectField
+              label="BOSS"
+              value={level.win.boss}
+              options={BOSS_KINDS}
+              labels={BOSS_LABELS}
+              onChange={(boss) => level.win.type === 'boss' && updateLevel({ win: { ...level.win, boss } })}
+            />
+          )}
+          {level.win.type !== 'survive' && (
+            <NumberField
+              label={level.win.type === 'boss' ? 'KILLS FOR BOSS' : 'KILLS TO WIN'}
+              value={level.win.kills}
+              min={level.win.type === 'boss' ? 0 : 1}
+              step={1}
+              onChange={(kills) =>
+                kills !== undefined && level.win.type !== 'survive' && updateLevel({ win: { ...level.win, kills: Math.round(kills) } })
+              }
+            />
+          )}
+        </div>
+
+        {/* Power-up drops */}
+        <div className="flex flex-wrap items-end gap-2">
+          <NumberField
+            label="DROP %"
+            value={Math.round(level.drops.chance * 100)}
+            min={0}
+            step={5}
+            onChange={(percent) => percent !== undefined && updateLevel({ drops: { ...level.drops, chance: Math.min(100, percent) / 100 } })}
+          />
+          {POWER_UP_KINDS.map((kind) => (
+            <NumberField
+              key={kind}
+              label={POWER_UP_STYLES[kind].label.toUpperCase()}
+              value={getDropWeight(level.drops, kind)}
+              min={0}
+              step={1}
+              onChange={(weight) => weight !== undefined && updateLevel({ drops: setDropWeight(level.drops, kind, weight) })}
+            />
+          ))}
+        </div>
+
+        {/* Playfield with spawn paths */}
+        <SpawnPathEditor level={level} selectedWave={selectedWave} onAddPoint={addPathPoint} />
+
+        {/* Waves */}
+        <div className="flex items-center gap-2">
+          <h2 className="font-bold" style={sectionTitleStyle}>
+            WAVES
+          </h2>
+          <Button size="sm" variant="outline" onClick={addWave} className={buttonClassName} style={buttonStyle}>
+            + WAVE
+          </Button>
+        </div>
+        <WaveTimeline
+          waves={level.waves}
+          timeLimit={level.timeLimit}
+          selectedWave={selectedWave}
+          onSelectWave={setSelectedWave}
+          onMoveWave={(index, start) => updateWave(index, { ...level.waves[index], start })}
+        />
+        {wave && selectedWave !== null && (
+          <WaveSettings wave={wave} onChange={(next) => updateWave(selectedWave, next)} onRemove={() => removeWave(selectedWave)} />
+        )}
+      </div>
+    </div>
+  );
+}
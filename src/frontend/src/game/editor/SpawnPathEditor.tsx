@@ -0,0 +1,102 @@
+import Playfield from '../Playfield';
+import { MAX_PATH_POINTS, type LevelDefinition } from '../simulation/levels';
+import type { Position } from '../simulation/types';
+
+interface SpawnPathEditorProps {
+  level: LevelDefinition;
+  selectedWave: number | null;
+  onAddPoint: (point: Position) => void; // Appended to the selected wave's path
+}
+
+// Clicks this close to an edge put a spawn point just off the field, so enemies fly in from it
+const EDGE_SNAP = 4;
+const OFF_FIELD = 5;
+
+function snapToEdge(value: number): number {
+  if (value < EDGE_SNAP) return -OFF_FIELD;
+  if (value > 100 - EDGE_SNAP) return 100 + OFF_FIELD;
+  return value;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Level preview on the playfield where spawn paths are drawn. The first click on the selected
+ * wave sets its spawn point, each further click adds a waypoint. Other waves' paths are shown dimmed.
+ */
+export default function SpawnPathEditor({ level, selectedWave, onAddPoint }: SpawnPathEditorProps) {
+  const selectedPath = selectedWave === null ? undefined : level.waves[selectedWave]?.path;
+  const canAddPoint = selectedWave !== null && (selectedPath?.length ?? 0) < MAX_PATH_POINTS;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!canAddPoint) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100));
+    const y = Math.max(0, Math.min(100, ((e.clientY - rect.top) / rect.height) * 100));
+    // Only the spawn point may sit off the field; waypoints must be reachable
+    onAddPoint(selectedPath ? { x: round(x), y: round(y) } : { x: round(snapToEdge(x)), y: round(snapToEdge(y)) });
+  };
+
+  return (
+    <div className="relative w-full aspect-video">
+      <Playfield theme={level.theme}>
+        <div
+          className={`absolute inset-0 ${canAddPoint ? 'cursor-crosshair' : ''}`}
+          onClick={handleClick}
+        >
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible">
+            {level.waves.map((wave, i) =>
+              wave.path && wave.path.length > 1 ? (
+                <polyline
+                  key={i}
+                  points={wave.path.map((point) => `${point.x},${point.y}`).join(' ')}
+                  fill="none"
+                  stroke={i === selectedWave ? 'oklch(var(--game-accent))' : 'white'}
+                  strokeWidth={i === selectedWave ? 3 : 1.5}
+                  strokeDasharray={i === selectedWave ? undefined : '4 4'}
+                  opacity={i === selectedWave ? 1 : 0.4}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ) : null
+            )}
+          </svg>
+
+          {/* Points are drawn as elements so they stay round on any aspect ratio */}
+          {level.waves.map((wave, i) =>
+            wave.path?.map((point, j) => (
+              <div
+                key={`${i}-${j}`}
+                className="absolute rounded-full border-2 pointer-events-none"
+                style={{
+                  left: `${Math.max(0, Math.min(100, point.x))}%`,
+                  top: `${Math.max(0, Math.min(100, point.y))}%`,
+                  width: j === 0 ? 14 : 8,
+                  height: j === 0 ? 14 : 8,
+                  transform: 'translate(-50%, -50%)',
+                  borderColor: i === selectedWave ? 'oklch(var(--game-accent))' : 'white',
+                  backgroundColor: j === 0 ? 'oklch(var(--game-accent) / 0.5)' : 'transparent',
+                  opacity: i === selectedWave ? 1 : 0.4,
+                }}
+              />
+            ))
+          )}
+
+          <p
+            className="absolute bottom-1 left-0 right-0 text-center text-white/70 pointer-events-none"
+            style={{ fontSize: 'var(--compact-hud-font-size-small)' }}
+          >
+            {selectedWave === null
+              ? 'Select a wave to draw its spawn path'
+              : !selectedPath
+                ? 'Click to place the spawn point (near an edge to fly in from it)'
+                : canAddPoint
+                  ? `Click to add waypoints (${selectedPath.length}/${MAX_PATH_POINTS} points)`
+                  : `Paths hold up to ${MAX_PATH_POINTS} points`}
+          </p>
+        </div>
+      </Playfield>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { NumberField, SelectField } from './EditorFields';
+import { ENEMIES } from '../simulation/enemies';
+import { FORMATIONS } from '../simulation/formations';
+import { MIN_WAVE_INTERVAL, SPAWN_EDGES, WAVE_PATTERNS, type WaveDefinition } from '../simulation/levels';
+import type { EnemyKind, ObstacleSize, SpawnEdge } from '../simulation/types';
+
+interface WaveSettingsProps {
+  wave: WaveDefinition;
+  onChange: (wave: WaveDefinition) => void;
+  onRemove: () => void;
+}
+
+type WaveEnemy = WaveDefinition['enemy'];
+type WaveSize = ObstacleSize | 'auto';
+
+const ENEMY_OPTIONS: WaveEnemy[] = ['random', ...(Object.keys(ENEMIES) as EnemyKind[])];
+const ENEMY_LABELS: Partial<Record<WaveEnemy, string>> = {
+  random: 'Random mix',
+  ...Object.fromEntries(Object.entries(ENEMIES).map(([kind, enemy]) => [kind, enemy.label])),
+};
+const SIZE_OPTIONS: WaveSize[] = ['auto', 'small', 'medium', 'large'];
+const EDGE_LABELS: Record<SpawnEdge, string> = {
+  top: 'Top',
+  bottom: 'Bottom',
+  left: 'Left',
+  right: 'Right',
+  sides: 'Either side',
+  corners: 'Corners',
+};
+const PATTERN_LABELS = Object.fromEntries(WAVE_PATTERNS.map((pattern) => [pattern, FORMATIONS[pattern].label]));
+
+/**
+ * Fields of the selected wave: what spawns, how many groups, how often, from where and in what formation.
+ */
+export default function WaveSettings({ wave, onChange, onRemove }: WaveSettingsProps) {
+  const setEnemy = (enemy: WaveEnemy) => {
+    // A random mix rolls its own sizes
+    const { size: _size, ...rest } = wave;
+    onChange(enemy === 'random' ? { ...rest, enemy } : { ...wave, enemy });
+  };
+
+  const setSize = (size: WaveSize) => {
+    const { size: _size, ...rest } = wave;
+    onChange(size === 'auto' ? rest : { ...rest, size });
+  };
+
+  const setCount = (count: number | undefined) => {
+    const { count: _count, ...rest } = wave;
+    onChange(count === undefined ? rest : { ...rest, count: Math.round(count) });
+  };
+
+  const clearPath = () => {
+    const { path: _path, ...rest } = wave;
+    onChange(rest);
+  };
+
+  const buttonClassName = 'border-game-border bg-transparent text-white hover:bg-game-field h-auto';
+  const buttonStyle = { fontSize: 'var(--compact-hud-font-size-small)', padding: '0.25rem 0.5rem' };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <SelectField label="ENEMY" value={wave.enemy} options={ENEMY_OPTIONS} labels={ENEMY_LABELS} onChange={setEnemy} />
+      <SelectField
+        label="SIZE"
+        value={wave.size ?? 'auto'}
+        options={SIZE_OPTIONS}
+        onChange={setSize}
+        disabled={wave.enemy === 'random'}
+      />
+      <NumberField label="GROUPS" value={wave.count} min={1} step={1} optional placeholder="endless" onChange={setCount} />
+      <NumberField
+        label="EVERY (MS)"
+        value={wave.interval}
+        min={MIN_WAVE_INTERVAL}
+        step={100}
+        onChange={(interval) => interval !== undefined && onChange({ ...wave, interval })}
+      />
+      <NumberField
+        label="START (S)"
+        value={wave.start}
+        min={0}
+        step={0.5}
+        onChange={(start) => start !== undefined && onChange({ ...wave, start })}
+      />
+      <SelectField
+        label="EDGE"
+        value={wave.edge}
+        options={SPAWN_EDGES}
+        labels={EDGE_LABELS}
+        onChange={(edge) => onChange({ ...wave, edge })}
+        disabled={wave.path !== undefined || !FORMATIONS[wave.pattern].usesEdge}
+      />
+      <SelectField
+        label="PATTERN"
+        value={wave.pattern}
+        options={WAVE_PATTERNS}
+        labels={PATTERN_LABELS}
+        onChange={(pattern) => onChange({ ...wave, pattern })}
+        disabled={wave.path !== undefined}
+      />
+      {wave.path && (
+        <Button size="sm" variant="outline" onClick={clearPath} className={buttonClassName} style={buttonStyle}>
+          CLEAR PATH ({wave.path.length})
+        </Button>
+      )}
+      <Button size="sm" variant="outline" onClick={onRemove} className={buttonClassName} style={buttonStyle}>
+        DELETE WAVE
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useRef } from 'react';
+import type { WaveDefinition } from '../simulation/levels';
+
+interface WaveTimelineProps {
+  waves: WaveDefinition[];
+  timeLimit: number; // Seconds the timeline spans
+  selectedWave: number | null;
+  onSelectWave: (index: number) => void;
+  onMoveWave: (index: number, start: number) => void; // New start in seconds
+}
+
+const TICK_STEP = 10; // Seconds between ruler labels
+const MAX_SPAWN_MARKS = 40; // Longer waves are drawn as a plain bar
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * One row per wave on a track spanning the level's time limit, with a mark per spawn.
+ * Dragging a wave's bar moves its start time; clicking selects it.
+ */
+export default function WaveTimeline({ waves, timeLimit, selectedWave, onSelectWave, onMoveWave }: WaveTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ index: number; pointerX: number; start: number } | null>(null);
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { index, pointerX: e.clientX, start: waves[index].start };
+    onSelectWave(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const track = trackRef.current;
+    if (!drag || !track) return;
+    const seconds = ((e.clientX - drag.pointerX) / track.getBoundingClientRect().width) * timeLimit;
+    const start = round(Math.max(0, Math.min(timeLimit, drag.start + seconds)));
+    if (start !== waves[drag.index].start) onMoveWave(drag.index, start);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const ticks = Array.from({ length: Math.floor(timeLimit / TICK_STEP) + 1 }, (_, i) => i * TICK_STEP);
+  const fontSize = 'var(--compact-hud-font-size-small)';
+
+  return (
+    <div className="flex flex-col gap-1 select-none" style={{ fontSize }}>
+      <div ref={trackRef} className="relative h-4 ml-8 text-white/60">
+        {ticks.map((tick) => (
+          <span key={tick} className="absolute -translate-x-1/2" style={{ left: `${(tick / timeLimit) * 100}%` }}>
+            {tick}s
+          </span>
+        ))}
+      </div>
+
+      {waves.map((wave, index) => {
+        const spawnsInTime = Math.max(0, Math.floor(((timeLimit - wave.start) * 1000) / wave.interval));
+        const spawns = Math.min(wave.count ?? Infinity, spawnsInTime);
+        const end = wave.start + (spawns * wave.interval) / 1000;
+        const spawnTimes = spawns <= MAX_SPAWN_MARKS
+          ? Array.from({ length: spawns }, (_, i) => wave.start + ((i + 1) * wave.interval) / 1000)
+          : [];
+        const selected = index === selectedWave;
+
+        return (
+          <div key={index} className="flex items-center gap-1">
+            <span className={`w-7 font-bold ${selected ? 'text-game-accent' : 'text-white'}`}>{index + 1}</span>
+            <div className="relative flex-1 h-5 bg-game-field border border-game-border rounded">
+              <div
+                className={`absolute inset-y-0 rounded cursor-grab active:cursor-grabbing touch-none ${
+                  selected ? 'bg-game-accent/60' : 'bg-white/25'
+                }`}
+                style={{
+                  left: `${(wave.start / timeLimit) * 100}%`,
+                  width: `max(6px, ${((end - wave.start) / timeLimit) * 100}%)`,
+                }}
+                onPointerDown={handlePointerDown(index)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                title={`Wave ${index + 1}: starts at ${wave.start}s`}
+              />
+              {spawnTimes.map((time, i) => (
+                <div
+                  key={i}
+                  className="absolute inset-y-1 w-px bg-white pointer-events-none"
+                  style={{ left: `${(time / timeLimit) * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
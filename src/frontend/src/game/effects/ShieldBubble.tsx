@@ -0,0 +1,28 @@
+import { POWER_UP_STYLES } from '../render/powerUpStyles';
+import { JET_SIZE } from '../simulation/constants';
+
+interface ShieldBubbleProps {
+  position: { x: number; y: number };
+  fading?: boolean; // Shield is about to run out
+}
+
+// Ring around the jet while the shield power-up is active
+export default function ShieldBubble({ position, fading = false }: ShieldBubbleProps) {
+  const { color } = POWER_UP_STYLES.shield;
+  return (
+    <div
+      className={`absolute pointer-events-none rounded-full ${fading ? 'animate-pulse' : ''}`}
+      style={{
+        left: `${position.x}%`,
+        top: `${position.y}%`,
+        width: (JET_SIZE + 8) * 2,
+        height: (JET_SIZE + 8) * 2,
+        transform: 'translate(-50%, -50%)',
+        border: `2px solid ${color}`,
+        background: `radial-gradient(circle, transparent 60%, ${color} 140%)`,
+        boxShadow: `0 0 16px ${color}`,
+        opacity: 0.8,
+      }}
+    />
+  );
+}
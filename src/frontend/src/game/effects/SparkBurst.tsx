@@ -1,22 +1,25 @@
 import { Z_INDEX } from '../ui/zIndex';
+import { createRng, randomRange } from '../simulation/rng';
 
 interface SparkBurstProps {
   x: number; // Position in percent (0-100)
   y: number; // Position in percent (0-100)
   variant?: 'normal' | 'boss' | 'player';
+  seed?: number; // Seed for spark angle jitter so the burst looks the same on every render
   onComplete?: () => void;
 }
 
-export default function SparkBurst({ x, y, variant = 'normal', onComplete }: SparkBurstProps) {
+export default function SparkBurst({ x, y, variant = 'normal', seed = 0, onComplete }: SparkBurstProps) {
   // Determine spark count and intensity based on variant
   const sparkCount = variant === 'boss' ? 16 : variant === 'player' ? 12 : 8;
   const sparkLength = variant === 'boss' ? 24 : variant === 'player' ? 18 : 14;
   const sparkWidth = variant === 'boss' ? 3 : 2;
   
   // Generate sparks at evenly distributed angles
+  const rng = createRng(seed);
   const sparks = Array.from({ length: sparkCount }, (_, i) => {
     const angle = (360 / sparkCount) * i;
-    const randomOffset = (Math.random() - 0.5) * 15; // Add slight randomness
+    const randomOffset = randomRange(rng, -7.5, 7.5); // Add slight (seeded) randomness
     return { id: i, angle: angle + randomOffset };
   });
 
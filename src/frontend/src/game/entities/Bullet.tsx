@@ -1,9 +1,17 @@
+import { WEAPON_STYLES, getBulletDimensions } from '../render/weaponStyles';
+import type { WeaponKind } from '../simulation/types';
+
 interface BulletProps {
   position: { x: number; y: number };
   rotation?: number; // Rotation in degrees (0=up, matching PlayerJet convention)
+  weapon?: WeaponKind;
+  damage?: number; // Charge shots are drawn larger the more damage they carry
 }
 
-export default function Bullet({ position, rotation = 0 }: BulletProps) {
+export default function Bullet({ position, rotation = 0, weapon = 'cannon', damage = 1 }: BulletProps) {
+  const { color } = WEAPON_STYLES[weapon];
+  const { width, length } = getBulletDimensions({ weapon, damage });
+
   return (
     <div
       className="absolute pointer-events-none"
@@ -13,16 +21,27 @@ export default function Bullet({ position, rotation = 0 }: BulletProps) {
         transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
       }}
     >
-      <div className="relative w-1.5 h-3 sm:w-1.5 sm:h-4">
-        {/* Bullet glow */}
-        <div className="absolute inset-0 bg-game-accent rounded-full blur-sm opacity-80" />
-        
-        {/* Bullet core */}
-        <div className="absolute inset-0 bg-gradient-to-b from-white via-game-accent to-game-primary rounded-full" />
-        
-        {/* Trailing effect */}
-        <div className="absolute top-full left-1/2 -translate-x-1/2 w-0.5 h-2 sm:h-3 bg-gradient-to-b from-game-accent/60 to-transparent rounded-full blur-[1px]" />
-      </div>
+      {color === null ? (
+        <div className="relative w-1.5 h-3 sm:w-1.5 sm:h-4">
+          {/* Bullet glow */}
+          <div className="absolute inset-0 bg-game-accent rounded-full blur-sm opacity-80" />
+          
+          {/* Bullet core */}
+          <div className="absolute inset-0 bg-gradient-to-b from-white via-game-accent to-game-primary rounded-full" />
+          
+          {/* Trailing effect */}
+          <div className="absolute top-full left-1/2 -translate-x-1/2 w-0.5 h-2 sm:h-3 bg-gradient-to-b from-game-accent/60 to-transparent rounded-full blur-[1px]" />
+        </div>
+      ) : (
+        <div className="relative" style={{ width, height: length }}>
+          {/* Weapon-colored glow and core */}
+          <div className="absolute inset-0 rounded-full blur-sm opacity-80" style={{ backgroundColor: color }} />
+          <div
+            className="absolute inset-0 rounded-full"
+            style={{ background: `linear-gradient(to bottom, white, ${color})` }}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,29 @@
+import { ENEMY_SHOT_COLOR } from '../render/enemyStyles';
+import { ENEMY_SHOT_SIZE } from '../simulation/constants';
+
+interface EnemyShotProps {
+  position: { x: number; y: number };
+}
+
+export default function EnemyShot({ position }: EnemyShotProps) {
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: `${position.x}%`,
+        top: `${position.y}%`,
+        transform: 'translate(-50%, -50%)',
+      }}
+    >
+      <div
+        className="rounded-full"
+        style={{
+          width: ENEMY_SHOT_SIZE * 2,
+          height: ENEMY_SHOT_SIZE * 2,
+          background: `radial-gradient(circle, white 20%, ${ENEMY_SHOT_COLOR} 70%)`,
+          boxShadow: `0 0 10px ${ENEMY_SHOT_COLOR}`,
+        }}
+      />
+    </div>
+  );
+}
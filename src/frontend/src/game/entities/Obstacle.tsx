@@ -1,19 +1,42 @@
 import ObstacleSparks from '../effects/ObstacleSparks';
+import { OBSTACLE_HEXAGON, toSvgPoints } from '../physics/hitShapes';
+import { getEnemyStyle, type BossShieldView } from '../render/enemyStyles';
+import type { EnemyKind } from '../simulation/types';
 
 type ObstacleSize = 'small' | 'medium' | 'large';
 
 interface ObstacleProps {
   position: { x: number; y: number };
   size: ObstacleSize;
+  kind?: EnemyKind;
   isBoss?: boolean;
+  flashing?: boolean; // Bright phase of an armed mine's or charging boss's warning flash
+  bossShield?: BossShieldView | null; // Shield bubble and weak point of a shielded boss
 }
 
-export default function Obstacle({ position, size, isBoss = false }: ObstacleProps) {
+// SVG arc along a circle around the viewBox center; angles in degrees, 0 = up, clockwise
+function arcPath(radius: number, from: number, to: number): string {
+  const point = (angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return `${50 + Math.sin(radians) * radius} ${50 - Math.cos(radians) * radius}`;
+  };
+  return `M ${point(from)} A ${radius} ${radius} 0 ${to - from > 180 ? 1 : 0} 1 ${point(to)}`;
+}
+
+export default function Obstacle({
+  position,
+  size,
+  kind = 'drifter',
+  isBoss = false,
+  flashing = false,
+  bossShield = null,
+}: ObstacleProps) {
   // Reduced size-based scaling - boss gets large scale but smaller than before
   const sizeScale = isBoss ? 1.3 : size === 'small' ? 0.55 : size === 'large' ? 0.9 : 0.7;
   
-  // Boss gets red color scheme
-  const colorScheme = isBoss ? 'red' : 'orange';
+  // Boss gets the red scheme, every other kind its own hues
+  const { hues, shadow, markPath } = getEnemyStyle({ kind, isBoss });
+  const gradientId = `${size}-${kind}-${isBoss}`;
   
   return (
     <div
@@ -36,49 +59,46 @@ export default function Obstacle({ position, size, isBoss = false }: ObstaclePro
         {/* Hexagon obstacle with orange/red hazard theme */}
         <svg
           viewBox="0 0 100 100"
-          className={`w-full h-full ${
-            isBoss 
-              ? 'drop-shadow-[0_0_30px_rgba(255,0,0,0.9)]' 
-              : 'drop-shadow-[0_0_20px_rgba(255,80,0,0.8)]'
-          }`}
+          className="w-full h-full"
+          style={{ filter: `drop-shadow(0 0 ${isBoss ? 30 : 20}px ${shadow})` }}
         >
           <defs>
-            <radialGradient id={`hexGlow-${size}-${isBoss}`} cx="50%" cy="50%" r="50%">
+            <radialGradient id={`hexGlow-${gradientId}`} cx="50%" cy="50%" r="50%">
               <stop 
                 offset="0%" 
-                stopColor={isBoss ? "oklch(0.65 0.25 15)" : "oklch(0.65 0.25 30)"} 
+                stopColor={`oklch(0.65 0.25 ${hues.glow[0]})`} 
                 stopOpacity="0.6" 
               />
               <stop 
                 offset="100%" 
-                stopColor={isBoss ? "oklch(0.55 0.22 10)" : "oklch(0.55 0.22 25)"} 
+                stopColor={`oklch(0.55 0.22 ${hues.glow[1]})`} 
                 stopOpacity="0" 
               />
             </radialGradient>
-            <linearGradient id={`hexBody-${size}-${isBoss}`} x1="0%" y1="0%" x2="100%" y2="100%">
+            <linearGradient id={`hexBody-${gradientId}`} x1="0%" y1="0%" x2="100%" y2="100%">
               <stop 
                 offset="0%" 
-                stopColor={isBoss ? "oklch(0.55 0.24 15)" : "oklch(0.55 0.24 30)"} 
+                stopColor={`oklch(0.55 0.24 ${hues.body[0]})`} 
               />
               <stop 
                 offset="50%" 
-                stopColor={isBoss ? "oklch(0.48 0.22 12)" : "oklch(0.48 0.22 28)"} 
+                stopColor={`oklch(0.48 0.22 ${hues.body[1]})`} 
               />
               <stop 
                 offset="100%" 
-                stopColor={isBoss ? "oklch(0.42 0.20 10)" : "oklch(0.42 0.20 25)"} 
+                stopColor={`oklch(0.42 0.20 ${hues.body[2]})`} 
               />
             </linearGradient>
           </defs>
           
           {/* Outer glow */}
-          <circle cx="50" cy="50" r="45" fill={`url(#hexGlow-${size}-${isBoss})`} className="animate-pulse" />
+          <circle cx="50" cy="50" r="45" fill={`url(#hexGlow-${gradientId})`} className="animate-pulse" />
           
-          {/* Main hexagon body - flat top orientation */}
+          {/* Main hexagon body - flat top orientation (same outline as the polygon hitbox) */}
           <polygon
-            points="50,10 85,30 85,70 50,90 15,70 15,30"
-            fill={`url(#hexBody-${size}-${isBoss})`}
-            stroke={isBoss ? "oklch(0.70 0.26 15)" : "oklch(0.70 0.26 32)"}
+            points={toSvgPoints(OBSTACLE_HEXAGON)}
+            fill={`url(#hexBody-${gradientId})`}
+            stroke={`oklch(0.70 0.26 ${hues.stroke})`}
             strokeWidth="3"
           />
           
@@ -86,7 +106,7 @@ export default function Obstacle({ position, size, isBoss = false }: ObstaclePro
           <polygon
             points="50,20 75,35 75,65 50,80 25,65 25,35"
             fill="none"
-            stroke={isBoss ? "oklch(0.60 0.24 15)" : "oklch(0.60 0.24 30)"}
+            stroke={`oklch(0.60 0.24 ${hues.inner})`}
             strokeWidth="2"
             opacity="0.7"
           />
@@ -94,35 +114,35 @@ export default function Obstacle({ position, size, isBoss = false }: ObstaclePro
           {/* Hazard stripes - adapted to hexagon */}
           <line 
             x1="30" y1="35" x2="45" y2="50" 
-            stroke={isBoss ? "oklch(0.75 0.26 20)" : "oklch(0.75 0.26 35)"} 
+            stroke={`oklch(0.75 0.26 ${hues.stripe})`} 
             strokeWidth="2" 
             opacity="0.8" 
           />
           <line 
             x1="55" y1="50" x2="70" y2="65" 
-            stroke={isBoss ? "oklch(0.75 0.26 20)" : "oklch(0.75 0.26 35)"} 
+            stroke={`oklch(0.75 0.26 ${hues.stripe})`} 
             strokeWidth="2" 
             opacity="0.8" 
           />
           <line 
             x1="30" y1="65" x2="45" y2="50" 
-            stroke={isBoss ? "oklch(0.75 0.26 20)" : "oklch(0.75 0.26 35)"} 
+            stroke={`oklch(0.75 0.26 ${hues.stripe})`} 
             strokeWidth="2" 
             opacity="0.8" 
           />
           <line 
             x1="55" y1="50" x2="70" y2="35" 
-            stroke={isBoss ? "oklch(0.75 0.26 20)" : "oklch(0.75 0.26 35)"} 
+            stroke={`oklch(0.75 0.26 ${hues.stripe})`} 
             strokeWidth="2" 
             opacity="0.8" 
           />
           
-          {/* Pulsing core */}
+          {/* Pulsing core (white while an armed mine flashes) */}
           <circle
             cx="50"
             cy="50"
             r="8"
-            fill={isBoss ? "oklch(0.75 0.26 20)" : "oklch(0.75 0.26 35)"}
+            fill={flashing ? 'white' : `oklch(0.75 0.26 ${hues.stripe})`}
             className="animate-pulse"
             opacity="0.9"
           />
@@ -133,7 +153,7 @@ export default function Obstacle({ position, size, isBoss = false }: ObstaclePro
             cy="50"
             r="12"
             fill="none"
-            stroke={isBoss ? "oklch(0.70 0.26 15)" : "oklch(0.70 0.26 32)"}
+            stroke={`oklch(0.70 0.26 ${hues.stroke})`}
             strokeWidth="1.5"
             opacity="0.5"
           />
@@ -142,10 +162,40 @@ export default function Obstacle({ position, size, isBoss = false }: ObstaclePro
             cy="50"
             r="16"
             fill="none"
-            stroke={isBoss ? "oklch(0.70 0.26 15)" : "oklch(0.70 0.26 32)"}
+            stroke={`oklch(0.70 0.26 ${hues.stroke})`}
             strokeWidth="1"
             opacity="0.3"
           />
+
+          {/* Archetype mark */}
+          {markPath && (
+            <path
+              d={markPath}
+              fill="none"
+              stroke={`oklch(0.88 0.16 ${hues.stripe})`}
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+
+          {/* Boss shield bubble with its weak point lit up */}
+          {bossShield && (
+            <>
+              <circle cx="50" cy="50" r="47" fill="none" stroke="oklch(0.80 0.12 230)" strokeWidth="3" opacity="0.35" />
+              <path
+                d={arcPath(
+                  47,
+                  bossShield.weakPointAngle - bossShield.weakPointArc / 2,
+                  bossShield.weakPointAngle + bossShield.weakPointArc / 2
+                )}
+                fill="none"
+                stroke="oklch(0.90 0.18 95)"
+                strokeWidth="5"
+                strokeLinecap="round"
+              />
+            </>
+          )}
         </svg>
       </div>
     </div>
@@ -0,0 +1,37 @@
+import PowerUpIcon from '../ui/PowerUpIcon';
+import { POWER_UP_STYLES } from '../render/powerUpStyles';
+import { PICKUP_SIZE } from '../simulation/constants';
+import type { PowerUpKind } from '../simulation/types';
+
+interface PickupProps {
+  position: { x: number; y: number };
+  kind: PowerUpKind;
+  blinkedOut?: boolean; // Dimmed phase of the expiry blink
+}
+
+export default function Pickup({ position, kind, blinkedOut = false }: PickupProps) {
+  const { color } = POWER_UP_STYLES[kind];
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: `${position.x}%`,
+        top: `${position.y}%`,
+        transform: 'translate(-50%, -50%)',
+        opacity: blinkedOut ? 0.3 : 1,
+      }}
+    >
+      <div
+        className="flex items-center justify-center rounded-full bg-game-field/80 animate-pulse"
+        style={{
+          width: PICKUP_SIZE * 2,
+          height: PICKUP_SIZE * 2,
+          border: `2px solid ${color}`,
+          boxShadow: `0 0 12px ${color}`,
+        }}
+      >
+        <PowerUpIcon kind={kind} size={`${PICKUP_SIZE * 1.2}px`} />
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,21 @@
+import {
+  JET_NOSE,
+  JET_LEFT_WING,
+  JET_RIGHT_WING,
+  JET_LEFT_STABILIZER,
+  JET_RIGHT_STABILIZER,
+  JET_TAIL,
+  toSvgPath,
+} from '../physics/hitShapes';
+
 interface PlayerJetProps {
   position: { x: number; y: number };
   rotation?: number; // Rotation in degrees, 0 = facing up
   isThrusting?: boolean; // Whether the jet is actively moving
+  blinkedOut?: boolean; // Hidden phase of the invulnerability blink
 }
 
-export default function PlayerJet({ position, rotation = 0, isThrusting = false }: PlayerJetProps) {
+export default function PlayerJet({ position, rotation = 0, isThrusting = false, blinkedOut = false }: PlayerJetProps) {
   return (
     <div
       className="absolute pointer-events-none transition-transform duration-100"
@@ -12,6 +23,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
         left: `${position.x}%`,
         top: `${position.y}%`,
         transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+        opacity: blinkedOut ? 0 : 1,
       }}
     >
       <div className="relative w-12 h-12 sm:w-16 sm:h-16 md:w-20 md:h-20" style={{ overflow: 'visible' }}>
@@ -79,7 +91,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Nose cone */}
           <path
-            d="M 50 22 L 44 30 L 56 30 Z"
+            d={toSvgPath(JET_NOSE)}
             fill="#ff6b35"
             stroke="#1a1a2e"
             strokeWidth="1"
@@ -98,7 +110,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Left wing */}
           <path
-            d="M 38 55 L 20 65 L 25 68 L 40 60 Z"
+            d={toSvgPath(JET_LEFT_WING)}
             fill="url(#wingGradient)"
             stroke="#1a1a2e"
             strokeWidth="1.5"
@@ -106,7 +118,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Right wing */}
           <path
-            d="M 62 55 L 80 65 L 75 68 L 60 60 Z"
+            d={toSvgPath(JET_RIGHT_WING)}
             fill="url(#wingGradient)"
             stroke="#1a1a2e"
             strokeWidth="1.5"
@@ -114,7 +126,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Left stabilizer */}
           <path
-            d="M 42 72 L 35 80 L 38 82 L 44 75 Z"
+            d={toSvgPath(JET_LEFT_STABILIZER)}
             fill="url(#stabilizerGradient)"
             stroke="#1a1a2e"
             strokeWidth="1"
@@ -122,7 +134,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Right stabilizer */}
           <path
-            d="M 58 72 L 65 80 L 62 82 L 56 75 Z"
+            d={toSvgPath(JET_RIGHT_STABILIZER)}
             fill="url(#stabilizerGradient)"
             stroke="#1a1a2e"
             strokeWidth="1"
@@ -130,7 +142,7 @@ export default function PlayerJet({ position, rotation = 0, isThrusting = false
           
           {/* Tail fin */}
           <path
-            d="M 50 75 L 46 85 L 54 85 Z"
+            d={toSvgPath(JET_TAIL)}
             fill="url(#tailGradient)"
             stroke="#1a1a2e"
             strokeWidth="1"
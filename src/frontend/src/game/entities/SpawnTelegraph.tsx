@@ -0,0 +1,35 @@
+import { TELEGRAPH_MARKER_PATH, TELEGRAPH_MARKER_SIZE, TELEGRAPH_MARKER_VIEWBOX, type TelegraphMarkerView } from '../render/telegraphStyles';
+
+interface SpawnTelegraphProps {
+  marker: TelegraphMarkerView;
+}
+
+export default function SpawnTelegraph({ marker }: SpawnTelegraphProps) {
+  const { position, rotation, color, opacity } = marker;
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: `${position.x}%`,
+        top: `${position.y}%`,
+        transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+        opacity,
+      }}
+    >
+      <svg
+        className="animate-pulse"
+        width={TELEGRAPH_MARKER_SIZE}
+        height={TELEGRAPH_MARKER_SIZE}
+        viewBox={`0 0 ${TELEGRAPH_MARKER_VIEWBOX} ${TELEGRAPH_MARKER_VIEWBOX}`}
+        fill="none"
+        stroke={color}
+        strokeWidth={3}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        style={{ filter: `drop-shadow(0 0 6px ${color})` }}
+      >
+        <path d={TELEGRAPH_MARKER_PATH} />
+      </svg>
+    </div>
+  );
+}
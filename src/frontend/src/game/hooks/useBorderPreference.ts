@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import type { BorderMode } from '../simulation/types';
+
+const STORAGE_KEY = 'jetfighter-border';
+const DEFAULT_BORDER: BorderMode = 'lethal';
+
+function isBorderMode(value: string | null): value is BorderMode {
+  return value === 'lethal' || value === 'bounce' || value === 'wrap';
+}
+
+/**
+ * Hook to manage the border mode with localStorage persistence.
+ * The mode applies from the next run started; unknown stored values fall back to a lethal border.
+ */
+export function useBorderPreference() {
+  const [border, setBorder] = useState<BorderMode>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isBorderMode(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read border mode from localStorage:', error);
+    }
+    return DEFAULT_BORDER;
+  });
+
+  // Persist to localStorage whenever the mode changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, border);
+    } catch (error) {
+      console.warn('Failed to save border mode to localStorage:', error);
+    }
+  }, [border]);
+
+  return { border, setBorder };
+}
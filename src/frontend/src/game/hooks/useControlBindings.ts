@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_BINDINGS, parseBindings, type ControlBindings } from '../input/bindings';
+
+const STORAGE_KEY = 'jetfighter-control-bindings';
+
+/**
+ * Hook to manage the keyboard and controller bindings with localStorage persistence.
+ * Actions whose stored bindings are missing or malformed keep their defaults.
+ */
+export function useControlBindings() {
+  const [bindings, setBindings] = useState<ControlBindings>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored !== null) {
+        return parseBindings(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.warn('Failed to read control bindings from localStorage:', error);
+    }
+    return DEFAULT_BINDINGS;
+  });
+
+  // Persist to localStorage whenever the bindings change
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      console.warn('Failed to save control bindings to localStorage:', error);
+    }
+  }, [bindings]);
+
+  return { bindings, setBindings };
+}
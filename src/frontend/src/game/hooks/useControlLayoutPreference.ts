@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+
+// 'classic' pairs the joystick with a shoot button; 'twinStick' swaps the button for an aim stick that fires while held
+export type ControlLayout = 'classic' | 'twinStick';
+
+const STORAGE_KEY = 'jetfighter-control-layout';
+const DEFAULT_CONTROL_LAYOUT: ControlLayout = 'classic';
+
+function isControlLayout(value: string | null): value is ControlLayout {
+  return value === 'classic' || value === 'twinStick';
+}
+
+/**
+ * Hook to manage the on-screen control layout with localStorage persistence.
+ * Unknown stored values fall back to the classic layout.
+ */
+export function useControlLayoutPreference() {
+  const [controlLayout, setControlLayout] = useState<ControlLayout>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isControlLayout(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read control layout from localStorage:', error);
+    }
+    return DEFAULT_CONTROL_LAYOUT;
+  });
+
+  // Persist to localStorage whenever the layout changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, controlLayout);
+    } catch (error) {
+      console.warn('Failed to save control layout to localStorage:', error);
+    }
+  }, [controlLayout]);
+
+  return { controlLayout, setControlLayout };
+}
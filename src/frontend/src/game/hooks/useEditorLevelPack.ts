@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { createBlankLevel, validateLevelPack, type LevelPack } from '../simulation/levels';
+
+const STORAGE_KEY = 'jetfighter-editor-levels';
+const UNREADABLE_STORAGE_KEY = 'jetfighter-editor-levels-unreadable'; // Where a pack that fails to load is set aside
+
+function createStarterPack(): LevelPack {
+  return { name: 'Custom levels', levels: [createBlankLevel('Level 1')] };
+}
+
+interface StoredPack {
+  pack: LevelPack;
+  loadError: string | null;
+}
+
+function loadStoredPack(): StoredPack {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+    if (stored !== null) {
+      return { pack: validateLevelPack(JSON.parse(stored)), loadError: null };
+    }
+  } catch (error) {
+    console.warn('Failed to read editor levels from localStorage:', error);
+    if (stored !== null) {
+      const reason = error instanceof Error ? error.message : String(error);
+      try {
+        localStorage.setItem(UNREADABLE_STORAGE_KEY, stored);
+        return { pack: createStarterPack(), loadError: `Saved levels could not be loaded (${reason}); they were set aside, not overwritten.` };
+      } catch {
+        return { pack: createStarterPack(), loadError: `Saved levels could not be loaded (${reason}).` };
+      }
+    }
+  }
+  return { pack: createStarterPack(), loadError: null };
+}
+
+/**
+ * Hook to keep the level editor's pack in localStorage, saved on every edit that leaves it valid.
+ * A stored pack that no longer passes validation is set aside under its own key and reported,
+ * and the editor starts from a fresh starter pack.
+ */
+export function useEditorLevelPack() {
+  const [{ pack: initialPack, loadError }] = useState(loadStoredPack);
+  const [pack, setPack] = useState<LevelPack>(initialPack);
+
+  // Persist to localStorage whenever the pack changes; a pack mid-edit that would not load again is not saved
+  useEffect(() => {
+    try {
+      validateLevelPack(pack);
+    } catch {
+      return;
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(pack));
+    } catch (error) {
+      console.warn('Failed to save editor levels to localStorage:', error);
+    }
+  }, [pack]);
+
+  return { pack, setPack, loadError };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getActiveGamepad, playRumble, readGamepad, type GamepadReading, type RumbleEffect } from '../utils/gamepadInput';
+import type { ControlBindings } from '../input/bindings';
+import {
+  pressAction,
+  releaseSource,
+  setSourceAim,
+  setSourceFire,
+  setSourceMove,
+  type InputManager,
+} from '../input/inputManager';
+import type { JoystickVector } from '../simulation/types';
+
+const MOVE_EPSILON = 0.01; // Stick change worth reporting, so a resting thumb does not flood the replay
+
+const NEUTRAL: JoystickVector = { x: 0, y: 0, magnitude: 0 };
+
+const NO_INPUT: GamepadReading = { move: NEUTRAL, aim: NEUTRAL, fire: false, special: false, pause: false, confirm: false };
+
+function hasMoved(previous: JoystickVector, next: JoystickVector): boolean {
+  return (
+    Math.abs(previous.x - next.x) > MOVE_EPSILON ||
+    Math.abs(previous.y - next.y) > MOVE_EPSILON ||
+    Math.abs(previous.magnitude - next.magnitude) > MOVE_EPSILON ||
+    (previous.magnitude === 0) !== (next.magnitude === 0)
+  );
+}
+
+/**
+ * Hook polling the first connected controller every frame and feeding it into the input manager
+ * using the player's button bindings, reporting changes only. Also returns a rumble trigger for
+ * game events. Reports whether a controller is in use, which the last touch on the screen clears again.
+ * @param enabled Poll the controller; off while a replay, the level editor or the controls screen has the screen
+ */
+export function useGamepadControls(manager: InputManager, buttons: ControlBindings['buttons'], enabled: boolean) {
+  const [gamepadDetected, setGamepadDetected] = useState(false);
+  const detectedRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame: number | null = null;
+    let previous = NO_INPUT;
+
+    const poll = () => {
+      const pad = getActiveGamepad();
+      const reading = pad ? readGamepad(pad, buttons) : NO_INPUT;
+
+      // Sticks are measured against what was last reported, so slow drift still adds up to a change
+      const move = hasMoved(previous.move, reading.move) ? reading.move : previous.move;
+      const aim = hasMoved(previous.aim, reading.aim) ? reading.aim : previous.aim;
+      if (move !== previous.move) setSourceMove(manager, 'gamepad', move);
+      if (aim !== previous.aim) setSourceAim(manager, 'gamepad', aim);
+      if (reading.fire !== previous.fire) setSourceFire(manager, 'gamepad', reading.fire);
+      if (reading.special && !previous.special) pressAction(manager, 'special');
+      if (reading.pause && !previous.pause) pressAction(manager, 'pause');
+      if (reading.confirm && !previous.confirm) pressAction(manager, 'confirm');
+      previous = { ...reading, move, aim };
+
+      if (!detectedRef.current && (move.magnitude > 0 || aim.magnitude > 0 || reading.fire || reading.pause)) {
+        detectedRef.current = true;
+        setGamepadDetected(true);
+      }
+
+      frame = requestAnimationFrame(poll);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch' && detectedRef.current) {
+        detectedRef.current = false;
+        setGamepadDetected(false);
+      }
+    };
+
+    frame = requestAnimationFrame(poll);
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      // Let go of anything still held, since its release will not be seen
+      releaseSource(manager, 'gamepad');
+    };
+  }, [manager, buttons, enabled]);
+
+  const rumble = useCallback((effect: RumbleEffect) => {
+    const pad = getActiveGamepad();
+    if (pad) playRumble(pad, effect);
+  }, []);
+
+  return { gamepadDetected, rumble };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import type { HitboxMode } from '../simulation/types';
+
+const STORAGE_KEY = 'jetfighter-hitboxes';
+const DEFAULT_HITBOXES: HitboxMode = 'circle';
+
+function isHitboxMode(value: string | null): value is HitboxMode {
+  return value === 'circle' || value === 'polygon';
+}
+
+/**
+ * Hook to manage the collision shape mode with localStorage persistence.
+ * The mode applies from the next run started; unknown stored values fall back to circles.
+ */
+export function useHitboxPreference() {
+  const [hitboxes, setHitboxes] = useState<HitboxMode>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isHitboxMode(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read hitbox mode from localStorage:', error);
+    }
+    return DEFAULT_HITBOXES;
+  });
+
+  // Persist to localStorage whenever the mode changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, hitboxes);
+    } catch (error) {
+      console.warn('Failed to save hitbox mode to localStorage:', error);
+    }
+  }, [hitboxes]);
+
+  return { hitboxes, setHitboxes };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { getKeyboardVector } from '../utils/keyboardMovement';
+import { getBoundActions, type ControlBindings } from '../input/bindings';
+import { pressAction, releaseSource, setSourceFire, setSourceMove, type InputManager } from '../input/inputManager';
+
+const MOVE_ACTIONS = new Set(['up', 'down', 'left', 'right']);
+
+// Typing into a form field (the level editor, the sensitivity slider) must not steer the jet
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Hook feeding the keyboard into the input manager using the player's key bindings:
+ * by default WASD or the arrows move, Space or J fires, K switches weapon, P or Escape pauses
+ * and Enter starts or continues. Reports whether a keyboard is in use, which the last touch
+ * on the screen clears again.
+ * @param enabled Listen for keys; off while a replay, the level editor or the controls screen has the screen
+ */
+export function useKeyboardControls(manager: InputManager, keys: ControlBindings['keys'], enabled: boolean) {
+  const [keyboardDetected, setKeyboardDetected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const held = new Set<string>();
+
+    const updateHeld = () => {
+      setSourceMove(manager, 'keyboard', getKeyboardVector(held, keys));
+      setSourceFire(manager, 'keyboard', keys.fire.some((code) => held.has(code)));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const actions = getBoundActions<'keys'>(keys, e.code);
+      if (actions.length === 0) return;
+
+      // Keep Space and the arrows from scrolling the page or pressing a focused button
+      e.preventDefault();
+      setKeyboardDetected(true);
+      if (e.repeat) return;
+
+      for (const action of actions) {
+        if (action === 'pause' || action === 'special' || action === 'confirm') pressAction(manager, action);
+      }
+      if (actions.some((action) => action === 'fire' || MOVE_ACTIONS.has(action))) {
+        held.add(e.code);
+        updateHeld();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (held.delete(e.code)) updateHeld();
+    };
+
+    // Let go of everything when the window loses focus, since the key ups will never arrive
+    const releaseAll = () => {
+      held.clear();
+      releaseSource(manager, 'keyboard');
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') setKeyboardDetected(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAll);
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      releaseAll();
+    };
+  }, [manager, keys, enabled]);
+
+  return { keyboardDetected };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import type { RendererMode } from '../render/types';
+
+const STORAGE_KEY = 'jetfighter-renderer';
+const DEFAULT_RENDERER: RendererMode = 'canvas';
+
+function isRendererMode(value: string | null): value is RendererMode {
+  return value === 'canvas' || value === 'dom';
+}
+
+/**
+ * Hook to manage the world renderer choice with localStorage persistence.
+ * Unknown stored values fall back to the canvas renderer.
+ */
+export function useRendererPreference() {
+  const [renderer, setRenderer] = useState<RendererMode>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isRendererMode(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read renderer from localStorage:', error);
+    }
+    return DEFAULT_RENDERER;
+  });
+
+  // Persist to localStorage whenever the renderer changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, renderer);
+    } catch (error) {
+      console.warn('Failed to save renderer to localStorage:', error);
+    }
+  }, [renderer]);
+
+  return { renderer, setRenderer };
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  createReplayPlayback,
+  stepReplay,
+  seekReplay,
+  isReplayFinished,
+  type Replay,
+  type ReplayPlayback,
+} from '../simulation/replay';
+import { createFixedStepClock, advanceFixedStep } from '../simulation/fixedTimestep';
+
+export type ReplaySpeed = 0.5 | 1 | 2;
+
+/**
+ * Hook that plays a recorded replay back on its own requestAnimationFrame loop.
+ * Supports pause/play, 0.5x/1x/2x speed and scrubbing to any tick.
+ * Pass null to stop playback and release the replay world.
+ */
+export function useReplayPlayback(replay: Replay | null) {
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  const clockRef = useRef(createFixedStepClock());
+  const alphaRef = useRef(1);
+  const [, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  const render = useCallback(() => setFrame((prev) => prev + 1), []);
+
+  // (Re)build the playback world whenever a new replay is loaded
+  useEffect(() => {
+    playbackRef.current = replay ? createReplayPlayback(replay) : null;
+    alphaRef.current = 1;
+    setIsPlaying(replay !== null);
+    render();
+  }, [replay, render]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let animationFrame: number | null = null;
+    let lastTime = performance.now();
+    clockRef.current = createFixedStepClock();
+
+    const loop = (currentTime: number) => {
+      const playback = playbackRef.current;
+      if (!playback) return;
+
+      const frameDelta = (currentTime - lastTime) * speed;
+      lastTime = currentTime;
+
+      alphaRef.current = advanceFixedStep(clockRef.current, frameDelta, () => {
+        stepReplay(playback);
+      });
+      render();
+
+      if (isReplayFinished(playback)) {
+        alphaRef.current = 1;
+        setIsPlaying(false);
+        return;
+      }
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    animationFrame = requestAnimationFrame(loop);
+    return () => {
+      if (animationFrame !== null) {
+        cancelAnimationFrame(animationFrame);
+      }
+    };
+  }, [isPlaying, speed, render]);
+
+  const play = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    // Restart from the beginning when play is pressed at the end
+    if (isReplayFinished(playback)) {
+      seekReplay(playback, 0);
+    }
+    setIsPlaying(true);
+  }, []);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback((tick: number) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    seekReplay(playback, tick);
+    alphaRef.current = 1;
+    render();
+  }, [render]);
+
+  const playback = playbackRef.current;
+
+  return {
+    world: playback?.world ?? null,
+    tick: playback?.world.tick ?? 0,
+    totalTicks: playback?.replay.totalTicks ?? 0,
+    alpha: alphaRef.current,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+
+// 'joystick' steers with the on-screen joystick (or keys and controller); 'tilt' steers by tilting the device
+export type SteeringMode = 'joystick' | 'tilt';
+
+const STORAGE_KEY = 'jetfighter-steering';
+const DEFAULT_STEERING: SteeringMode = 'joystick';
+
+function isSteeringMode(value: string | null): value is SteeringMode {
+  return value === 'joystick' || value === 'tilt';
+}
+
+/**
+ * Hook to manage the steering mode with localStorage persistence.
+ * Unknown stored values fall back to the joystick.
+ */
+export function useSteeringPreference() {
+  const [steering, setSteering] = useState<SteeringMode>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isSteeringMode(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read steering mode from localStorage:', error);
+    }
+    return DEFAULT_STEERING;
+  });
+
+  // Persist to localStorage whenever the mode changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, steering);
+    } catch (error) {
+      console.warn('Failed to save steering mode to localStorage:', error);
+    }
+  }, [steering]);
+
+  return { steering, setSteering };
+}
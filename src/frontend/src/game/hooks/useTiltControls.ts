@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getScreenAngle, getTiltVector, toScreenTilt, type ScreenTilt } from '../utils/tiltInput';
+import { releaseSource, setSourceMove, type InputManager } from '../input/inputManager';
+import type { JoystickVector } from '../simulation/types';
+
+const MOVE_EPSILON = 0.01; // Tilt change worth reporting, so a slightly shaky hand does not flood the replay
+const STORAGE_KEY = 'jetfighter-tilt-neutral';
+
+function isScreenTilt(value: unknown): value is ScreenTilt {
+  const tilt = value as Partial<ScreenTilt> | null;
+  return typeof tilt === 'object' && tilt !== null && Number.isFinite(tilt.x) && Number.isFinite(tilt.y);
+}
+
+function readStoredNeutral(): ScreenTilt | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored !== null) {
+      const neutral: unknown = JSON.parse(stored);
+      if (isScreenTilt(neutral)) return neutral;
+    }
+  } catch (error) {
+    console.warn('Failed to read tilt calibration from localStorage:', error);
+  }
+  return null;
+}
+
+/**
+ * Hook steering the jet by tilting the device, feeding the input manager's tilt source.
+ * The returned calibrate makes the current pose neutral and keeps it in localStorage; until the
+ * player has done so, the first reading and autoCalibrate (at the start of each run) set neutral instead.
+ * Neutral is kept in screen axes, so it still holds after turning between the two landscape orientations.
+ * @param enabled Tilt steering is switched on and nothing else has the screen
+ */
+export function useTiltControls(manager: InputManager, enabled: boolean) {
+  const [storedNeutral] = useState(readStoredNeutral);
+  const latestRef = useRef<ScreenTilt | null>(null);
+  const storedRef = useRef<ScreenTilt | null>(storedNeutral); // Calibration the player made, if any
+  const neutralRef = useRef<ScreenTilt | null>(storedNeutral);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let reported: JoystickVector = { x: 0, y: 0, magnitude: 0 };
+
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      // Devices without a motion sensor fire the event with empty readings
+      if (e.beta === null || e.gamma === null) return;
+      const tilt = toScreenTilt({ beta: e.beta, gamma: e.gamma }, getScreenAngle());
+      latestRef.current = tilt;
+      if (!neutralRef.current) neutralRef.current = tilt;
+
+      const move = getTiltVector(tilt, neutralRef.current);
+      if (
+        Math.abs(move.x - reported.x) > MOVE_EPSILON ||
+        Math.abs(move.y - reported.y) > MOVE_EPSILON ||
+        (move.magnitude === 0) !== (reported.magnitude === 0)
+      ) {
+        reported = move;
+        setSourceMove(manager, 'tilt', move);
+      }
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('deviceorientation', handleOrientation);
+      releaseSource(manager, 'tilt');
+    };
+  }, [manager, enabled]);
+
+  const calibrate = useCallback(() => {
+    if (!latestRef.current) return;
+    neutralRef.current = latestRef.current;
+    storedRef.current = latestRef.current;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(latestRef.current));
+    } catch (error) {
+      console.warn('Failed to save tilt calibration to localStorage:', error);
+    }
+  }, []);
+
+  const autoCalibrate = useCallback(() => {
+    if (!storedRef.current) neutralRef.current = latestRef.current;
+  }, []);
+
+  return { calibrate, autoCalibrate };
+}
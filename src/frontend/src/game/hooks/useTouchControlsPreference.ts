@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+
+// 'auto' hides the joystick and shoot button while a keyboard or controller is in use; 'always' keeps them up
+export type TouchControlsMode = 'auto' | 'always';
+
+const STORAGE_KEY = 'jetfighter-touch-controls';
+const DEFAULT_TOUCH_CONTROLS: TouchControlsMode = 'auto';
+
+function isTouchControlsMode(value: string | null): value is TouchControlsMode {
+  return value === 'auto' || value === 'always';
+}
+
+/**
+ * Hook to manage when the on-screen controls show, with localStorage persistence.
+ * Unknown stored values fall back to hiding them while a keyboard or controller is in use.
+ */
+export function useTouchControlsPreference() {
+  const [touchControls, setTouchControls] = useState<TouchControlsMode>(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isTouchControlsMode(stored)) {
+        return stored;
+      }
+    } catch (error) {
+      console.warn('Failed to read touch controls mode from localStorage:', error);
+    }
+    return DEFAULT_TOUCH_CONTROLS;
+  });
+
+  // Persist to localStorage whenever the mode changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, touchControls);
+    } catch (error) {
+      console.warn('Failed to save touch controls mode to localStorage:', error);
+    }
+  }, [touchControls]);
+
+  return { touchControls, setTouchControls };
+}
@@ -0,0 +1,181 @@
+/**
+ * Rebindable keyboard keys and controller buttons.
+ * Keys are stored as KeyboardEvent.code so bindings stay in place on any keyboard layout;
+ * buttons are indices of the standard gamepad mapping.
+ */
+
+export type ControlAction = 'up' | 'down' | 'left' | 'right' | 'fire' | 'special' | 'pause' | 'confirm';
+
+export type BindingDevice = 'keys' | 'buttons';
+
+export interface ControlBindings {
+  keys: Record<ControlAction, string[]>;
+  buttons: Record<ControlAction, number[]>;
+}
+
+export const CONTROL_ACTIONS: ControlAction[] = ['up', 'down', 'left', 'right', 'fire', 'special', 'pause', 'confirm'];
+
+export const CONTROL_ACTION_LABELS: Record<ControlAction, string> = {
+  up: 'Move up',
+  down: 'Move down',
+  left: 'Move left',
+  right: 'Move right',
+  fire: 'Fire',
+  special: 'Switch weapon',
+  pause: 'Pause',
+  confirm: 'Start / continue',
+};
+
+export const MAX_BINDINGS_PER_ACTION = 3;
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+  keys: {
+    up: ['KeyW', 'ArrowUp'],
+    down: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    fire: ['Space', 'KeyJ'],
+    special: ['KeyK'],
+    pause: ['KeyP', 'Escape'],
+    confirm: ['Enter', 'NumpadEnter'],
+  },
+  buttons: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    fire: [0, 6, 7], // A and both triggers
+    special: [1], // B
+    pause: [9], // Start
+    confirm: [0, 9], // A, and Start from the menus
+  },
+};
+
+// Start / continue only matters on the menus, so it may share an input with an in-game action
+function sharesInputs(a: ControlAction, b: ControlAction): boolean {
+  return a !== b && (a === 'confirm') === (b === 'confirm');
+}
+
+/**
+ * Bind an input to an action, replacing the binding in the given slot (or adding one past the end).
+ * The input is taken off any other action it would clash with, so one press never means two things in play.
+ */
+export function rebind<D extends BindingDevice>(
+  bindings: ControlBindings,
+  device: D,
+  action: ControlAction,
+  slot: number,
+  input: ControlBindings[D][ControlAction][number]
+): ControlBindings {
+  const current = bindings[device] as Record<ControlAction, (string | number)[]>;
+  const updated = {} as Record<ControlAction, (string | number)[]>;
+  for (const other of CONTROL_ACTIONS) {
+    updated[other] = sharesInputs(action, other) ? current[other].filter((bound) => bound !== input) : current[other];
+  }
+
+  const inputs = [...current[action]];
+  inputs[Math.min(slot, inputs.length)] = input;
+  updated[action] = inputs.filter((bound, index) => inputs.indexOf(bound) === index).slice(0, MAX_BINDINGS_PER_ACTION);
+  return { ...bindings, [device]: updated };
+}
+
+/**
+ * Remove the binding in the given slot of an action.
+ */
+export function unbind(bindings: ControlBindings, device: BindingDevice, action: ControlAction, slot: number): ControlBindings {
+  const current = bindings[device] as Record<ControlAction, (string | number)[]>;
+  return { ...bindings, [device]: { ...current, [action]: current[action].filter((_, index) => index !== slot) } };
+}
+
+/**
+ * Actions bound to a key or button; usually one, but the menu action can share.
+ */
+export function getBoundActions<D extends BindingDevice>(
+  bindings: ControlBindings[D],
+  input: ControlBindings[D][ControlAction][number]
+): ControlAction[] {
+  const lists = bindings as Record<ControlAction, (string | number)[]>;
+  return CONTROL_ACTIONS.filter((action) => lists[action].includes(input));
+}
+
+function isInputList(value: unknown, isInput: (input: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.length <= MAX_BINDINGS_PER_ACTION && value.every(isInput);
+}
+
+function isKeyCode(input: unknown): boolean {
+  return typeof input === 'string' && input.length > 0;
+}
+
+function isButtonIndex(input: unknown): boolean {
+  return typeof input === 'number' && Number.isInteger(input) && input >= 0;
+}
+
+/**
+ * Read stored bindings, keeping the defaults for any action whose stored value is missing or malformed.
+ */
+export function parseBindings(value: unknown): ControlBindings {
+  const stored = typeof value === 'object' && value !== null ? (value as Partial<Record<BindingDevice, unknown>>) : {};
+  const storedKeys = (typeof stored.keys === 'object' && stored.keys !== null ? stored.keys : {}) as Record<string, unknown>;
+  const storedButtons = (typeof stored.buttons === 'object' && stored.buttons !== null ? stored.buttons : {}) as Record<string, unknown>;
+
+  const bindings: ControlBindings = { keys: { ...DEFAULT_BINDINGS.keys }, buttons: { ...DEFAULT_BINDINGS.buttons } };
+  for (const action of CONTROL_ACTIONS) {
+    if (isInputList(storedKeys[action], isKeyCode)) bindings.keys[action] = storedKeys[action] as string[];
+    if (isInputList(storedButtons[action], isButtonIndex)) bindings.buttons[action] = storedButtons[action] as number[];
+  }
+  return bindings;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Escape: 'ESC',
+  Enter: 'ENTER',
+  NumpadEnter: 'NUM ENTER',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+};
+
+const BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START', 'L3', 'R3', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT'];
+
+export function describeKey(code: string): string {
+  if (code in KEY_NAMES) return KEY_NAMES[code];
+  return code.replace(/^Key|^Digit/, '').replace(/^Numpad/, 'NUM ').toUpperCase();
+}
+
+export function describeButton(index: number): string {
+  return BUTTON_NAMES[index] ?? `BUTTON ${index}`;
+}
+
+/**
+ * Short list of an action's bindings for hints, such as "SPACE/J".
+ */
+export function describeBindings(bindings: ControlBindings, device: BindingDevice, action: ControlAction): string {
+  const names = device === 'keys'
+    ? bindings.keys[action].map(describeKey)
+    : bindings.buttons[action].map(describeButton);
+  return names.length > 0 ? names.join('/') : '—';
+}
+
+/**
+ * One-line summary of the bindings for the start screen, such as "WASD move · SPACE/J fire · …".
+ */
+export function describeControls(bindings: ControlBindings, device: BindingDevice): string {
+  const directions: ControlAction[] = ['up', 'left', 'down', 'right'];
+  const firstKeys = directions.map((action) => (bindings.keys[action].length > 0 ? describeKey(bindings.keys[action][0]) : '—'));
+  const move = device === 'keys'
+    ? firstKeys.join(firstKeys.every((name) => name.length === 1) ? '' : '/')
+    : 'STICK';
+  return [
+    `${move} move`,
+    `${describeBindings(bindings, device, 'fire')} fire`,
+    `${describeBindings(bindings, device, 'special')} weapon`,
+    `${describeBindings(bindings, device, 'pause')} pause`,
+    `${describeBindings(bindings, device, 'confirm')} start`,
+  ].join(' · ');
+}
@@ -0,0 +1,137 @@
+/**
+ * Input manager merging every control source into one frame of inputs per simulation step.
+ * Sources (the on-screen controls, the keyboard, a controller, tilt steering) report what they hold
+ * as it changes; the game loop reads a merged frame before each step. Sticks follow the source that
+ * moved last, the trigger is held while any source holds it, and button presses wait for the next frame.
+ */
+
+import { quantizeJoystickVector } from '../simulation/replay';
+import type { JoystickVector } from '../simulation/types';
+
+export type InputSourceId = 'touch' | 'keyboard' | 'gamepad' | 'tilt';
+
+// Presses handled once rather than held: pause and special reach the game loop, confirm only the menus
+export type InputAction = 'pause' | 'special' | 'confirm';
+
+export interface InputFrame {
+  move: JoystickVector;
+  aim: JoystickVector;
+  fire: boolean;
+  pause: boolean; // Pressed since the previous frame
+  special: boolean; // Pressed since the previous frame
+}
+
+interface InputSourceState {
+  move: JoystickVector;
+  aim: JoystickVector;
+  fire: boolean;
+  moveOrder: number; // When the stick last changed, so the most recent source steers
+  aimOrder: number;
+  aimReleased: boolean; // Aim goes back to neutral once the next frame has been read
+}
+
+export interface InputManager {
+  sources: Record<InputSourceId, InputSourceState>;
+  changes: number; // Counter stamping stick changes
+  pressed: { pause: boolean; special: boolean };
+  onAction: ((action: InputAction) => void) | null; // Told of every press right away, for the menus
+}
+
+const INPUT_SOURCES: InputSourceId[] = ['touch', 'keyboard', 'gamepad', 'tilt'];
+
+const NEUTRAL: JoystickVector = { x: 0, y: 0, magnitude: 0 };
+
+function createSourceState(): InputSourceState {
+  return { move: NEUTRAL, aim: NEUTRAL, fire: false, moveOrder: 0, aimOrder: 0, aimReleased: false };
+}
+
+export function createInputManager(): InputManager {
+  return {
+    sources: {
+      touch: createSourceState(),
+      keyboard: createSourceState(),
+      gamepad: createSourceState(),
+      tilt: createSourceState(),
+    },
+    changes: 0,
+    pressed: { pause: false, special: false },
+    onAction: null,
+  };
+}
+
+export function setSourceMove(manager: InputManager, source: InputSourceId, move: JoystickVector): void {
+  const state = manager.sources[source];
+  state.move = move;
+  state.moveOrder = ++manager.changes;
+}
+
+export function setSourceAim(manager: InputManager, source: InputSourceId, aim: JoystickVector): void {
+  const state = manager.sources[source];
+  state.aim = aim;
+  state.aimOrder = ++manager.changes;
+  state.aimReleased = false;
+}
+
+/**
+ * Let go of a source's aim stick. The aim holds for one more frame, so a charged shot released
+ * with the stick still goes where it was pointed, and then fire from any source follows the nose again.
+ */
+export function releaseAim(manager: InputManager, source: InputSourceId): void {
+  manager.sources[source].aimReleased = true;
+}
+
+export function setSourceFire(manager: InputManager, source: InputSourceId, fire: boolean): void {
+  manager.sources[source].fire = fire;
+}
+
+export function pressAction(manager: InputManager, action: InputAction): void {
+  if (action !== 'confirm') manager.pressed[action] = true;
+  manager.onAction?.(action);
+}
+
+/**
+ * Let go of everything a source holds, such as when its device goes away.
+ */
+export function releaseSource(manager: InputManager, source: InputSourceId): void {
+  manager.sources[source] = createSourceState();
+}
+
+/**
+ * Forget presses the game loop has not picked up, so a pause pressed on a menu is not replayed once play starts.
+ */
+export function clearPresses(manager: InputManager): void {
+  manager.pressed = { pause: false, special: false };
+}
+
+// Deflected stick of the source that moved it most recently
+function pickStick(manager: InputManager, stick: 'move' | 'aim'): JoystickVector {
+  const order = stick === 'move' ? 'moveOrder' : 'aimOrder';
+  let picked: InputSourceState | null = null;
+  for (const source of INPUT_SOURCES) {
+    const state = manager.sources[source];
+    if (state[stick].magnitude > 0 && (!picked || state[order] > picked[order])) picked = state;
+  }
+  return picked ? picked[stick] : NEUTRAL;
+}
+
+/**
+ * Merge the sources into the inputs for the next step and consume the presses.
+ * Sticks are rounded to replay precision, so live play and its recording see the same values.
+ */
+export function readInputFrame(manager: InputManager): InputFrame {
+  const frame: InputFrame = {
+    move: quantizeJoystickVector(pickStick(manager, 'move')),
+    aim: quantizeJoystickVector(pickStick(manager, 'aim')),
+    fire: INPUT_SOURCES.some((source) => manager.sources[source].fire),
+    ...manager.pressed,
+  };
+  clearPresses(manager);
+  for (const source of INPUT_SOURCES) {
+    const state = manager.sources[source];
+    if (state.aimReleased) {
+      state.aim = NEUTRAL;
+      state.aimReleased = false;
+    }
+  }
+  return frame;
+}
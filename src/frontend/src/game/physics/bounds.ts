@@ -38,20 +38,20 @@ export function reflectAtBounds(
   let newPos = { ...pos };
   let newVel = { ...vel };
 
-  // Reflect on X bounds
-  if (newPos.x < minPercent) {
+  // Reflect on X bounds (touching counts, so an entity already clamped to the edge still bounces)
+  if (newPos.x <= minPercent) {
     newPos.x = minPercent;
     newVel.x = Math.abs(newVel.x); // Bounce right
-  } else if (newPos.x > maxPercentX) {
+  } else if (newPos.x >= maxPercentX) {
     newPos.x = maxPercentX;
     newVel.x = -Math.abs(newVel.x); // Bounce left
   }
 
   // Reflect on Y bounds
-  if (newPos.y < minPercent) {
+  if (newPos.y <= minPercent) {
     newPos.y = minPercent;
     newVel.y = Math.abs(newVel.y); // Bounce down
-  } else if (newPos.y > maxPercentY) {
+  } else if (newPos.y >= maxPercentY) {
     newPos.y = maxPercentY;
     newVel.y = -Math.abs(newVel.y); // Bounce up
   }
@@ -94,3 +94,29 @@ export function isAtBorder(
     pos.y >= maxPercentY
   );
 }
+
+/**
+ * Toroidal wrap-around. An entity that has fully left the playfield through one side while
+ * still moving outward re-enters from the opposite side.
+ * @returns Offset in percent to add to the position (zero when nothing wraps), so callers can
+ *          shift related positions such as the previous position by the same amount
+ */
+export function getWrapOffset(
+  pos: Position,
+  vel: Velocity,
+  maxWidth: number,
+  maxHeight: number,
+  entityHalfSize: number
+): Position {
+  const marginX = (entityHalfSize / maxWidth) * 100;
+  const marginY = (entityHalfSize / maxHeight) * 100;
+  const offset = { x: 0, y: 0 };
+
+  if (pos.x < -marginX && vel.x < 0) offset.x = 100 + 2 * marginX;
+  else if (pos.x > 100 + marginX && vel.x > 0) offset.x = -(100 + 2 * marginX);
+
+  if (pos.y < -marginY && vel.y < 0) offset.y = 100 + 2 * marginY;
+  else if (pos.y > 100 + marginY && vel.y > 0) offset.y = -(100 + 2 * marginY);
+
+  return offset;
+}
@@ -0,0 +1,104 @@
+/**
+ * Shape definitions shared by the renderers and polygon-mode physics.
+ * Points are in the 100×100 viewBox the entity art is drawn in, centered on (50, 50). Every
+ * collision part is convex so it can be tested with SAT; the jet is split into several parts
+ * because its swept-wing outline is not.
+ */
+
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+export interface HitShape {
+  parts: ShapePoint[][]; // Convex polygons in viewBox units
+  boundingRadius: number; // Distance from the viewBox center to the farthest point
+}
+
+export const SHAPE_VIEWBOX_CENTER = 50;
+
+function points(...coords: number[]): ShapePoint[] {
+  const result: ShapePoint[] = [];
+  for (let i = 0; i < coords.length; i += 2) {
+    result.push({ x: coords[i], y: coords[i + 1] });
+  }
+  return result;
+}
+
+// Flat-top hexagon body of every obstacle (and the boss)
+export const OBSTACLE_HEXAGON = points(50, 10, 85, 30, 85, 70, 50, 90, 15, 70, 15, 30);
+
+export const JET_NOSE = points(50, 22, 44, 30, 56, 30);
+export const JET_LEFT_WING = points(38, 55, 20, 65, 25, 68, 40, 60);
+export const JET_RIGHT_WING = points(62, 55, 80, 65, 75, 68, 60, 60);
+export const JET_LEFT_STABILIZER = points(42, 72, 35, 80, 38, 82, 44, 75);
+export const JET_RIGHT_STABILIZER = points(58, 72, 65, 80, 62, 82, 56, 75);
+export const JET_TAIL = points(50, 75, 46, 85, 54, 85);
+
+// The fuselage is drawn as an ellipse (rx 12, ry 28); physics uses this inscribed 16-gon
+const FUSELAGE_SEGMENTS = 16;
+const JET_FUSELAGE: ShapePoint[] = Array.from({ length: FUSELAGE_SEGMENTS }, (_, i) => {
+  const angle = (i / FUSELAGE_SEGMENTS) * Math.PI * 2;
+  return { x: 50 + Math.cos(angle) * 12, y: 50 + Math.sin(angle) * 28 };
+});
+
+function createHitShape(parts: ShapePoint[][]): HitShape {
+  let boundingRadius = 0;
+  for (const part of parts) {
+    for (const point of part) {
+      boundingRadius = Math.max(
+        boundingRadius,
+        Math.hypot(point.x - SHAPE_VIEWBOX_CENTER, point.y - SHAPE_VIEWBOX_CENTER)
+      );
+    }
+  }
+  return { parts, boundingRadius };
+}
+
+export const OBSTACLE_HIT_SHAPE = createHitShape([OBSTACLE_HEXAGON]);
+
+export const JET_HIT_SHAPE = createHitShape([
+  JET_FUSELAGE,
+  JET_LEFT_WING,
+  JET_RIGHT_WING,
+  JET_LEFT_STABILIZER,
+  JET_RIGHT_STABILIZER,
+  JET_TAIL,
+]);
+
+/**
+ * Place a shape in the playfield. The shape is scaled so its bounding radius equals the
+ * entity's circle collision radius, which keeps polygon mode inside the circle broadphase.
+ * @param center - Entity center in pixels
+ * @param radius - Entity circle collision radius in pixels
+ * @param rotationDegrees - Clockwise rotation, 0 = art as drawn (facing up)
+ * @returns One pixel-space polygon per shape part
+ */
+export function placeHitShape(shape: HitShape, center: ShapePoint, radius: number, rotationDegrees = 0): ShapePoint[][] {
+  const scale = radius / shape.boundingRadius;
+  const angle = (rotationDegrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return shape.parts.map((part) =>
+    part.map((point) => {
+      const x = (point.x - SHAPE_VIEWBOX_CENTER) * scale;
+      const y = (point.y - SHAPE_VIEWBOX_CENTER) * scale;
+      return { x: center.x + x * cos - y * sin, y: center.y + x * sin + y * cos };
+    })
+  );
+}
+
+/**
+ * SVG path data ("M x y L x y ... Z") for a polygon.
+ */
+export function toSvgPath(polygon: ShapePoint[]): string {
+  return `${polygon.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ')} Z`;
+}
+
+/**
+ * SVG polygon points attribute ("x,y x,y ...") for a polygon.
+ */
+export function toSvgPoints(polygon: ShapePoint[]): string {
+  return polygon.map((point) => `${point.x},${point.y}`).join(' ');
+}
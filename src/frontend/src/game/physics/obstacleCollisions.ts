@@ -1,6 +1,8 @@
 /**
  * Obstacle-to-obstacle collision physics helper.
- * Implements elastic collision response with position separation to prevent overlap/jitter.
+ * Implements mass-aware collision response with position separation to prevent overlap/jitter.
+ * Impulse and separation are split by inverse mass, so heavy obstacles shrug off light ones and
+ * immovable bodies (inverse mass 0) are never pushed at all.
  * Hardened with bounded solver passes, velocity clamping, and NaN/Infinity guards.
  */
 
@@ -14,7 +16,14 @@ interface Velocity {
   y: number;
 }
 
-interface CollisionResult {
+export interface CollisionBody {
+  position: Position; // Percent of the playfield
+  velocity: Velocity; // Pixels per second
+  inverseMass: number; // 1 / mass, or 0 for an immovable body
+  restitution: number; // Bounciness, 0 (stick) to 1 (perfectly elastic)
+}
+
+export interface CollisionResult {
   collided: boolean;
   newVelocity1?: Velocity;
   newVelocity2?: Velocity;
@@ -23,37 +32,32 @@ interface CollisionResult {
 }
 
 const EPSILON = 0.001; // Small value to prevent division by zero
-const DAMPING = 0.95; // Slight damping to prevent velocity explosions
-const MAX_IMPULSE = 500; // Maximum impulse to prevent unrealistic speeds
+const MAX_IMPULSE = 500; // Maximum velocity change per body per contact, to prevent unrealistic speeds
 const MAX_VELOCITY = 500; // Maximum velocity component
 
 /**
  * Resolve collision between two circular obstacles.
- * @param pos1 - Position of first obstacle (percent)
- * @param vel1 - Velocity of first obstacle (pixels/sec)
+ * @param body1 - First obstacle
  * @param radius1 - Collision radius of first obstacle (pixels)
- * @param pos2 - Position of second obstacle (percent)
- * @param vel2 - Velocity of second obstacle (pixels/sec)
+ * @param body2 - Second obstacle
  * @param radius2 - Collision radius of second obstacle (pixels)
  * @param playfieldWidth - Playfield width in pixels
  * @param playfieldHeight - Playfield height in pixels
  * @returns Collision result with updated velocities and separated positions
  */
 export function resolveObstacleCollision(
-  pos1: Position,
-  vel1: Velocity,
+  body1: CollisionBody,
   radius1: number,
-  pos2: Position,
-  vel2: Velocity,
+  body2: CollisionBody,
   radius2: number,
   playfieldWidth: number,
   playfieldHeight: number
 ): CollisionResult {
   // Convert positions from percent to pixels
-  const x1 = (pos1.x / 100) * playfieldWidth;
-  const y1 = (pos1.y / 100) * playfieldHeight;
-  const x2 = (pos2.x / 100) * playfieldWidth;
-  const y2 = (pos2.y / 100) * playfieldHeight;
+  const x1 = (body1.position.x / 100) * playfieldWidth;
+  const y1 = (body1.position.y / 100) * playfieldHeight;
+  const x2 = (body2.position.x / 100) * playfieldWidth;
+  const y2 = (body2.position.y / 100) * playfieldHeight;
 
   // Calculate distance between centers
   const dx = x2 - x1;
@@ -79,44 +83,82 @@ export function resolveObstacleCollision(
     ny = dy / distance;
   }
 
-  // Always separate overlapping obstacles regardless of relative velocity
-  const overlap = minDistance - distance;
-  const separationX = (overlap / 2 + EPSILON) * nx;
-  const separationY = (overlap / 2 + EPSILON) * ny;
+  return resolveObstacleContact(body1, body2, { x: nx, y: ny }, minDistance - distance, playfieldWidth, playfieldHeight);
+}
 
-  const newX1 = x1 - separationX;
-  const newY1 = y1 - separationY;
-  const newX2 = x2 + separationX;
-  const newY2 = y2 + separationY;
+/**
+ * Resolve a known contact between two obstacles of any shape.
+ * @param body1 - First obstacle
+ * @param body2 - Second obstacle
+ * @param normal - Unit contact normal pointing from the first obstacle to the second
+ * @param overlap - Penetration depth along the normal (pixels)
+ * @param playfieldWidth - Playfield width in pixels
+ * @param playfieldHeight - Playfield height in pixels
+ * @returns Collision result with updated velocities and separated positions
+ */
+export function resolveObstacleContact(
+  body1: CollisionBody,
+  body2: CollisionBody,
+  normal: { x: number; y: number },
+  overlap: number,
+  playfieldWidth: number,
+  playfieldHeight: number
+): CollisionResult {
+  // Two immovable bodies can pass through each other; nothing can give way
+  const totalInverseMass = body1.inverseMass + body2.inverseMass;
+  if (totalInverseMass <= 0) {
+    return { collided: false };
+  }
+
+  const x1 = (body1.position.x / 100) * playfieldWidth;
+  const y1 = (body1.position.y / 100) * playfieldHeight;
+  const x2 = (body2.position.x / 100) * playfieldWidth;
+  const y2 = (body2.position.y / 100) * playfieldHeight;
+  const nx = normal.x;
+  const ny = normal.y;
+
+  // Always separate overlapping obstacles regardless of relative velocity.
+  // Each body moves by its share of the total inverse mass, so the lighter one gives way more.
+  const separation = overlap + 2 * EPSILON;
+  const share1 = body1.inverseMass / totalInverseMass;
+  const share2 = body2.inverseMass / totalInverseMass;
+
+  const newX1 = x1 - separation * share1 * nx;
+  const newY1 = y1 - separation * share1 * ny;
+  const newX2 = x2 + separation * share2 * nx;
+  const newY2 = y2 + separation * share2 * ny;
 
   // Calculate relative velocity
+  const vel1 = body1.velocity;
+  const vel2 = body2.velocity;
   const dvx = vel2.x - vel1.x;
   const dvy = vel2.y - vel1.y;
 
   // Calculate relative velocity along collision normal
   const dvn = dvx * nx + dvy * ny;
 
-  // Apply elastic collision impulse only if objects are moving toward each other
+  // Apply collision impulse only if objects are moving toward each other
   let newVel1: Velocity;
   let newVel2: Velocity;
 
   if (dvn < 0) {
-    // Objects moving toward each other - apply elastic impulse with damping
-    let impulse = dvn * DAMPING;
-    
-    // Clamp impulse to prevent velocity explosions
-    if (Math.abs(impulse) > MAX_IMPULSE) {
-      impulse = Math.sign(impulse) * MAX_IMPULSE;
-    }
+    // The pair bounces with the average of the two restitutions
+    const restitution = (body1.restitution + body2.restitution) / 2;
+    const impulse = (-(1 + restitution) * dvn) / totalInverseMass;
+
+    // Clamp each body's velocity change to prevent velocity explosions
+    const clampChange = (change: number) => Math.min(MAX_IMPULSE, change);
+    const change1 = clampChange(impulse * body1.inverseMass);
+    const change2 = clampChange(impulse * body2.inverseMass);
 
     newVel1 = {
-      x: vel1.x + impulse * nx,
-      y: vel1.y + impulse * ny,
+      x: vel1.x - change1 * nx,
+      y: vel1.y - change1 * ny,
     };
 
     newVel2 = {
-      x: vel2.x - impulse * nx,
-      y: vel2.y - impulse * ny,
+      x: vel2.x + change2 * nx,
+      y: vel2.y + change2 * ny,
     };
   } else {
     // Objects moving apart or parallel - just separate, keep velocities
@@ -1,8 +1,13 @@
+import { shapePenetration } from './polygonCollision';
+
 interface Position {
   x: number;
   y: number;
 }
 
+// Full hit threshold: overlap must be at least this fraction of the smaller radius
+export const FULL_HIT_OVERLAP_RATIO = 0.4;
+
 /**
  * Determines if a player-obstacle collision qualifies as a "full hit" that should trigger game over.
  * Uses overlap depth threshold to distinguish between grazing contacts and significant impacts.
@@ -47,9 +52,32 @@ export function isFullHit(
   // Use the smaller radius as reference for threshold calculation
   const referenceRadius = Math.min(playerRadius, obstacleRadius);
   
-  // Full hit threshold: overlap must be at least 40% of the smaller radius
   // This ensures grazing contacts don't trigger game over while clear impacts do
-  const fullHitThreshold = referenceRadius * 0.4;
+  const fullHitThreshold = referenceRadius * FULL_HIT_OVERLAP_RATIO;
   
   return overlapDepth >= fullHitThreshold;
 }
+
+/**
+ * Polygon-mode variant of isFullHit. Uses the deepest SAT penetration between any jet part
+ * and the obstacle outline, against the same threshold as the circle test, so contacts that
+ * only clip a thin wingtip or a hexagon corner stay grazes.
+ *
+ * @param playerParts - Jet hitbox parts in pixels
+ * @param playerRadius - Player collision radius in pixels (threshold reference)
+ * @param obstacleParts - Obstacle hitbox parts in pixels
+ * @param obstacleRadius - Obstacle collision radius in pixels (threshold reference)
+ * @returns true if the collision is a "full hit" that should trigger game over
+ */
+export function isFullHitPolygon(
+  playerParts: Position[][],
+  playerRadius: number,
+  obstacleParts: Position[][],
+  obstacleRadius: number
+): boolean {
+  const penetration = shapePenetration(playerParts, obstacleParts);
+  if (!penetration) {
+    return false;
+  }
+  return penetration.depth >= Math.min(playerRadius, obstacleRadius) * FULL_HIT_OVERLAP_RATIO;
+}
@@ -0,0 +1,90 @@
+/**
+ * Convex polygon collision using the separating axis theorem (SAT).
+ * Polygons are arrays of pixel-space points in either winding order. Shapes made of several
+ * convex parts are handled by testing every part pair and keeping the deepest contact.
+ */
+
+interface Vector {
+  x: number;
+  y: number;
+}
+
+export interface Penetration {
+  depth: number; // Minimum translation distance to separate the shapes (pixels)
+  normal: Vector; // Unit separation axis, pointing from the first shape toward the second
+}
+
+function centroid(polygon: Vector[]): Vector {
+  let x = 0;
+  let y = 0;
+  for (const point of polygon) {
+    x += point.x;
+    y += point.y;
+  }
+  return { x: x / polygon.length, y: y / polygon.length };
+}
+
+function project(polygon: Vector[], axis: Vector): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const point of polygon) {
+    const value = point.x * axis.x + point.y * axis.y;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { min, max };
+}
+
+/**
+ * Penetration of two convex polygons, or null if a separating axis exists.
+ */
+export function polygonPenetration(a: Vector[], b: Vector[]): Penetration | null {
+  let best: Penetration | null = null;
+
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const p1 = polygon[i];
+      const p2 = polygon[(i + 1) % polygon.length];
+      const edgeX = p2.x - p1.x;
+      const edgeY = p2.y - p1.y;
+      const length = Math.hypot(edgeX, edgeY);
+      if (length === 0) continue;
+
+      const axis = { x: -edgeY / length, y: edgeX / length };
+      const projectionA = project(a, axis);
+      const projectionB = project(b, axis);
+      const overlap = Math.min(projectionA.max, projectionB.max) - Math.max(projectionA.min, projectionB.min);
+      if (overlap <= 0) return null; // Separating axis found
+
+      if (!best || overlap < best.depth) {
+        best = { depth: overlap, normal: axis };
+      }
+    }
+  }
+
+  if (!best) return null;
+
+  // Orient the normal from a toward b
+  const centerA = centroid(a);
+  const centerB = centroid(b);
+  if ((centerB.x - centerA.x) * best.normal.x + (centerB.y - centerA.y) * best.normal.y < 0) {
+    best = { depth: best.depth, normal: { x: -best.normal.x, y: -best.normal.y } };
+  }
+  return best;
+}
+
+/**
+ * Deepest penetration between any part of one multi-part shape and any part of another.
+ */
+export function shapePenetration(partsA: Vector[][], partsB: Vector[][]): Penetration | null {
+  let deepest: Penetration | null = null;
+  for (const partA of partsA) {
+    for (const partB of partsB) {
+      const result = polygonPenetration(partA, partB);
+      if (result && (!deepest || result.depth > deepest.depth)) {
+        deepest = result;
+      }
+    }
+  }
+  return deepest;
+}
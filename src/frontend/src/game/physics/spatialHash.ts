@@ -0,0 +1,102 @@
+/**
+ * Uniform-grid spatial hash broadphase.
+ * Circles are inserted by index into every cell their bounding box touches, so any two
+ * overlapping circles are guaranteed to share at least one cell. Works in pixel space;
+ * callers convert from percent positions before inserting. Rebuilt from scratch whenever
+ * positions change, which is cheaper than updating it incrementally at these entity counts.
+ */
+
+export interface SpatialHash {
+  cellSize: number; // Pixels
+  cells: Map<number, number[]>; // Cell key -> indices of the circles touching that cell
+}
+
+// Cell coordinates are packed into one integer key; the offset keeps slightly negative
+// coordinates (entities overlapping the left/top edge) positive
+const CELL_OFFSET = 1 << 15;
+const CELL_STRIDE = 1 << 16;
+
+function cellKey(cellX: number, cellY: number): number {
+  return (cellX + CELL_OFFSET) * CELL_STRIDE + (cellY + CELL_OFFSET);
+}
+
+export function createSpatialHash(cellSize: number): SpatialHash {
+  if (!(cellSize > 0)) {
+    throw new Error(`Spatial hash cell size must be positive, got ${cellSize}`);
+  }
+  return { cellSize, cells: new Map() };
+}
+
+/**
+ * Add a circle to every cell its bounding box overlaps.
+ * @param index - Caller-defined id, typically the entity's index in its array
+ * @param x - Center x in pixels
+ * @param y - Center y in pixels
+ * @param radius - Radius in pixels
+ */
+export function insertCircle(hash: SpatialHash, index: number, x: number, y: number, radius: number): void {
+  const minX = Math.floor((x - radius) / hash.cellSize);
+  const maxX = Math.floor((x + radius) / hash.cellSize);
+  const minY = Math.floor((y - radius) / hash.cellSize);
+  const maxY = Math.floor((y + radius) / hash.cellSize);
+
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      const key = cellKey(cx, cy);
+      const cell = hash.cells.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        hash.cells.set(key, [index]);
+      }
+    }
+  }
+}
+
+/**
+ * Indices of all circles sharing a cell with the query circle, in ascending order.
+ * Candidates still need an exact overlap test.
+ */
+export function queryCircle(hash: SpatialHash, x: number, y: number, radius: number): number[] {
+  const minX = Math.floor((x - radius) / hash.cellSize);
+  const maxX = Math.floor((x + radius) / hash.cellSize);
+  const minY = Math.floor((y - radius) / hash.cellSize);
+  const maxY = Math.floor((y + radius) / hash.cellSize);
+
+  const found = new Set<number>();
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      const cell = hash.cells.get(cellKey(cx, cy));
+      if (!cell) continue;
+      for (const index of cell) found.add(index);
+    }
+  }
+
+  // Ascending order keeps resolution order identical to a brute-force scan
+  return Array.from(found).sort((a, b) => a - b);
+}
+
+/**
+ * Every unordered pair of circles that share at least one cell, as [i, j] with i < j,
+ * sorted the same way a nested brute-force loop would visit them.
+ */
+export function findCandidatePairs(hash: SpatialHash): [number, number][] {
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+
+  for (const cell of hash.cells.values()) {
+    for (let a = 0; a < cell.length; a++) {
+      for (let b = a + 1; b < cell.length; b++) {
+        const i = Math.min(cell[a], cell[b]);
+        const j = Math.max(cell[a], cell[b]);
+        // Circles spanning several cells would otherwise be paired once per shared cell
+        const pairKey = i * CELL_STRIDE + j;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+        pairs.push([i, j]);
+      }
+    }
+  }
+
+  return pairs.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+}
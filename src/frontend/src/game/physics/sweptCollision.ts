@@ -0,0 +1,144 @@
+/**
+ * Continuous (swept) collision helpers.
+ * A fast, small body is treated as a moving point against a target inflated by its radius, so
+ * it cannot tunnel through the target between two discrete positions. All values are in pixels.
+ */
+
+interface Vector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Earliest time of impact of a point moving along a segment against a circle.
+ * Solves |start + displacement * t - center| = radius for the smallest t in [0, 1].
+ * @param start - Point position at t = 0 (pixels)
+ * @param displacement - Movement over the step (pixels)
+ * @param center - Circle center (pixels)
+ * @param radius - Circle radius, already inflated by the moving body's radius (pixels)
+ * @returns Fraction of the step at first contact, 0 if already overlapping, or null if no contact
+ */
+export function segmentCircleTimeOfImpact(
+  start: Vector,
+  displacement: Vector,
+  center: Vector,
+  radius: number
+): number | null {
+  const fx = start.x - center.x;
+  const fy = start.y - center.y;
+  const c = fx * fx + fy * fy - radius * radius;
+
+  // Starting inside the circle counts as an immediate hit
+  if (c < 0) return 0;
+
+  const a = displacement.x * displacement.x + displacement.y * displacement.y;
+  if (a === 0) return null; // Not moving and not overlapping
+
+  const b = 2 * (fx * displacement.x + fy * displacement.y);
+  if (b >= 0) return null; // Moving away from (or tangent to) the circle
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null; // Line misses the circle
+
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return t <= 1 ? t : null;
+}
+
+// Outward unit normal of edge p1->p2 for a convex polygon with the given interior point
+function outwardNormal(p1: Vector, p2: Vector, interior: Vector): Vector | null {
+  const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  if (length === 0) return null;
+
+  const normal = { x: -(p2.y - p1.y) / length, y: (p2.x - p1.x) / length };
+  if ((p1.x - interior.x) * normal.x + (p1.y - interior.y) * normal.y < 0) {
+    return { x: -normal.x, y: -normal.y };
+  }
+  return normal;
+}
+
+function distanceToSegment(point: Vector, p1: Vector, p2: Vector): number {
+  const ex = p2.x - p1.x;
+  const ey = p2.y - p1.y;
+  const lengthSquared = ex * ex + ey * ey;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - p1.x) * ex + (point.y - p1.y) * ey) / lengthSquared))
+    : 0;
+  return Math.hypot(point.x - (p1.x + ex * t), point.y - (p1.y + ey * t));
+}
+
+/**
+ * Earliest time of impact of a small moving circle against a convex polygon.
+ * The polygon is inflated by the circle radius with rounded corners (edges pushed outward
+ * plus a circle at each vertex), so sharp corners do not reach further than they should.
+ * @param start - Circle center at t = 0 (pixels)
+ * @param displacement - Movement over the step relative to the polygon (pixels)
+ * @param polygon - Convex polygon in pixels, either winding
+ * @param radius - Radius of the moving circle (pixels)
+ * @returns Fraction of the step at first contact with the outward surface normal there,
+ *          t = 0 if already overlapping, or null if no contact
+ */
+export function sweptCirclePolygonTimeOfImpact(
+  start: Vector,
+  displacement: Vector,
+  polygon: Vector[],
+  radius: number
+): { time: number; normal: Vector } | null {
+  const interior = {
+    x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+    y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length,
+  };
+
+  // Already touching: inside the polygon or within one radius of an edge
+  let inside = true;
+  let nearest: { distance: number; normal: Vector } | null = null;
+  for (let i = 0; i < polygon.length; i++) {
+    const p1 = polygon[i];
+    const p2 = polygon[(i + 1) % polygon.length];
+    const normal = outwardNormal(p1, p2, interior);
+    if (!normal) continue;
+
+    if ((start.x - p1.x) * normal.x + (start.y - p1.y) * normal.y > 0) inside = false;
+    const distance = distanceToSegment(start, p1, p2);
+    if (!nearest || distance < nearest.distance) nearest = { distance, normal };
+  }
+  if (nearest && (inside || nearest.distance <= radius)) {
+    return { time: 0, normal: nearest.normal };
+  }
+
+  let best: { time: number; normal: Vector } | null = null;
+  const consider = (time: number, normal: Vector) => {
+    if (!best || time < best.time) best = { time, normal };
+  };
+
+  for (let i = 0; i < polygon.length; i++) {
+    const p1 = polygon[i];
+    const p2 = polygon[(i + 1) % polygon.length];
+    const normal = outwardNormal(p1, p2, interior);
+    if (!normal) continue;
+
+    // Flat part: crossing the edge pushed out by the radius, within the edge's extent
+    const distance = (start.x - p1.x) * normal.x + (start.y - p1.y) * normal.y - radius;
+    const rate = displacement.x * normal.x + displacement.y * normal.y;
+    if (rate < 0 && distance >= 0) {
+      const time = -distance / rate;
+      if (time <= 1) {
+        const hitX = start.x + displacement.x * time - p1.x;
+        const hitY = start.y + displacement.y * time - p1.y;
+        const along = hitX * (p2.x - p1.x) + hitY * (p2.y - p1.y);
+        const lengthSquared = (p2.x - p1.x) ** 2 + (p2.y - p1.y) ** 2;
+        if (along >= 0 && along <= lengthSquared) consider(time, normal);
+      }
+    }
+
+    // Rounded corner at this edge's first vertex
+    const cornerTime = segmentCircleTimeOfImpact(start, displacement, p1, radius);
+    if (cornerTime !== null) {
+      const x = start.x + displacement.x * cornerTime - p1.x;
+      const y = start.y + displacement.y * cornerTime - p1.y;
+      const length = Math.hypot(x, y) || 1;
+      consider(cornerTime, { x: x / length, y: y / length });
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,62 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { drawWorld, readCanvasPalette, type CanvasPalette } from './canvasDraw';
+import type { WorldRendererProps } from './types';
+
+/**
+ * Draws the whole world into a single canvas instead of one DOM subtree per entity.
+ * The parent re-renders once per animation frame, so drawing happens on every render.
+ */
+export default function CanvasWorldRenderer({ world, alpha }: WorldRendererProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0, pixelRatio: 1 });
+  const paletteRef = useRef<CanvasPalette | null>(null);
+  const latestPropsRef = useRef({ world, alpha });
+  latestPropsRef.current = { world, alpha };
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    if (!paletteRef.current) {
+      paletteRef.current = readCanvasPalette(canvas);
+    }
+    const { width, height, pixelRatio } = sizeRef.current;
+    drawWorld(ctx, latestPropsRef.current.world, latestPropsRef.current.alpha, {
+      width,
+      height,
+      pixelRatio,
+      screenWidth: window.innerWidth,
+      time: performance.now(),
+    }, paletteRef.current);
+  };
+
+  // Keep the backing store matched to the element size and device pixel ratio
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(rect.width * pixelRatio);
+      canvas.height = Math.round(rect.height * pixelRatio);
+      sizeRef.current = { width: rect.width, height: rect.height, pixelRatio };
+      // Theme may have changed along with the layout; resizing also clears the canvas, so redraw
+      paletteRef.current = readCanvasPalette(canvas);
+      draw();
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Redraw after every render, before the browser paints
+  useLayoutEffect(() => {
+    draw();
+  });
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+}
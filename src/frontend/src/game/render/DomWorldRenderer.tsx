@@ -0,0 +1,106 @@
+import PlayerJet from '../entities/PlayerJet';
+import Bullet from '../entities/Bullet';
+import Obstacle from '../entities/Obstacle';
+import EnemyShot from '../entities/EnemyShot';
+import Pickup from '../entities/Pickup';
+import SpawnTelegraph from '../entities/SpawnTelegraph';
+import Explosion from '../effects/Explosion';
+import SparkBurst from '../effects/SparkBurst';
+import ShieldBubble from '../effects/ShieldBubble';
+import { isPickupBlinkedOut, isPowerUpEnding } from './powerUpStyles';
+import { isJetBlinkedOut, isJetVisible } from './jetVisibility';
+import { getBossShieldView, isObstacleFlashing } from './enemyStyles';
+import { getTelegraphMarker } from './telegraphStyles';
+import { interpolatePosition } from '../simulation/fixedTimestep';
+import type { WorldRendererProps } from './types';
+
+/**
+ * Original renderer: one absolutely positioned DOM subtree per entity.
+ * Kept selectable alongside the canvas renderer for visual and performance comparison.
+ */
+export default function DomWorldRenderer({ world, alpha }: WorldRendererProps) {
+  const jetVisible = isJetVisible(world);
+  const jetPosition = interpolatePosition(world.player.previousPosition, world.player.position, alpha);
+  const shield = world.powerUps.find((powerUp) => powerUp.kind === 'shield');
+
+  return (
+    <>
+      {/* Warnings where enemies are about to enter */}
+      {world.incoming.map((incoming) => (
+        <SpawnTelegraph key={incoming.id} marker={getTelegraphMarker(incoming)} />
+      ))}
+
+      {/* Player jet */}
+      {jetVisible && (
+        <PlayerJet
+          position={jetPosition}
+          rotation={world.player.facingAngle}
+          isThrusting={world.player.isThrusting}
+          blinkedOut={isJetBlinkedOut(world.player)}
+        />
+      )}
+
+      {/* Shield around the jet */}
+      {jetVisible && shield && <ShieldBubble position={jetPosition} fading={isPowerUpEnding(shield)} />}
+
+      {/* Bullets */}
+      {world.bullets.map((bullet) => (
+        <Bullet
+          key={bullet.id}
+          position={interpolatePosition(bullet.previousPosition, bullet.position, alpha)}
+          rotation={bullet.angle}
+          weapon={bullet.weapon}
+          damage={bullet.damage}
+        />
+      ))}
+
+      {/* Obstacles */}
+      {world.obstacles.map((obstacle) => (
+        <Obstacle
+          key={obstacle.id}
+          position={interpolatePosition(obstacle.previousPosition, obstacle.position, alpha)}
+          size={obstacle.size}
+          kind={obstacle.kind}
+          isBoss={obstacle.isBoss}
+          flashing={isObstacleFlashing(world, obstacle)}
+          bossShield={obstacle.isBoss ? getBossShieldView(world) : null}
+        />
+      ))}
+
+      {/* Enemy shots */}
+      {world.enemyShots.map((shot) => (
+        <EnemyShot key={shot.id} position={interpolatePosition(shot.previousPosition, shot.position, alpha)} />
+      ))}
+
+      {/* Pickups */}
+      {world.pickups.map((pickup) => (
+        <Pickup
+          key={pickup.id}
+          position={interpolatePosition(pickup.previousPosition, pickup.position, alpha)}
+          kind={pickup.kind}
+          blinkedOut={isPickupBlinkedOut(pickup)}
+        />
+      ))}
+
+      {/* Explosions */}
+      {world.explosions.map((explosion) => (
+        <Explosion
+          key={explosion.id}
+          position={explosion.position}
+          variant={explosion.variant}
+        />
+      ))}
+
+      {/* Spark bursts */}
+      {world.sparkBursts.map((burst) => (
+        <SparkBurst
+          key={burst.id}
+          x={burst.x}
+          y={burst.y}
+          variant={burst.variant}
+          seed={burst.seed}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,931 @@
+/**
+ * Canvas 2D drawing for the game world.
+ * Mirrors the SVG/DOM entity art so both renderers look alike. All sizes are CSS pixels;
+ * the caller scales the context for the device pixel ratio.
+ */
+
+import { interpolatePosition } from '../simulation/fixedTimestep';
+import { createRng, randomRange } from '../simulation/rng';
+import {
+  OBSTACLE_HEXAGON,
+  JET_NOSE,
+  JET_LEFT_WING,
+  JET_RIGHT_WING,
+  JET_LEFT_STABILIZER,
+  JET_RIGHT_STABILIZER,
+  JET_TAIL,
+  toSvgPath,
+  type ShapePoint,
+} from '../physics/hitShapes';
+import {
+  POWER_UP_ICON_VIEWBOX,
+  POWER_UP_STYLES,
+  isPickupBlinkedOut,
+  isPowerUpEnding,
+} from './powerUpStyles';
+import { WEAPON_STYLES, getBulletDimensions } from './weaponStyles';
+import { ENEMY_SHOT_COLOR, getBossShieldView, getEnemyStyle, isObstacleFlashing, type BossShieldView } from './enemyStyles';
+import { isJetBlinkedOut, isJetVisible } from './jetVisibility';
+import { TELEGRAPH_MARKER_PATH, TELEGRAPH_MARKER_SIZE, TELEGRAPH_MARKER_VIEWBOX, getTelegraphMarker } from './telegraphStyles';
+import { ENEMY_SHOT_SIZE, JET_SIZE, PICKUP_SIZE } from '../simulation/constants';
+import type {
+  ActivePowerUp,
+  BulletData,
+  EnemyShotData,
+  ExplosionData,
+  GameWorld,
+  IncomingEnemyData,
+  ObstacleData,
+  PickupData,
+  PlayerData,
+  PowerUpKind,
+  SparkBurstData,
+} from '../simulation/types';
+
+export interface CanvasPalette {
+  primary: string;
+  accent: string;
+}
+
+export interface CanvasViewport {
+  width: number; // CSS pixels
+  height: number; // CSS pixels
+  pixelRatio: number;
+  screenWidth: number; // Window width, for the same breakpoints the DOM renderer uses
+  time: number; // Milliseconds, drives purely cosmetic animation (pulses, flicker)
+}
+
+// Tailwind breakpoints used by the DOM entities (sm, md)
+const BREAKPOINT_SM = 640;
+const BREAKPOINT_MD = 768;
+
+const OBSTACLE_SCALE = { small: 0.55, medium: 0.7, large: 0.9 } as const;
+const BOSS_SCALE = 1.3;
+
+// Same angles and distances as the DOM explosion embers
+const EMBER_POSITIONS = [
+  { angle: 0, distance: 40 },
+  { angle: 30, distance: 45 },
+  { angle: 60, distance: 38 },
+  { angle: 90, distance: 42 },
+  { angle: 120, distance: 46 },
+  { angle: 150, distance: 40 },
+  { angle: 180, distance: 44 },
+  { angle: 210, distance: 38 },
+  { angle: 240, distance: 42 },
+  { angle: 270, distance: 40 },
+  { angle: 300, distance: 45 },
+  { angle: 330, distance: 43 },
+];
+
+const OBSTACLE_SPARK_POSITIONS = [
+  { angle: 0, distance: 100 },
+  { angle: 60, distance: 95 },
+  { angle: 120, distance: 105 },
+  { angle: 180, distance: 100 },
+  { angle: 240, distance: 95 },
+  { angle: 300, distance: 105 },
+];
+
+const JET_STROKE = '#1a1a2e';
+
+function responsive(screenWidth: number, base: number, sm: number, md = sm): number {
+  if (screenWidth >= BREAKPOINT_MD) return md;
+  if (screenWidth >= BREAKPOINT_SM) return sm;
+  return base;
+}
+
+function toPixels(position: { x: number; y: number }, viewport: CanvasViewport): { x: number; y: number } {
+  return { x: (position.x / 100) * viewport.width, y: (position.y / 100) * viewport.height };
+}
+
+function degToRad(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Oscillate between min and max with the given period, like a CSS ease-in-out keyframe loop.
+ */
+function pulse(time: number, periodMs: number, min: number, max: number, phaseMs = 0): number {
+  const t = (((time + phaseMs) % periodMs) + periodMs) % periodMs / periodMs;
+  return min + (max - min) * (0.5 - 0.5 * Math.cos(t * Math.PI * 2));
+}
+
+function effectProgress(effect: { duration: number; remaining: number }): number {
+  if (effect.duration <= 0) return 1;
+  return Math.min(1, Math.max(0, 1 - effect.remaining / effect.duration));
+}
+
+function easeOut(t: number): number {
+  return 1 - (1 - t) * (1 - t);
+}
+
+/**
+ * Read the game theme colors from CSS variables so the canvas follows light/dark mode.
+ */
+export function readCanvasPalette(element: Element): CanvasPalette {
+  const style = getComputedStyle(element);
+  const read = (name: string, fallback: string) => {
+    const value = style.getPropertyValue(name).trim();
+    return `oklch(${value || fallback})`;
+  };
+  return {
+    primary: read('--game-primary', '0.58 0.20 35'),
+    accent: read('--game-accent', '0.68 0.18 45'),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Player jet
+// ---------------------------------------------------------------------------
+
+interface JetPaths {
+  nose: Path2D;
+  leftWing: Path2D;
+  rightWing: Path2D;
+  leftStabilizer: Path2D;
+  rightStabilizer: Path2D;
+  tail: Path2D;
+}
+
+let jetPaths: JetPaths | null = null;
+
+// Built lazily so importing this module never touches browser-only globals
+function getJetPaths(): JetPaths {
+  if (!jetPaths) {
+    jetPaths = {
+      nose: new Path2D(toSvgPath(JET_NOSE)),
+      leftWing: new Path2D(toSvgPath(JET_LEFT_WING)),
+      rightWing: new Path2D(toSvgPath(JET_RIGHT_WING)),
+      leftStabilizer: new Path2D(toSvgPath(JET_LEFT_STABILIZER)),
+      rightStabilizer: new Path2D(toSvgPath(JET_RIGHT_STABILIZER)),
+      tail: new Path2D(toSvgPath(JET_TAIL)),
+    };
+  }
+  return jetPaths;
+}
+
+function linearGradient(
+  ctx: CanvasRenderingContext2D,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  stops: [number, string][]
+): CanvasGradient {
+  const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+  for (const [offset, color] of stops) gradient.addColorStop(offset, color);
+  return gradient;
+}
+
+function fillAndStroke(ctx: CanvasRenderingContext2D, path: Path2D, fill: string | CanvasGradient, lineWidth: number): void {
+  ctx.fillStyle = fill;
+  ctx.fill(path);
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = JET_STROKE;
+  ctx.stroke(path);
+}
+
+function drawThruster(ctx: CanvasRenderingContext2D, palette: CanvasPalette, time: number): void {
+  // Flames hang below the engines (viewBox units); flicker is cosmetic only
+  const flicker = pulse(time, 120, 0.85, 1.1);
+
+  ctx.save();
+  ctx.globalAlpha = 0.7 * pulse(time, 2000, 0.5, 1);
+  const base = ctx.createRadialGradient(50, 65, 0, 50, 65, 30);
+  base.addColorStop(0, palette.primary);
+  base.addColorStop(1, 'transparent');
+  ctx.fillStyle = base;
+  ctx.fillRect(20, 35, 60, 60);
+  ctx.restore();
+
+  const layers = [
+    { width: 15, length: 30, top: 'rgba(251, 146, 60, 0.6)', mid: 'rgba(249, 115, 22, 0.6)' },
+    { width: 10, length: 22, top: 'rgba(253, 186, 116, 0.75)', mid: 'rgba(251, 146, 60, 0.75)' },
+    { width: 7, length: 15, top: 'rgba(254, 240, 138, 0.9)', mid: 'rgba(253, 186, 116, 0.9)' },
+  ];
+  for (const layer of layers) {
+    const length = layer.length * flicker;
+    const gradient = linearGradient(ctx, 0, 76, 0, 76 + length, [
+      [0, layer.top],
+      [0.5, layer.mid],
+      [1, 'rgba(249, 115, 22, 0)'],
+    ]);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.ellipse(50, 76 + length / 2, layer.width / 2, length / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function drawPlayer(
+  ctx: CanvasRenderingContext2D,
+  player: PlayerData,
+  alpha: number,
+  viewport: CanvasViewport,
+  palette: CanvasPalette
+): void {
+  const size = responsive(viewport.screenWidth, 48, 64, 80);
+  const center = toPixels(interpolatePosition(player.previousPosition, player.position, alpha), viewport);
+  const paths = getJetPaths();
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate(degToRad(player.facingAngle));
+  ctx.scale(size / 100, size / 100);
+  ctx.translate(-50, -50);
+
+  if (player.isThrusting) {
+    drawThruster(ctx, palette, viewport.time);
+  }
+
+  // Fuselage carries the glow (shadowBlur is in device pixels, unaffected by the transform)
+  ctx.save();
+  ctx.shadowColor = 'rgba(255, 120, 0, 0.6)';
+  ctx.shadowBlur = 16 * viewport.pixelRatio;
+  ctx.beginPath();
+  ctx.ellipse(50, 50, 12, 28, 0, 0, Math.PI * 2);
+  ctx.fillStyle = linearGradient(ctx, 38, 22, 62, 78, [
+    [0, '#e8e8f0'],
+    [0.5, '#c0c0d0'],
+    [1, '#a0a0b8'],
+  ]);
+  ctx.fill();
+  ctx.restore();
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = JET_STROKE;
+  ctx.beginPath();
+  ctx.ellipse(50, 50, 12, 28, 0, 0, Math.PI * 2);
+  ctx.stroke();
+
+  fillAndStroke(ctx, paths.nose, '#ff6b35', 1);
+
+  const cockpit = new Path2D();
+  cockpit.ellipse(50, 38, 6, 8, 0, 0, Math.PI * 2);
+  fillAndStroke(ctx, cockpit, linearGradient(ctx, 0, 30, 0, 46, [[0, '#4dd0e1'], [1, '#0097a7']]), 1);
+
+  const wing = linearGradient(ctx, 20, 55, 80, 68, [[0, '#d0d0e0'], [1, '#9090a8']]);
+  fillAndStroke(ctx, paths.leftWing, wing, 1.5);
+  fillAndStroke(ctx, paths.rightWing, wing, 1.5);
+
+  const stabilizer = linearGradient(ctx, 35, 72, 65, 82, [[0, '#c8c8d8'], [1, '#8888a0']]);
+  fillAndStroke(ctx, paths.leftStabilizer, stabilizer, 1);
+  fillAndStroke(ctx, paths.rightStabilizer, stabilizer, 1);
+
+  fillAndStroke(ctx, paths.tail, linearGradient(ctx, 0, 75, 0, 85, [[0, '#ff6b35'], [1, '#d84315']]), 1);
+
+  ctx.fillStyle = '#2a2a3e';
+  ctx.beginPath();
+  ctx.ellipse(45, 78, 2.5, 3, 0, 0, Math.PI * 2);
+  ctx.ellipse(55, 78, 2.5, 3, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Obstacles
+// ---------------------------------------------------------------------------
+
+// Static hexagon art is pre-rendered once per (size, kind, boss, pixel ratio) and blitted each frame
+const obstacleSprites = new Map<string, HTMLCanvasElement>();
+const enemyMarkPaths = new Map<string, Path2D>();
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: ShapePoint[]): void {
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y);
+  }
+  ctx.closePath();
+}
+
+const INNER_HEXAGON: ShapePoint[] = [
+  { x: 50, y: 20 },
+  { x: 75, y: 35 },
+  { x: 75, y: 65 },
+  { x: 50, y: 80 },
+  { x: 25, y: 65 },
+  { x: 25, y: 35 },
+];
+
+function getObstacleSprite(
+  pixelSize: number,
+  obstacle: Pick<ObstacleData, 'kind' | 'isBoss'>,
+  pixelRatio: number
+): HTMLCanvasElement {
+  const isBoss = obstacle.isBoss === true;
+  const key = `${pixelSize}-${obstacle.kind}-${isBoss}-${pixelRatio}`;
+  const cached = obstacleSprites.get(key);
+  if (cached) return cached;
+
+  const { hues, shadow, markPath } = getEnemyStyle(obstacle);
+  const hue = hues.body;
+  const stroke = `oklch(0.70 0.26 ${hues.stroke})`;
+  const inner = `oklch(0.60 0.24 ${hues.inner})`;
+  const stripe = `oklch(0.75 0.26 ${hues.stripe})`;
+
+  // Leave room around the hexagon for the drop-shadow glow
+  const glow = isBoss ? 30 : 20;
+  const cssSize = pixelSize + glow * 2;
+  const sprite = document.createElement('canvas');
+  sprite.width = Math.ceil(cssSize * pixelRatio);
+  sprite.height = Math.ceil(cssSize * pixelRatio);
+  const ctx = sprite.getContext('2d');
+  if (!ctx) return sprite;
+
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.translate(glow, glow);
+  ctx.scale(pixelSize / 100, pixelSize / 100);
+
+  // Hexagon body with glow
+  ctx.save();
+  ctx.shadowColor = shadow;
+  ctx.shadowBlur = glow * pixelRatio;
+  tracePolygon(ctx, OBSTACLE_HEXAGON);
+  ctx.fillStyle = linearGradient(ctx, 0, 0, 100, 100, [
+    [0, `oklch(0.55 0.24 ${hue[0]})`],
+    [0.5, `oklch(0.48 0.22 ${hue[1]})`],
+    [1, `oklch(0.42 0.20 ${hue[2]})`],
+  ]);
+  ctx.fill();
+  ctx.restore();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = stroke;
+  ctx.stroke();
+
+  // Inner frame
+  ctx.globalAlpha = 0.7;
+  tracePolygon(ctx, INNER_HEXAGON);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = inner;
+  ctx.stroke();
+
+  // Hazard stripes
+  ctx.globalAlpha = 0.8;
+  ctx.strokeStyle = stripe;
+  ctx.beginPath();
+  ctx.moveTo(30, 35);
+  ctx.lineTo(45, 50);
+  ctx.moveTo(55, 50);
+  ctx.lineTo(70, 65);
+  ctx.moveTo(30, 65);
+  ctx.lineTo(45, 50);
+  ctx.moveTo(55, 50);
+  ctx.lineTo(70, 35);
+  ctx.stroke();
+
+  // Warning rings
+  ctx.strokeStyle = stroke;
+  ctx.globalAlpha = 0.5;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(50, 50, 12, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.globalAlpha = 0.3;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(50, 50, 16, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Archetype mark
+  if (markPath) {
+    let mark = enemyMarkPaths.get(markPath);
+    if (!mark) {
+      mark = new Path2D(markPath);
+      enemyMarkPaths.set(markPath, mark);
+    }
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = `oklch(0.88 0.16 ${hues.stripe})`;
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke(mark);
+  }
+
+  obstacleSprites.set(key, sprite);
+  return sprite;
+}
+
+function drawObstacle(
+  ctx: CanvasRenderingContext2D,
+  obstacle: ObstacleData,
+  alpha: number,
+  viewport: CanvasViewport,
+  palette: CanvasPalette,
+  flashing: boolean,
+  bossShield: BossShieldView | null
+): void {
+  const isBoss = obstacle.isBoss === true;
+  const { hues } = getEnemyStyle(obstacle);
+  const scale = isBoss ? BOSS_SCALE : OBSTACLE_SCALE[obstacle.size];
+  const pixelSize = Math.round(responsive(viewport.screenWidth, 48, 56, 64) * scale);
+  const center = toPixels(interpolatePosition(obstacle.previousPosition, obstacle.position, alpha), viewport);
+  const { time } = viewport;
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+
+  // Boss aura
+  if (isBoss) {
+    const auraScale = pulse(time, 1500, 1, 1.15);
+    ctx.globalAlpha = pulse(time, 1500, 0.4, 0.8);
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.2)';
+    ctx.beginPath();
+    ctx.arc(0, 0, (pixelSize / 2) * auraScale, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Outer glow
+  const unit = pixelSize / 100;
+  ctx.globalAlpha = pulse(time, 2000, 0.5, 1);
+  const glow = ctx.createRadialGradient(0, 0, 0, 0, 0, 45 * unit);
+  glow.addColorStop(0, `oklch(0.65 0.25 ${hues.glow[0]} / 0.6)`);
+  glow.addColorStop(1, `oklch(0.55 0.22 ${hues.glow[1]} / 0)`);
+  ctx.fillStyle = glow;
+  ctx.beginPath();
+  ctx.arc(0, 0, 45 * unit, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Hexagon
+  ctx.globalAlpha = 1;
+  const sprite = getObstacleSprite(pixelSize, obstacle, viewport.pixelRatio);
+  const spriteSize = sprite.width / viewport.pixelRatio;
+  ctx.drawImage(sprite, -spriteSize / 2, -spriteSize / 2, spriteSize, spriteSize);
+
+  // Pulsing core (white while an armed mine flashes)
+  ctx.globalAlpha = 0.9 * pulse(time, 2000, 0.5, 1);
+  ctx.fillStyle = flashing ? 'white' : `oklch(0.75 0.26 ${hues.stripe})`;
+  ctx.beginPath();
+  ctx.arc(0, 0, 8 * unit, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Flickering sparks around the rim
+  const sparkWidth = responsive(viewport.screenWidth, 4, 6);
+  const sparkHeight = responsive(viewport.screenWidth, 8, 12);
+  ctx.fillStyle = isBoss ? 'rgb(239, 68, 68)' : palette.accent;
+  OBSTACLE_SPARK_POSITIONS.forEach((spark, i) => {
+    const angle = degToRad(spark.angle);
+    const distance = (spark.distance / 100) * pixelSize;
+    const stretch = pulse(time, 500, 0.8, 1.2, -i * 100);
+    ctx.globalAlpha = pulse(time, 500, 0.3, 1, -i * 100);
+    ctx.beginPath();
+    ctx.ellipse(
+      Math.cos(angle) * distance,
+      Math.sin(angle) * distance,
+      sparkWidth / 2,
+      (sparkHeight / 2) * stretch,
+      0,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+  });
+
+  // Boss shield bubble with its weak point lit up (canvas angles start at +x, ours at up)
+  if (bossShield) {
+    const radius = pixelSize * 0.48;
+    ctx.globalAlpha = 0.35;
+    ctx.strokeStyle = 'oklch(0.80 0.12 230)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    const center = degToRad(bossShield.weakPointAngle - 90);
+    const halfArc = degToRad(bossShield.weakPointArc / 2);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = 'oklch(0.90 0.18 95)';
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, center - halfArc, center + halfArc);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Bullets
+// ---------------------------------------------------------------------------
+
+function capsule(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+  const radius = width / 2;
+  ctx.beginPath();
+  ctx.moveTo(-radius, -height / 2 + radius);
+  ctx.arc(0, -height / 2 + radius, radius, Math.PI, 0);
+  ctx.lineTo(radius, height / 2 - radius);
+  ctx.arc(0, height / 2 - radius, radius, 0, Math.PI);
+  ctx.closePath();
+}
+
+function drawBullet(
+  ctx: CanvasRenderingContext2D,
+  bullet: BulletData,
+  alpha: number,
+  viewport: CanvasViewport,
+  palette: CanvasPalette
+): void {
+  const style = WEAPON_STYLES[bullet.weapon];
+  const color = style.color ?? palette.accent;
+  const dimensions = getBulletDimensions(bullet);
+  // The cannon keeps its responsive size; other weapons use their fixed style sizes
+  const width = dimensions.width;
+  const height = style.color === null ? responsive(viewport.screenWidth, 12, 16) : dimensions.length;
+  const trail = responsive(viewport.screenWidth, 8, 12);
+  const center = toPixels(interpolatePosition(bullet.previousPosition, bullet.position, alpha), viewport);
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate(degToRad(bullet.angle));
+
+  // Trailing streak
+  ctx.globalAlpha = 0.6;
+  ctx.fillStyle = linearGradient(ctx, 0, height / 2, 0, height / 2 + trail, [
+    [0, color],
+    [1, 'transparent'],
+  ]);
+  ctx.fillRect(-1, height / 2, 2, trail);
+
+  // Glow
+  ctx.globalAlpha = 0.4;
+  ctx.fillStyle = color;
+  capsule(ctx, width + 4, height + 4);
+  ctx.fill();
+
+  // Core
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = linearGradient(ctx, 0, -height / 2, 0, height / 2, [
+    [0, '#ffffff'],
+    [0.5, color],
+    [1, style.color ?? palette.primary],
+  ]);
+  capsule(ctx, width, height);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+function drawEnemyShot(ctx: CanvasRenderingContext2D, shot: EnemyShotData, alpha: number, viewport: CanvasViewport): void {
+  const center = toPixels(interpolatePosition(shot.previousPosition, shot.position, alpha), viewport);
+
+  ctx.save();
+  ctx.shadowColor = ENEMY_SHOT_COLOR;
+  ctx.shadowBlur = 10 * viewport.pixelRatio;
+  const core = ctx.createRadialGradient(center.x, center.y, 0, center.x, center.y, ENEMY_SHOT_SIZE);
+  core.addColorStop(0.2, '#ffffff');
+  core.addColorStop(0.7, ENEMY_SHOT_COLOR);
+  ctx.fillStyle = core;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, ENEMY_SHOT_SIZE, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Telegraphs
+// ---------------------------------------------------------------------------
+
+// Built on first use, like the other shared SVG paths
+let telegraphMarkerPath: Path2D | null = null;
+
+function drawTelegraph(ctx: CanvasRenderingContext2D, incoming: IncomingEnemyData, viewport: CanvasViewport): void {
+  const { position, rotation, color, opacity } = getTelegraphMarker(incoming);
+  const center = toPixels(position, viewport);
+  if (!telegraphMarkerPath) telegraphMarkerPath = new Path2D(TELEGRAPH_MARKER_PATH);
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate(degToRad(rotation));
+  ctx.globalAlpha = opacity * pulse(viewport.time, 2000, 0.5, 1);
+  ctx.scale(TELEGRAPH_MARKER_SIZE / TELEGRAPH_MARKER_VIEWBOX, TELEGRAPH_MARKER_SIZE / TELEGRAPH_MARKER_VIEWBOX);
+  ctx.translate(-TELEGRAPH_MARKER_VIEWBOX / 2, -TELEGRAPH_MARKER_VIEWBOX / 2);
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 6 * viewport.pixelRatio;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.stroke(telegraphMarkerPath);
+  ctx.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Explosions
+// ---------------------------------------------------------------------------
+
+// Power-up icons share their SVG path data with the DOM renderer
+const powerUpIconPaths = new Map<PowerUpKind, Path2D>();
+
+function getPowerUpIconPath(kind: PowerUpKind): Path2D {
+  let path = powerUpIconPaths.get(kind);
+  if (!path) {
+    path = new Path2D(POWER_UP_STYLES[kind].iconPath);
+    powerUpIconPaths.set(kind, path);
+  }
+  return path;
+}
+
+function drawPickup(ctx: CanvasRenderingContext2D, pickup: PickupData, alpha: number, viewport: CanvasViewport): void {
+  const { color } = POWER_UP_STYLES[pickup.kind];
+  const center = toPixels(interpolatePosition(pickup.previousPosition, pickup.position, alpha), viewport);
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.globalAlpha = (isPickupBlinkedOut(pickup) ? 0.3 : 1) * pulse(viewport.time, 2000, 0.7, 1);
+
+  // Glowing ring
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 12 * viewport.pixelRatio;
+  ctx.beginPath();
+  ctx.arc(0, 0, PICKUP_SIZE - 1, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(20, 12, 8, 0.8)';
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  // Icon
+  const iconSize = PICKUP_SIZE * 1.2;
+  ctx.translate(-iconSize / 2, -iconSize / 2);
+  ctx.scale(iconSize / POWER_UP_ICON_VIEWBOX, iconSize / POWER_UP_ICON_VIEWBOX);
+  ctx.lineWidth = 2;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.stroke(getPowerUpIconPath(pickup.kind));
+
+  ctx.restore();
+}
+
+function drawShield(
+  ctx: CanvasRenderingContext2D,
+  player: PlayerData,
+  shield: ActivePowerUp,
+  alpha: number,
+  viewport: CanvasViewport
+): void {
+  const { color } = POWER_UP_STYLES.shield;
+  const center = toPixels(interpolatePosition(player.previousPosition, player.position, alpha), viewport);
+  const radius = JET_SIZE + 8;
+
+  ctx.save();
+  ctx.globalAlpha = isPowerUpEnding(shield) ? pulse(viewport.time, 1000, 0.3, 0.8) : 0.8;
+  const glow = ctx.createRadialGradient(center.x, center.y, radius * 0.6, center.x, center.y, radius * 1.4);
+  glow.addColorStop(0, 'transparent');
+  glow.addColorStop(1, color);
+  ctx.fillStyle = glow;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 16 * viewport.pixelRatio;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+  ctx.restore();
+}
+
+interface EmberSet {
+  count: number;
+  distanceScale: number;
+  angleOffset: number;
+  diameter: number;
+  color: string;
+}
+
+interface ExplosionStyle {
+  flashDiameter: number;
+  ringDiameter: number;
+  ringWidth: number;
+  ringColors: string[];
+  embers: EmberSet[];
+  smokeDiameter: number; // 0 for no smoke
+}
+
+function getExplosionStyle(variant: ExplosionData['variant'], screenWidth: number, palette: CanvasPalette): ExplosionStyle {
+  const r = (base: number, sm: number, md?: number) => responsive(screenWidth, base, sm, md);
+  switch (variant) {
+    case 'hit':
+      return {
+        flashDiameter: r(48, 64),
+        ringDiameter: r(40, 48),
+        ringWidth: 2,
+        ringColors: [palette.primary],
+        embers: [{ count: 6, distanceScale: 0.5, angleOffset: 0, diameter: r(6, 8), color: palette.accent }],
+        smokeDiameter: 0,
+      };
+    case 'bomb':
+      return {
+        flashDiameter: r(192, 256, 320),
+        ringDiameter: r(160, 224, 288),
+        ringWidth: r(6, 8),
+        ringColors: [palette.primary, palette.accent, 'rgb(239, 68, 68)'],
+        embers: [
+          { count: 12, distanceScale: 2.5, angleOffset: 0, diameter: r(12, 16, 20), color: palette.primary },
+          { count: 12, distanceScale: 2, angleOffset: 15, diameter: r(10, 14, 16), color: palette.accent },
+        ],
+        smokeDiameter: r(128, 176, 224),
+      };
+    case 'player':
+      return {
+        flashDiameter: r(128, 160),
+        ringDiameter: r(96, 128),
+        ringWidth: 4,
+        ringColors: [palette.primary, palette.accent],
+        embers: [{ count: 12, distanceScale: 1, angleOffset: 0, diameter: r(8, 12), color: palette.primary }],
+        smokeDiameter: r(80, 112),
+      };
+  }
+}
+
+function drawExplosion(
+  ctx: CanvasRenderingContext2D,
+  explosion: ExplosionData,
+  viewport: CanvasViewport,
+  palette: CanvasPalette
+): void {
+  const style = getExplosionStyle(explosion.variant, viewport.screenWidth, palette);
+  const progress = effectProgress(explosion);
+  const fade = 1 - progress;
+  const center = toPixels(explosion.position, viewport);
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+
+  // Smoke lingers underneath everything else
+  if (style.smokeDiameter > 0) {
+    ctx.globalAlpha = 0.6 * fade;
+    const radius = (style.smokeDiameter / 2) * (0.6 + 0.6 * easeOut(progress));
+    const smoke = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+    smoke.addColorStop(0, 'rgb(75, 85, 99)');
+    smoke.addColorStop(1, 'rgba(75, 85, 99, 0)');
+    ctx.fillStyle = smoke;
+    ctx.beginPath();
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Flash: expands quickly and fades out
+  ctx.globalAlpha = fade * fade;
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(0, 0, (style.flashDiameter / 2) * (0.3 + 0.7 * easeOut(Math.min(1, progress * 2))), 0, Math.PI * 2);
+  ctx.fill();
+
+  // Blast waves, each trailing the previous one slightly
+  ctx.lineWidth = style.ringWidth;
+  style.ringColors.forEach((color, i) => {
+    const ringProgress = Math.max(0, progress - i * 0.1) / (1 - i * 0.1);
+    if (ringProgress <= 0) return;
+    ctx.globalAlpha = 1 - ringProgress;
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.arc(0, 0, (style.ringDiameter / 2) * (0.2 + 0.8 * easeOut(ringProgress)), 0, Math.PI * 2);
+    ctx.stroke();
+  });
+
+  // Embers fly outward
+  ctx.globalAlpha = fade;
+  for (const set of style.embers) {
+    ctx.fillStyle = set.color;
+    for (const ember of EMBER_POSITIONS.slice(0, set.count)) {
+      const angle = degToRad(ember.angle + set.angleOffset);
+      const distance = ember.distance * set.distanceScale * easeOut(progress);
+      ctx.beginPath();
+      ctx.arc(Math.cos(angle) * distance, Math.sin(angle) * distance, set.diameter / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.restore();
+}
+
+// ---------------------------------------------------------------------------
+// Spark bursts
+// ---------------------------------------------------------------------------
+
+function drawSparkBurst(ctx: CanvasRenderingContext2D, burst: SparkBurstData, viewport: CanvasViewport): void {
+  const { variant } = burst;
+  const sparkCount = variant === 'boss' ? 16 : variant === 'player' ? 12 : 8;
+  const sparkLength = variant === 'boss' ? 24 : variant === 'player' ? 18 : 14;
+  const sparkWidth = variant === 'boss' ? 3 : 2;
+  const flashSize = variant === 'boss' ? 32 : variant === 'player' ? 24 : 16;
+  const sparkColor =
+    variant === 'boss' ? 'oklch(0.85 0.28 15)' :
+    variant === 'player' ? 'oklch(0.80 0.24 35)' :
+    'oklch(0.75 0.22 45)';
+  const strong = variant !== 'normal';
+
+  const progress = effectProgress(burst);
+  const center = toPixels(burst, viewport);
+
+  // Streak keyframes: grow to a peak at 30%, then shrink while drifting outward and fading
+  const peakScale = strong ? 1.8 : 1.5;
+  const travel = strong ? 24 : 16;
+  const streakScale = progress < 0.3
+    ? (progress / 0.3) * peakScale
+    : peakScale + (0.5 - peakScale) * ((progress - 0.3) / 0.7);
+  const streakOffset = progress < 0.3 ? (progress / 0.3) * (travel / 2) : travel / 2 + (travel / 2) * ((progress - 0.3) / 0.7);
+  const streakAlpha = progress < 0.3 ? 1 : 1 - (progress - 0.3) / 0.7;
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+
+  // Same seeded jitter sequence as the DOM SparkBurst, so both renderers agree
+  const rng = createRng(burst.seed);
+  ctx.globalAlpha = streakAlpha;
+  for (let i = 0; i < sparkCount; i++) {
+    const angle = degToRad((360 / sparkCount) * i + randomRange(rng, -7.5, 7.5));
+    const length = sparkLength * streakScale;
+    if (length <= 0) continue;
+
+    ctx.save();
+    ctx.rotate(angle);
+    ctx.fillStyle = linearGradient(ctx, 0, streakOffset, 0, streakOffset + length, [
+      [0, sparkColor],
+      [1, 'transparent'],
+    ]);
+    ctx.fillRect(-sparkWidth / 2, streakOffset, sparkWidth, length);
+    ctx.restore();
+  }
+
+  // Central flash: pops to a peak at 20%, then collapses
+  const flashPeak = variant === 'boss' ? 2 : 1.5;
+  const flashScale = progress < 0.2
+    ? 0.5 + (flashPeak - 0.5) * (progress / 0.2)
+    : flashPeak + (0.3 - flashPeak) * ((progress - 0.2) / 0.8);
+  const flashRadius = (flashSize / 2) * flashScale;
+  ctx.globalAlpha = progress < 0.2 ? 1 : 1 - (progress - 0.2) / 0.8;
+  const flash = ctx.createRadialGradient(0, 0, 0, 0, 0, flashRadius);
+  flash.addColorStop(0, sparkColor);
+  flash.addColorStop(0.7, 'transparent');
+  ctx.fillStyle = flash;
+  ctx.beginPath();
+  ctx.arc(0, 0, flashRadius, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Extra glow ring for boss and player impacts
+  if (strong) {
+    const glowProgress = Math.min(1, progress * (burst.duration / 500));
+    const glowRadius = flashSize * (0.8 + 0.7 * glowProgress);
+    ctx.globalAlpha = 0.8 * (1 - glowProgress);
+    const glow = ctx.createRadialGradient(0, 0, 0, 0, 0, glowRadius);
+    glow.addColorStop(0, sparkColor);
+    glow.addColorStop(1, 'transparent');
+    ctx.fillStyle = glow;
+    ctx.beginPath();
+    ctx.arc(0, 0, glowRadius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Clear the canvas and draw one frame of the world.
+ * The context is expected to be untransformed; device pixel ratio scaling is applied here.
+ * @param alpha - Interpolation factor between the last two simulation steps
+ */
+export function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  alpha: number,
+  viewport: CanvasViewport,
+  palette: CanvasPalette
+): void {
+  ctx.setTransform(viewport.pixelRatio, 0, 0, viewport.pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, viewport.width, viewport.height);
+  if (viewport.width <= 0 || viewport.height <= 0) return;
+
+  // Same stacking order as the DOM renderer: telegraphs, jet, shield, bullets, obstacles, enemy shots, pickups, then effects on top
+  for (const incoming of world.incoming) {
+    drawTelegraph(ctx, incoming, viewport);
+  }
+  if (isJetVisible(world)) {
+    if (!isJetBlinkedOut(world.player)) drawPlayer(ctx, world.player, alpha, viewport, palette);
+    const shield = world.powerUps.find((powerUp) => powerUp.kind === 'shield');
+    if (shield) drawShield(ctx, world.player, shield, alpha, viewport);
+  }
+  for (const bullet of world.bullets) {
+    drawBullet(ctx, bullet, alpha, viewport, palette);
+  }
+  const bossShield = getBossShieldView(world);
+  for (const obstacle of world.obstacles) {
+    drawObstacle(ctx, obstacle, alpha, viewport, palette, isObstacleFlashing(world, obstacle), obstacle.isBoss ? bossShield : null);
+  }
+  for (const shot of world.enemyShots) {
+    drawEnemyShot(ctx, shot, alpha, viewport);
+  }
+  for (const pickup of world.pickups) {
+    drawPickup(ctx, pickup, alpha, viewport);
+  }
+  for (const explosion of world.explosions) {
+    drawExplosion(ctx, explosion, viewport, palette);
+  }
+  for (const burst of world.sparkBursts) {
+    drawSparkBurst(ctx, burst, viewport);
+  }
+  ctx.globalAlpha = 1;
+}
@@ -0,0 +1,99 @@
+/**
+ * Look of each enemy archetype, shared by both world renderers.
+ * Every kind keeps the hexagon body (it doubles as the polygon hitbox) in its own hues, with a
+ * mark over the core so kinds read at a glance. Marks are stroked SVG path data in the
+ * obstacle's 100×100 viewBox, so the canvas renderer can draw the same art through Path2D.
+ */
+
+import { getBossPhase } from '../simulation/GameSimulation';
+import type { EnemyKind, GameWorld, ObstacleData } from '../simulation/types';
+
+// OKLCH hues of each part of the hexagon art
+export interface ObstacleHues {
+  glow: [number, number]; // Center and edge of the outer glow
+  body: [number, number, number]; // Body gradient stops
+  stroke: number; // Outline and warning rings
+  inner: number; // Inner frame
+  stripe: number; // Hazard stripes and core
+}
+
+export interface EnemyStyle {
+  hues: ObstacleHues;
+  shadow: string; // CSS color of the drop-shadow glow
+  markPath: string | null; // SVG path data drawn over the core, stroked
+}
+
+// The original orange hazard scheme, shifted to another hue
+function huesAround(hue: number): ObstacleHues {
+  return { glow: [hue, hue - 5], body: [hue, hue - 2, hue - 5], stroke: hue + 2, inner: hue, stripe: hue + 5 };
+}
+
+export const BOSS_STYLE: EnemyStyle = {
+  hues: { glow: [15, 10], body: [15, 12, 10], stroke: 15, inner: 15, stripe: 20 },
+  shadow: 'rgba(255, 0, 0, 0.9)',
+  markPath: null,
+};
+
+export const ENEMY_STYLES: Record<EnemyKind, EnemyStyle> = {
+  drifter: { hues: huesAround(30), shadow: 'rgba(255, 80, 0, 0.8)', markPath: null },
+  chaser: {
+    hues: huesAround(345),
+    shadow: 'rgba(255, 40, 140, 0.8)',
+    markPath: 'M36 62 L50 44 L64 62 M36 50 L50 32 L64 50',
+  },
+  splitter: {
+    hues: huesAround(130),
+    shadow: 'rgba(120, 220, 40, 0.8)',
+    markPath: 'M50 20 L43 38 L56 52 L45 80 M56 52 L68 58',
+  },
+  armored: {
+    hues: huesAround(225),
+    shadow: 'rgba(110, 160, 255, 0.8)',
+    markPath: 'M30 36 H70 V64 H30 Z M36 42 V42.5 M64 42 V42.5 M36 58 V58.5 M64 58 V58.5',
+  },
+  shooter: {
+    hues: huesAround(300),
+    shadow: 'rgba(200, 80, 255, 0.8)',
+    markPath: 'M50 24 V38 M50 62 V76 M24 50 H38 M62 50 H76',
+  },
+  mine: {
+    hues: huesAround(90),
+    shadow: 'rgba(255, 220, 0, 0.8)',
+    markPath: 'M50 16 V30 M50 70 V84 M16 50 H30 M70 50 H84 M26 26 L35 35 M65 65 L74 74 M26 74 L35 65 M65 35 L74 26',
+  },
+};
+
+// Shooter projectiles glow in the shooter's hue
+export const ENEMY_SHOT_COLOR = 'oklch(0.72 0.24 300)';
+
+export function getEnemyStyle(obstacle: Pick<ObstacleData, 'kind' | 'isBoss'>): EnemyStyle {
+  return obstacle.isBoss ? BOSS_STYLE : ENEMY_STYLES[obstacle.kind];
+}
+
+/**
+ * Whether an obstacle's core is in the bright phase of a warning flash: an armed mine about to
+ * go off (faster as the fuse burns), or a boss winding up a charge.
+ */
+export function isObstacleFlashing(world: GameWorld, obstacle: ObstacleData): boolean {
+  if (obstacle.isBoss) {
+    const charge = world.boss?.charge;
+    return charge?.stage === 'windup' && Math.floor(charge.remaining / 100) % 2 === 0;
+  }
+  if (obstacle.fuse === undefined) return false;
+  const period = obstacle.fuse > 300 ? 120 : 60;
+  return Math.floor(obstacle.fuse / period) % 2 === 0;
+}
+
+export interface BossShieldView {
+  weakPointAngle: number; // Degrees, 0 = up, clockwise
+  weakPointArc: number; // Degrees
+}
+
+/**
+ * The boss's shield while its current phase has one, for drawing the bubble and weak point.
+ */
+export function getBossShieldView(world: GameWorld): BossShieldView | null {
+  const shield = getBossPhase(world)?.shield;
+  if (!shield || !world.boss) return null;
+  return { weakPointAngle: world.boss.weakPointAngle, weakPointArc: shield.weakPointArc };
+}
@@ -0,0 +1,22 @@
+/**
+ * When the player jet is drawn, shared by both world renderers.
+ */
+
+import type { GameWorld, PlayerData } from '../simulation/types';
+
+// Length of each on and off phase of the invulnerability blink, in milliseconds
+const INVULNERABLE_BLINK_PHASE = 100;
+
+/**
+ * Whether the jet is on the field at all: not during menus, the final explosion or a respawn.
+ */
+export function isJetVisible(world: GameWorld): boolean {
+  return (world.state === 'playing' || world.state === 'paused') && world.player.respawnTime === 0;
+}
+
+/**
+ * Whether an invulnerable jet is in the off phase of its blink.
+ */
+export function isJetBlinkedOut(player: PlayerData): boolean {
+  return player.invulnerableTime > 0 && Math.floor(player.invulnerableTime / INVULNERABLE_BLINK_PHASE) % 2 === 1;
+}
@@ -0,0 +1,34 @@
+/**
+ * Look of each level backdrop theme.
+ * A backdrop is a CSS background painted on the playfield under the grid, so both world
+ * renderers (which draw on a transparent layer) show it alike.
+ */
+
+import type { LevelTheme } from '../simulation/types';
+
+export interface LevelThemeStyle {
+  label: string;
+  backdrop: string | null; // CSS background image; null keeps the bare field color
+}
+
+export const LEVEL_THEME_STYLES: Record<LevelTheme, LevelThemeStyle> = {
+  grid: { label: 'Grid', backdrop: null },
+  nebula: {
+    label: 'Nebula',
+    backdrop:
+      'radial-gradient(ellipse at 25% 20%, oklch(0.40 0.14 300 / 0.45), transparent 60%), ' +
+      'radial-gradient(ellipse at 80% 75%, oklch(0.40 0.12 240 / 0.4), transparent 55%)',
+  },
+  ember: {
+    label: 'Ember',
+    backdrop:
+      'linear-gradient(to top, oklch(0.40 0.16 35 / 0.5), transparent 55%), ' +
+      'radial-gradient(ellipse at 50% 110%, oklch(0.55 0.20 50 / 0.35), transparent 60%)',
+  },
+  abyss: {
+    label: 'Abyss',
+    backdrop:
+      'radial-gradient(ellipse at 50% 50%, transparent 40%, oklch(0.12 0.04 250 / 0.8) 100%), ' +
+      'linear-gradient(to bottom, oklch(0.30 0.10 200 / 0.35), transparent 70%)',
+  },
+};
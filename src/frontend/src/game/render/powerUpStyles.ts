@@ -0,0 +1,61 @@
+/**
+ * Look of each power-up, shared by both world renderers and the HUD.
+ * Icons are stroked SVG path data in a 24×24 viewBox, so the canvas renderer can draw the
+ * same art through Path2D.
+ */
+
+import { PICKUP_EXPIRY_WARNING } from '../simulation/constants';
+import type { ActivePowerUp, PickupData, PowerUpKind } from '../simulation/types';
+
+export interface PowerUpStyle {
+  label: string;
+  color: string; // CSS color for the icon, ring and glow
+  iconPath: string; // SVG path data, stroked
+}
+
+export const POWER_UP_ICON_VIEWBOX = 24;
+
+export const POWER_UP_STYLES: Record<PowerUpKind, PowerUpStyle> = {
+  rapidFire: {
+    label: 'Rapid fire',
+    color: 'oklch(0.86 0.17 90)',
+    iconPath: 'M13 2 L4 14 H11 L10 22 L20 10 H13 Z',
+  },
+  spreadShot: {
+    label: 'Spread shot',
+    color: 'oklch(0.80 0.14 200)',
+    iconPath: 'M12 21 V5 M12 21 L5 8 M12 21 L19 8 M9 8 L12 4 L15 8',
+  },
+  shield: {
+    label: 'Shield',
+    color: 'oklch(0.72 0.16 250)',
+    iconPath: 'M12 3 L19 6 V11 C19 16 16 19.5 12 21 C8 19.5 5 16 5 11 V6 Z',
+  },
+  timeBonus: {
+    label: 'Time bonus',
+    color: 'oklch(0.80 0.17 150)',
+    iconPath: 'M20 13 A8 8 0 1 1 4 13 A8 8 0 1 1 20 13 Z M12 8 V13 L15 15 M10 2 H14',
+  },
+  bomb: {
+    label: 'Bomb',
+    color: 'oklch(0.66 0.24 25)',
+    iconPath: 'M16 15 A6 6 0 1 1 4 15 A6 6 0 1 1 16 15 Z M14 10 L17 7 M19 3 V5 M22 6 H20 M21.5 3.5 L20 5',
+  },
+};
+
+/**
+ * Whether a pickup is in its blink-off phase, warning that it is about to expire.
+ */
+export function isPickupBlinkedOut(pickup: PickupData): boolean {
+  return pickup.remaining < PICKUP_EXPIRY_WARNING && Math.floor(pickup.remaining / 150) % 2 === 0;
+}
+
+// Timed effects flash this many milliseconds before they wear off
+const POWER_UP_ENDING_WARNING = 1500;
+
+/**
+ * Whether a running power-up is close enough to wearing off to warn the player.
+ */
+export function isPowerUpEnding(powerUp: ActivePowerUp): boolean {
+  return powerUp.remaining < POWER_UP_ENDING_WARNING;
+}
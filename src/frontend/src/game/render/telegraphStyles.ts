@@ -0,0 +1,34 @@
+/**
+ * Look of the warning markers shown where telegraphed enemies are about to enter, shared by
+ * both world renderers. Each marker is a double chevron pointing the way the enemy will fly,
+ * in its kind's glow color, brightening as it gets closer to arriving.
+ */
+
+import { ENEMY_STYLES } from './enemyStyles';
+import { WAVE_TELEGRAPH_TIME } from '../simulation/constants';
+import type { IncomingEnemyData, Position } from '../simulation/types';
+
+export const TELEGRAPH_MARKER_SIZE = 24; // Pixels across
+export const TELEGRAPH_MARKER_VIEWBOX = 24;
+export const TELEGRAPH_MARKER_PATH = 'M5 13 L12 6 L19 13 M5 19 L12 12 L19 19'; // Stroked, pointing up
+
+const TELEGRAPH_INSET = 4; // Percent from the edge that markers for off-field entries are pulled in to
+
+export interface TelegraphMarkerView {
+  position: Position; // Playfield percent, always inside the field
+  rotation: number; // Degrees, 0 = up, clockwise
+  color: string;
+  opacity: number;
+}
+
+export function getTelegraphMarker(incoming: IncomingEnemyData): TelegraphMarkerView {
+  const clamp = (value: number) => Math.max(TELEGRAPH_INSET, Math.min(100 - TELEGRAPH_INSET, value));
+  const { direction, delay } = incoming;
+  return {
+    position: { x: clamp(incoming.position.x), y: clamp(incoming.position.y) },
+    rotation: (Math.atan2(direction.x, -direction.y) * 180) / Math.PI,
+    color: ENEMY_STYLES[incoming.kind].shadow,
+    // Members following later in a formation start faint
+    opacity: 0.3 + 0.7 * (1 - Math.min(1, Math.max(0, delay) / WAVE_TELEGRAPH_TIME)),
+  };
+}
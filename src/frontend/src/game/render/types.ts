@@ -0,0 +1,11 @@
+import type { GameWorld } from '../simulation/types';
+
+export type RendererMode = 'canvas' | 'dom';
+
+/**
+ * Props shared by every world renderer.
+ */
+export interface WorldRendererProps {
+  world: GameWorld;
+  alpha: number; // Interpolation factor between the last two simulation steps
+}
@@ -0,0 +1,33 @@
+/**
+ * Look of each weapon's bullets, shared by both world renderers and the HUD.
+ * Sizes are in screen pixels along and across the bullet's heading.
+ */
+
+import { WEAPONS } from '../simulation/weapons';
+import type { BulletData, WeaponKind } from '../simulation/types';
+
+export interface WeaponStyle {
+  color: string | null; // CSS color for the core and glow; null keeps the game accent
+  width: number;
+  length: number;
+}
+
+export const WEAPON_STYLES: Record<WeaponKind, WeaponStyle> = {
+  cannon: { color: null, width: 6, length: 14 },
+  spread: { color: 'oklch(0.80 0.14 200)', width: 5, length: 10 },
+  twin: { color: 'oklch(0.86 0.17 90)', width: 4, length: 12 },
+  laser: { color: 'oklch(0.68 0.24 25)', width: 3, length: 28 },
+  homing: { color: 'oklch(0.78 0.16 55)', width: 6, length: 12 },
+  charge: { color: 'oklch(0.74 0.19 310)', width: 10, length: 10 },
+};
+
+/**
+ * On-screen size of a bullet. Charge shots grow with the damage they were released at.
+ */
+export function getBulletDimensions(bullet: Pick<BulletData, 'weapon' | 'damage'>): { width: number; length: number } {
+  const style = WEAPON_STYLES[bullet.weapon];
+  if (bullet.weapon !== 'charge') return { width: style.width, length: style.length };
+
+  const scale = Math.sqrt(bullet.damage / WEAPONS.charge.damage);
+  return { width: style.width * scale, length: style.length * scale };
+}
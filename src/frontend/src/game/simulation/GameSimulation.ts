@@ -0,0 +1,1592 @@
+/**
+ * Framework-agnostic game simulation.
+ * Owns every gameplay rule (spawning, bullet motion, obstacle bounce, boss hits, scoring, timers)
+ * and advances an explicit GameWorld with step(). No React, DOM or timer APIs are used here,
+ * so a world can be driven by the render loop, a test, or a headless runner alike.
+ */
+
+import { clampPosition, reflectAtBounds, isOutOfBounds, isAtBorder, getWrapOffset } from '../physics/bounds';
+import { angleToForwardVector, pixelVelocityToPercent, offsetPosition } from '../physics/vectors';
+import { resolveObstacleCollision, resolveObstacleContact, type CollisionBody, type CollisionResult } from '../physics/obstacleCollisions';
+import { isFullHit, isFullHitPolygon } from '../physics/playerObstacleHit';
+import { segmentCircleTimeOfImpact, sweptCirclePolygonTimeOfImpact } from '../physics/sweptCollision';
+import { polygonPenetration } from '../physics/polygonCollision';
+import { JET_HIT_SHAPE, OBSTACLE_HIT_SHAPE, placeHitShape } from '../physics/hitShapes';
+import { createSpatialHash, insertCircle, queryCircle, findCandidatePairs, type SpatialHash } from '../physics/spatialHash';
+import { processJoystickInput } from '../utils/joystickMovement';
+import { createRng, nextUint32, randomRange } from './rng';
+import { POWER_UP_DURATIONS, isTimedPowerUp, rollDrop } from './powerUps';
+import { ENEMIES, getSplitSize, rollEnemy, rollEnemySize } from './enemies';
+import { layoutFormation, type FormationSlot } from './formations';
+import { BOSSES, getBossPhaseIndex, type BossAttack, type BossPhase } from './bosses';
+import { DEFAULT_LEVEL_PACK, getLevelDefinition, type LevelDefinition, type LevelPack, type WaveDefinition } from './levels';
+import { WEAPONS, getBulletRadius, getChargedDamage, type WeaponBarrel, type WeaponDefinition } from './weapons';
+import {
+  JET_SIZE,
+  BASE_MOVEMENT_SPEED,
+  OBSTACLE_SPEED,
+  OBSTACLE_SIZE_SMALL,
+  OBSTACLE_SIZE_MEDIUM,
+  OBSTACLE_SIZE_LARGE,
+  BOSS_SIZE,
+  EXPLOSION_DURATION,
+  HIT_EFFECT_DURATION,
+  BULLET_SPAWN_OFFSET,
+  FACING_THRESHOLD,
+  THRUST_THRESHOLD,
+  COLLISION_SOLVER_PASSES,
+  SPATIAL_HASH_CELL_SIZE,
+  OBSTACLE_DENSITY,
+  OBSTACLE_RESTITUTION,
+  SPARK_BURST_DURATION,
+  SPARK_BURST_BOSS_DURATION,
+  BOSS_SCORE,
+  SCORE_SMALL,
+  SCORE_MEDIUM,
+  SCORE_LARGE,
+  PICKUP_SIZE,
+  PICKUP_SPEED,
+  PICKUP_LIFETIME,
+  RAPID_FIRE_COOLDOWN_SCALE,
+  SPREAD_SHOT_ANGLE,
+  TIME_BONUS_SECONDS,
+  PLAYER_LIVES,
+  PLAYER_SHIELD_MAX,
+  PLAYER_SHIELD_HIT_DRAIN,
+  PLAYER_SHIELD_REGEN_RATE,
+  PLAYER_SHIELD_REGEN_DELAY,
+  PLAYER_INVULNERABILITY_DURATION,
+  PLAYER_RESPAWN_DELAY,
+  PLAYER_RESPAWN_INVULNERABILITY,
+  PLAYER_KNOCKBACK_SPEED,
+  WAVE_TELEGRAPH_TIME,
+  PLAYER_KNOCKBACK_DECAY,
+  BULLET_WRAP_LIFETIME,
+  ENEMY_SHOT_SIZE,
+  ENEMY_SHOT_LIFETIME,
+  WAYPOINT_REACH_RADIUS,
+} from './constants';
+import type {
+  BorderMode,
+  BossKind,
+  BulletData,
+  EnemyKind,
+  ExplosionData,
+  GameWorld,
+  GameOverReason,
+  HitboxMode,
+  ObstacleData,
+  ObstacleSize,
+  PlayerData,
+  Position,
+  PowerUpKind,
+  SimulationInputs,
+  SparkBurstData,
+  Velocity,
+  WeaponKind,
+} from './types';
+
+/**
+ * Definition of the level being played, from the run's level pack.
+ */
+export function getCurrentLevel(world: GameWorld): LevelDefinition {
+  return getLevelDefinition(world.levels, world.level);
+}
+
+/**
+ * Collision radius in pixels for an obstacle.
+ */
+export function getObstacleRadius(obstacle: Pick<ObstacleData, 'size' | 'isBoss'>): number {
+  if (obstacle.isBoss) return BOSS_SIZE;
+  return obstacle.size === 'small' ? OBSTACLE_SIZE_SMALL :
+         obstacle.size === 'medium' ? OBSTACLE_SIZE_MEDIUM : OBSTACLE_SIZE_LARGE;
+}
+
+/**
+ * Mass of an obstacle, proportional to its collision area (a medium obstacle weighs 1).
+ */
+export function getObstacleMass(obstacle: Pick<ObstacleData, 'size' | 'isBoss'>): number {
+  const radius = getObstacleRadius(obstacle);
+  return radius * radius * OBSTACLE_DENSITY;
+}
+
+// Collision response view of an obstacle: immovable bodies get zero inverse mass
+function toCollisionBody(obstacle: ObstacleData): CollisionBody {
+  return {
+    position: obstacle.position,
+    velocity: obstacle.velocity,
+    inverseMass: obstacle.immovable ? 0 : 1 / obstacle.mass,
+    restitution: OBSTACLE_RESTITUTION[obstacle.isBoss ? 'boss' : obstacle.size],
+  };
+}
+
+/**
+ * Spatial hash of obstacles in pixel space, keyed by index into the given array.
+ */
+export function buildObstacleHash(obstacles: ObstacleData[], width: number, height: number): SpatialHash {
+  const hash = createSpatialHash(SPATIAL_HASH_CELL_SIZE);
+  obstacles.forEach((obstacle, index) => {
+    insertCircle(
+      hash,
+      index,
+      (obstacle.position.x / 100) * width,
+      (obstacle.position.y / 100) * height,
+      getObstacleRadius(obstacle)
+    );
+  });
+  return hash;
+}
+
+function getObstacleScore(obstacle: Pick<ObstacleData, 'size' | 'kind'>): number {
+  const { size } = obstacle;
+  const base = size === 'small' ? SCORE_SMALL :
+               size === 'medium' ? SCORE_MEDIUM : SCORE_LARGE;
+  return Math.round(base * ENEMIES[obstacle.kind].scoreMultiplier);
+}
+
+/**
+ * Add a regular obstacle of the given archetype to the world.
+ * @param velocity - Pixels per second
+ */
+export function addEnemy(
+  world: GameWorld,
+  kind: EnemyKind,
+  size: ObstacleSize,
+  position: Position,
+  velocity: Velocity = { x: 0, y: 0 }
+): ObstacleData {
+  const enemy = ENEMIES[kind];
+  const obstacle: ObstacleData = {
+    id: world.nextEntityId++,
+    position,
+    previousPosition: position,
+    velocity,
+    size,
+    kind,
+    health: enemy.health,
+    mass: getObstacleMass({ size }),
+    ...(enemy.shoot && { fireTimer: enemy.shoot.interval }),
+  };
+  world.obstacles.push(obstacle);
+  return obstacle;
+}
+
+function createPlayer(): PlayerData {
+  const center = { x: 50, y: 50 };
+  return {
+    position: center,
+    previousPosition: center,
+    facingAngle: 0,
+    aimAngle: 0,
+    isThrusting: false,
+    shield: PLAYER_SHIELD_MAX,
+    shieldRegenDelay: 0,
+    invulnerableTime: 0,
+    respawnTime: 0,
+    knockback: { x: 0, y: 0 },
+  };
+}
+
+/**
+ * Create an idle world for a playfield of the given pixel size.
+ */
+export function createWorld(width = 0, height = 0, seed = 0): GameWorld {
+  return {
+    state: 'idle',
+    gameOverReason: null,
+    playfield: { width, height },
+    rng: createRng(seed),
+    hitboxes: 'circle',
+    border: 'lethal',
+    tick: 0,
+    player: createPlayer(),
+    bullets: [],
+    obstacles: [],
+    enemyShots: [],
+    pickups: [],
+    powerUps: [],
+    explosions: [],
+    sparkBursts: [],
+    score: 0,
+    levels: DEFAULT_LEVEL_PACK,
+    level: 1,
+    lives: PLAYER_LIVES,
+    destroyedThisLevel: 0,
+    timeRemaining: 0,
+    bossActive: false,
+    bossHealth: 0,
+    boss: null,
+    weapon: 'cannon',
+    chargeTime: 0,
+    bossSpawnedThisAttempt: false,
+    nextEntityId: 0,
+    waves: [],
+    incoming: [],
+    fireAccumulator: 0,
+    explosionTimer: 0,
+  };
+}
+
+export function setPlayfieldSize(world: GameWorld, width: number, height: number): void {
+  world.playfield = { width, height };
+}
+
+// Reset everything that is scoped to a single level attempt
+function resetLevelAttempt(world: GameWorld): void {
+  world.state = 'playing';
+  world.gameOverReason = null;
+  world.player = createPlayer();
+  world.bullets = [];
+  world.obstacles = [];
+  world.enemyShots = [];
+  world.pickups = [];
+  world.powerUps = [];
+  world.explosions = [];
+  world.sparkBursts = [];
+  world.destroyedThisLevel = 0;
+  const definition = getCurrentLevel(world);
+  world.timeRemaining = definition.timeLimit;
+  world.bossActive = false;
+  world.bossHealth = 0;
+  world.boss = null;
+  world.bossSpawnedThisAttempt = false;
+  // Groups are announced a telegraph ahead of their slot, so a wave's first arrival still lands one interval after its start.
+  // A playtest from later in the level counts the groups that would have arrived by then as spawned.
+  const skipped = (definition.playtestFrom ?? 0) * 1000;
+  world.waves = definition.waves.map((wave) => {
+    const spawned = Math.floor(Math.max(0, skipped - wave.start * 1000) / wave.interval);
+    return { wave, elapsed: WAVE_TELEGRAPH_TIME - wave.start * 1000 + skipped - spawned * wave.interval, spawned };
+  });
+  world.incoming = [];
+  world.fireAccumulator = 0;
+  world.chargeTime = 0;
+  world.explosionTimer = 0;
+}
+
+/**
+ * Start a new run, from level 1 unless told otherwise.
+ * @param seed - Seed for the run's randomness; the same seed and inputs replay the same run
+ * @param hitboxes - Collision shape mode for the whole run
+ * @param border - Border behavior for the whole run
+ * @param level - Level to start on
+ * @param levels - Level pack for the whole run
+ */
+export function startGame(
+  world: GameWorld,
+  seed: number = world.rng.seed,
+  hitboxes: HitboxMode = world.hitboxes,
+  border: BorderMode = world.border,
+  level = 1,
+  levels: LevelPack = world.levels
+): void {
+  world.rng = createRng(seed);
+  world.hitboxes = hitboxes;
+  world.border = border;
+  world.levels = levels;
+  world.tick = 0;
+  world.score = 0;
+  world.level = level;
+  world.lives = PLAYER_LIVES;
+  world.weapon = 'cannon';
+  resetLevelAttempt(world);
+}
+
+/**
+ * Advance to the next level, keeping the score.
+ */
+export function startNextLevel(world: GameWorld): void {
+  world.level += 1;
+  resetLevelAttempt(world);
+}
+
+/**
+ * Switch weapons mid-run. Any partial cooldown or charge of the previous weapon is dropped.
+ */
+export function selectWeapon(world: GameWorld, weapon: WeaponKind): void {
+  if (world.weapon === weapon) return;
+  world.weapon = weapon;
+  world.fireAccumulator = 0;
+  world.chargeTime = 0;
+}
+
+export function pauseGame(world: GameWorld): void {
+  if (world.state === 'playing') {
+    world.state = 'paused';
+  }
+}
+
+export function resumeGame(world: GameWorld): void {
+  if (world.state === 'paused') {
+    world.state = 'playing';
+  }
+}
+
+function spawnSparkBurst(world: GameWorld, position: Position, variant: SparkBurstData['variant']): void {
+  const duration = variant === 'boss' ? SPARK_BURST_BOSS_DURATION : SPARK_BURST_DURATION;
+  world.sparkBursts.push({
+    id: world.nextEntityId++,
+    x: position.x,
+    y: position.y,
+    variant,
+    seed: nextUint32(world.rng),
+    duration,
+    remaining: duration,
+  });
+}
+
+// Centralized game over handler with reason tracking
+function triggerGameOver(world: GameWorld, reason: GameOverReason): void {
+  if (world.state === 'exploding' || world.state === 'gameover') {
+    return; // Already in game over flow
+  }
+
+  world.state = 'exploding';
+  world.gameOverReason = reason;
+  world.explosionTimer = EXPLOSION_DURATION;
+
+  world.explosions.push({
+    id: world.nextEntityId++,
+    position: world.player.position,
+    variant: reason === 'obstacle' ? 'bomb' : 'player',
+    duration: EXPLOSION_DURATION,
+    remaining: EXPLOSION_DURATION,
+  });
+  spawnSparkBurst(world, world.player.position, 'player');
+
+  // Stop all inputs
+  world.fireAccumulator = 0;
+  world.chargeTime = 0;
+  world.player.isThrusting = false;
+}
+
+/**
+ * Resolve a hit on the jet. A shield holding at least one hit's worth takes the hit, knocking the jet
+ * back with a moment of invulnerability; otherwise the hit costs a life, and losing the last one ends the run.
+ * @param away - Direction to knock the jet in, in pixels (any length)
+ */
+function hitPlayer(world: GameWorld, reason: 'border' | 'obstacle', away: Position): void {
+  const { player } = world;
+  if (player.respawnTime > 0 || player.invulnerableTime > 0) return;
+
+  if (player.shield >= PLAYER_SHIELD_HIT_DRAIN) {
+    player.shield -= PLAYER_SHIELD_HIT_DRAIN;
+    player.shieldRegenDelay = PLAYER_SHIELD_REGEN_DELAY;
+    player.invulnerableTime = PLAYER_INVULNERABILITY_DURATION;
+    const length = Math.hypot(away.x, away.y);
+    if (length > 0) {
+      player.knockback = {
+        x: (away.x / length) * PLAYER_KNOCKBACK_SPEED,
+        y: (away.y / length) * PLAYER_KNOCKBACK_SPEED,
+      };
+    }
+    world.explosions.push({
+      id: world.nextEntityId++,
+      position: player.position,
+      variant: 'hit',
+      duration: HIT_EFFECT_DURATION,
+      remaining: HIT_EFFECT_DURATION,
+    });
+    return;
+  }
+
+  losePlayerLife(world, reason);
+}
+
+// Lose a life: the jet blows up and comes back at the center after a short delay, or the run ends
+function losePlayerLife(world: GameWorld, reason: 'border' | 'obstacle'): void {
+  const { player } = world;
+  world.lives = Math.max(0, world.lives - 1);
+  if (world.lives === 0) {
+    triggerGameOver(world, reason);
+    return;
+  }
+
+  world.explosions.push({
+    id: world.nextEntityId++,
+    position: player.position,
+    variant: reason === 'obstacle' ? 'bomb' : 'player',
+    duration: EXPLOSION_DURATION,
+    remaining: EXPLOSION_DURATION,
+  });
+  spawnSparkBurst(world, player.position, 'player');
+  player.respawnTime = PLAYER_RESPAWN_DELAY;
+  player.isThrusting = false;
+  player.knockback = { x: 0, y: 0 };
+  world.fireAccumulator = 0;
+  world.chargeTime = 0;
+}
+
+// Count down the respawn, invulnerability and shield regeneration timers
+function updatePlayerStatus(world: GameWorld, deltaTime: number): void {
+  const { player } = world;
+  if (player.respawnTime > 0) {
+    player.respawnTime = Math.max(0, player.respawnTime - deltaTime);
+    if (player.respawnTime === 0) {
+      world.player = { ...createPlayer(), invulnerableTime: PLAYER_RESPAWN_INVULNERABILITY };
+    }
+    return;
+  }
+
+  player.invulnerableTime = Math.max(0, player.invulnerableTime - deltaTime);
+  if (player.shieldRegenDelay > 0) {
+    player.shieldRegenDelay = Math.max(0, player.shieldRegenDelay - deltaTime);
+  } else {
+    player.shield = Math.min(PLAYER_SHIELD_MAX, player.shield + (PLAYER_SHIELD_REGEN_RATE * deltaTime) / 1000);
+  }
+}
+
+// Spawn a bullet from one of the weapon's barrels at the jet nose
+function spawnBullet(
+  world: GameWorld,
+  weapon: WeaponDefinition,
+  barrel: WeaponBarrel,
+  angleOffset: number,
+  damage: number
+): void {
+  const { width, height } = world.playfield;
+  const { position, aimAngle } = world.player;
+  const angle = aimAngle + barrel.angle + angleOffset;
+
+  // Barrels sit side by side across the nose, then fire along their own angle
+  const nose = offsetPosition(position, angleToForwardVector(aimAngle), BULLET_SPAWN_OFFSET, width, height);
+  const bulletSpawnPos = barrel.offset !== 0
+    ? offsetPosition(nose, angleToForwardVector(aimAngle + 90), barrel.offset, width, height)
+    : nose;
+
+  // Calculate bullet velocity in percent per second
+  const bulletVelocity = pixelVelocityToPercent(weapon.speed, angleToForwardVector(angle), width, height, 1);
+
+  // Bullets never leave a wrap-around field, so they burn out instead
+  const lifetime = world.border === 'wrap'
+    ? Math.min(weapon.lifetime ?? Infinity, BULLET_WRAP_LIFETIME)
+    : weapon.lifetime;
+
+  world.bullets.push({
+    id: world.nextEntityId++,
+    position: bulletSpawnPos,
+    previousPosition: bulletSpawnPos,
+    velocity: bulletVelocity,
+    angle,
+    weapon: world.weapon,
+    damage,
+    ...(lifetime !== undefined && { remaining: lifetime }),
+  });
+}
+
+// Fire one shot of the selected weapon; spread shot fans every barrel into three
+function fireShot(world: GameWorld, damage = WEAPONS[world.weapon].damage): void {
+  const weapon = WEAPONS[world.weapon];
+  const fan = hasPowerUp(world, 'spreadShot') ? [-SPREAD_SHOT_ANGLE, 0, SPREAD_SHOT_ANGLE] : [0];
+  for (const barrel of weapon.barrels) {
+    for (const angleOffset of fan) {
+      spawnBullet(world, weapon, barrel, angleOffset, damage);
+    }
+  }
+}
+
+// Trigger handling: held weapons fire on their cooldown, charge weapons fire on release
+function updateFiring(world: GameWorld, fire: boolean, dt: number): void {
+  const weapon = WEAPONS[world.weapon];
+  const rateScale = hasPowerUp(world, 'rapidFire') ? RAPID_FIRE_COOLDOWN_SCALE : 1;
+
+  if (weapon.charge) {
+    if (fire) {
+      world.chargeTime = Math.min(weapon.charge.maxTime, world.chargeTime + dt / rateScale);
+    } else if (world.chargeTime > 0) {
+      fireShot(world, getChargedDamage(weapon, world.chargeTime));
+      world.chargeTime = 0;
+    }
+    return;
+  }
+
+  if (fire) {
+    const cooldown = weapon.cooldown * rateScale;
+    world.fireAccumulator += dt;
+    while (world.fireAccumulator >= cooldown) {
+      fireShot(world);
+      world.fireAccumulator -= cooldown;
+    }
+  } else {
+    world.fireAccumulator = 0;
+  }
+}
+
+// Move bullets, steering homing ones toward the nearest obstacle and expiring limited-range ones
+function updateBullets(world: GameWorld, deltaSeconds: number): void {
+  const { width, height } = world.playfield;
+
+  world.bullets = world.bullets.flatMap((bullet) => {
+    const weapon = WEAPONS[bullet.weapon];
+    let { velocity, angle } = bullet;
+
+    if (weapon.homingTurnRate !== undefined) {
+      const target = findNearestObstacle(world, bullet.position);
+      if (target) {
+        const from = toPixels(bullet.position, width, height);
+        const to = toPixels(target.position, width, height);
+        const desired = (Math.atan2(to.x - from.x, -(to.y - from.y)) * 180) / Math.PI;
+        const difference = ((desired - angle + 540) % 360) - 180; // Shortest turn, -180..180
+        const maxTurn = weapon.homingTurnRate * deltaSeconds;
+        angle += Math.max(-maxTurn, Math.min(maxTurn, difference));
+        velocity = pixelVelocityToPercent(weapon.speed, angleToForwardVector(angle), width, height, 1);
+      }
+    }
+
+    const remaining = bullet.remaining !== undefined ? bullet.remaining - deltaSeconds * 1000 : undefined;
+    if (remaining !== undefined && remaining <= 0) return [];
+
+    let position = {
+      x: bullet.position.x + velocity.x * deltaSeconds,
+      y: bullet.position.y + velocity.y * deltaSeconds,
+    };
+    let { previousPosition } = bullet;
+    if (world.border === 'wrap') {
+      const offset = getWrapOffset(position, velocity, width, height, weapon.radius);
+      position = { x: position.x + offset.x, y: position.y + offset.y };
+      previousPosition = { x: previousPosition.x + offset.x, y: previousPosition.y + offset.y };
+    }
+
+    return [{ ...bullet, velocity, angle, remaining, position, previousPosition }];
+  });
+}
+
+function findNearestObstacle(world: GameWorld, position: Position): ObstacleData | null {
+  const { width, height } = world.playfield;
+  const from = toPixels(position, width, height);
+  let nearest: ObstacleData | null = null;
+  let nearestDistance = Infinity;
+  for (const obstacle of world.obstacles) {
+    const to = toPixels(obstacle.position, width, height);
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    if (distance < nearestDistance) {
+      nearest = obstacle;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Whether a timed power-up is currently running.
+ */
+export function hasPowerUp(world: GameWorld, kind: PowerUpKind): boolean {
+  return world.powerUps.some((powerUp) => powerUp.kind === kind);
+}
+
+// Roll the level's drop table and maybe leave a pickup drifting where an obstacle died
+function dropPickup(world: GameWorld, position: Position): void {
+  const kind = rollDrop(world.rng, getCurrentLevel(world).drops);
+  if (!kind) return;
+
+  const angle = randomRange(world.rng, 0, Math.PI * 2);
+  world.pickups.push({
+    id: world.nextEntityId++,
+    kind,
+    position,
+    previousPosition: position,
+    velocity: { x: Math.cos(angle) * PICKUP_SPEED, y: Math.sin(angle) * PICKUP_SPEED },
+    duration: PICKUP_LIFETIME,
+    remaining: PICKUP_LIFETIME,
+  });
+}
+
+// Destroy a regular (non-boss) obstacle: effects, score, boss progress and a possible drop.
+// The caller removes it from world.obstacles.
+function destroyObstacle(
+  world: GameWorld,
+  obstacle: ObstacleData,
+  sparkPosition: Position,
+  explosion: ExplosionData['variant'] = 'player'
+): void {
+  world.explosions.push({
+    id: world.nextEntityId++,
+    position: obstacle.position,
+    variant: explosion,
+    duration: HIT_EFFECT_DURATION,
+    remaining: HIT_EFFECT_DURATION,
+  });
+  spawnSparkBurst(world, sparkPosition, 'normal');
+  world.score += getObstacleScore(obstacle);
+  world.destroyedThisLevel += 1; // Only non-boss obstacles count toward the level's kill target
+  dropPickup(world, obstacle.position);
+}
+
+// Bomb pickup: destroy every regular obstacle in play; the boss is unaffected
+function detonateBomb(world: GameWorld): void {
+  const destroyed = world.obstacles.filter((obstacle) => !obstacle.isBoss);
+  for (const obstacle of destroyed) {
+    destroyObstacle(world, obstacle, obstacle.position, 'bomb');
+  }
+  world.obstacles = world.obstacles.filter((obstacle) => obstacle.isBoss);
+}
+
+function applyPowerUp(world: GameWorld, kind: PowerUpKind): void {
+  if (kind === 'timeBonus') {
+    world.timeRemaining += TIME_BONUS_SECONDS;
+  } else if (kind === 'bomb') {
+    detonateBomb(world);
+  } else if (isTimedPowerUp(kind)) {
+    // Collecting an effect that is already running restarts its timer
+    const duration = POWER_UP_DURATIONS[kind];
+    world.powerUps = world.powerUps.filter((powerUp) => powerUp.kind !== kind);
+    world.powerUps.push({ kind, duration, remaining: duration });
+  }
+}
+
+// Drift pickups, bounce them off the border, expire old ones and collect those the jet touches
+function updatePickups(world: GameWorld, deltaSeconds: number): void {
+  const { width, height } = world.playfield;
+  const playerX = (world.player.position.x / 100) * width;
+  const playerY = (world.player.position.y / 100) * height;
+  const collected: PowerUpKind[] = [];
+
+  world.pickups = world.pickups.filter((pickup) => {
+    pickup.remaining -= deltaSeconds * 1000;
+    if (pickup.remaining <= 0) return false;
+
+    let position = {
+      x: pickup.position.x + (pickup.velocity.x * deltaSeconds / width) * 100,
+      y: pickup.position.y + (pickup.velocity.y * deltaSeconds / height) * 100,
+    };
+    let velocity = pickup.velocity;
+    if (isAtBorder(position, width, height, PICKUP_SIZE)) {
+      const result = reflectAtBounds(position, velocity, width, height, PICKUP_SIZE);
+      position = result.position;
+      velocity = result.velocity;
+    }
+    pickup.position = position;
+    pickup.velocity = velocity;
+
+    const distance = Math.hypot((position.x / 100) * width - playerX, (position.y / 100) * height - playerY);
+    if (world.player.respawnTime === 0 && distance < JET_SIZE + PICKUP_SIZE) {
+      collected.push(pickup.kind);
+      return false;
+    }
+    return true;
+  });
+
+  for (const kind of collected) applyPowerUp(world, kind);
+}
+
+function updatePowerUps(world: GameWorld, deltaTime: number): void {
+  for (const powerUp of world.powerUps) powerUp.remaining -= deltaTime;
+  world.powerUps = world.powerUps.filter((powerUp) => powerUp.remaining > 0);
+}
+
+// Cruising speed of an enemy kind in pixels per second, scaled by the level
+function getEnemySpeed(world: GameWorld, kind: EnemyKind): number {
+  return OBSTACLE_SPEED * ENEMIES[kind].speedScale * getCurrentLevel(world).speedScale;
+}
+
+// A drawn path sends a single enemy from its first point toward the next (or the field center)
+function getPathSlot(world: GameWorld, path: Position[]): FormationSlot {
+  const [start, ...waypoints] = path;
+  return {
+    position: start,
+    direction: aimAt(world, start, waypoints[0] ?? { x: 50, y: 50 }, 1),
+    delay: 0,
+    ...(waypoints.length > 0 && { waypoints }),
+  };
+}
+
+// Announce a wave's next group: roll each member and lay the group out, to enter after the delay
+function announceWaveGroup(world: GameWorld, wave: WaveDefinition, delay: number): void {
+  const slots = wave.path
+    ? [getPathSlot(world, wave.path)]
+    : layoutFormation(world.rng, wave.pattern, wave.edge, world.playfield, world.player.position);
+
+  for (const slot of slots) {
+    // Random waves pick kind by spawn weight, then size by the kind's own size weights
+    const { kind, size } = wave.enemy === 'random'
+      ? rollEnemy(world.rng)
+      : { kind: wave.enemy, size: wave.size ?? rollEnemySize(world.rng, wave.enemy) };
+    world.incoming.push({ id: world.nextEntityId++, kind, size, ...slot, delay: delay + slot.delay });
+  }
+}
+
+// Advance every running wave, announcing the groups that have come due and dropping finished waves
+function updateWaves(world: GameWorld, dt: number): void {
+  for (const state of world.waves) {
+    state.elapsed += dt;
+    while (state.elapsed >= state.wave.interval && state.spawned < (state.wave.count ?? Infinity)) {
+      state.spawned += 1;
+      state.elapsed -= state.wave.interval;
+      // Whatever the step overshot the due time by comes off the warning, keeping arrivals on schedule
+      announceWaveGroup(world, state.wave, WAVE_TELEGRAPH_TIME - state.elapsed);
+    }
+  }
+  world.waves = world.waves.filter((state) => state.spawned < (state.wave.count ?? Infinity));
+}
+
+// Bring telegraphed enemies into play once their warning has run out
+function updateIncoming(world: GameWorld, dt: number): void {
+  const arriving = world.incoming.filter((incoming) => {
+    incoming.delay -= dt;
+    return incoming.delay <= 0;
+  });
+  if (arriving.length === 0) return;
+  world.incoming = world.incoming.filter((incoming) => incoming.delay > 0);
+
+  for (const incoming of arriving) {
+    const speed = getEnemySpeed(world, incoming.kind);
+    const velocity = { x: incoming.direction.x * speed, y: incoming.direction.y * speed };
+    const enemy = addEnemy(world, incoming.kind, incoming.size, incoming.position, velocity);
+    if (incoming.waypoints) enemy.waypoints = incoming.waypoints;
+  }
+}
+
+// Cruising speed of a boss in pixels per second, scaled by the level
+function getBossSpeed(world: GameWorld, kind: BossKind): number {
+  return OBSTACLE_SPEED * BOSSES[kind].speedScale * getCurrentLevel(world).speedScale;
+}
+
+// Spawn the level's boss just above the field, heading down with a slight sideways drift
+function spawnBoss(world: GameWorld, kind: BossKind): void {
+  if (world.bossActive || world.bossSpawnedThisAttempt) return;
+  if (world.obstacles.some((obs) => obs.isBoss)) return;
+
+  const speed = getBossSpeed(world, kind);
+  const angle = randomRange(world.rng, -20, 20) * (Math.PI / 180); // -20 to +20 degrees from vertical
+  addBoss(world, kind, { x: 50, y: -10 }, { x: Math.sin(angle) * speed, y: Math.cos(angle) * speed });
+}
+
+/**
+ * Put a boss into play at full health, in its first phase.
+ * @param velocity - Pixels per second
+ */
+export function addBoss(
+  world: GameWorld,
+  kind: BossKind,
+  position: Position,
+  velocity: Velocity = { x: 0, y: 0 }
+): ObstacleData {
+  const boss: ObstacleData = {
+    id: world.nextEntityId++,
+    position,
+    previousPosition: position,
+    velocity,
+    size: 'large',
+    kind: 'drifter',
+    health: 1,
+    mass: getObstacleMass({ size: 'large', isBoss: true }),
+    immovable: true, // Regular obstacles bounce off the boss instead of knocking it around
+    isBoss: true,
+  };
+  world.obstacles.push(boss);
+
+  world.bossSpawnedThisAttempt = true;
+  world.bossActive = true;
+  world.bossHealth = BOSSES[kind].maxHealth;
+  world.boss = { kind, phase: 0, attackTimers: [], charge: null, weakPointAngle: 0 };
+  enterBossPhase(world, 0);
+  return boss;
+}
+
+// Switch the boss to a phase, restarting every attack timer
+function enterBossPhase(world: GameWorld, phase: number): void {
+  if (!world.boss) return;
+  world.boss.phase = phase;
+  world.boss.attackTimers = BOSSES[world.boss.kind].phases[phase].attacks.map((attack) => attack.interval);
+}
+
+/**
+ * Phase of the active boss, or null when no boss is in play.
+ */
+export function getBossPhase(world: GameWorld): BossPhase | null {
+  return world.boss ? BOSSES[world.boss.kind].phases[world.boss.phase] : null;
+}
+
+// Run the boss state machine: phase changes by health, weak point spin, charges and attack timers
+function updateBoss(world: GameWorld, dt: number): void {
+  const { boss } = world;
+  const obstacle = world.obstacles.find((candidate) => candidate.isBoss);
+  if (!boss || !obstacle) return;
+
+  const definition = BOSSES[boss.kind];
+  const phaseIndex = getBossPhaseIndex(definition, world.bossHealth);
+  if (phaseIndex !== boss.phase) {
+    enterBossPhase(world, phaseIndex);
+    spawnSparkBurst(world, obstacle.position, 'boss');
+  }
+  const phase = definition.phases[boss.phase];
+  if (phase.shield) {
+    boss.weakPointAngle = (boss.weakPointAngle + (phase.shield.spinRate * dt) / 1000) % 360;
+  }
+
+  if (boss.charge) {
+    boss.charge.remaining -= dt;
+    if (boss.charge.remaining <= 0) {
+      if (boss.charge.stage === 'windup') {
+        const attack = phase.attacks.find((candidate) => candidate.type === 'charge');
+        boss.charge = { stage: 'dash', remaining: attack?.duration ?? 0 };
+        aimBossAtJet(world, obstacle, attack?.speed ?? 0);
+      } else {
+        // Dash over: keep going the same way at cruising speed
+        boss.charge = null;
+        const forward = angleToForwardVector(getHeading(obstacle.velocity));
+        const speed = getBossSpeed(world, boss.kind);
+        obstacle.velocity = { x: forward.x * speed, y: forward.y * speed };
+      }
+    }
+  }
+
+  // Attacks wait until the boss is fully on screen and the jet is in play
+  const { x, y } = obstacle.position;
+  const onScreen = x >= 0 && x <= 100 && y >= 0 && y <= 100;
+  if (!onScreen || world.player.respawnTime > 0) return;
+
+  phase.attacks.forEach((attack, i) => {
+    if (attack.type === 'charge' && boss.charge) return; // The next charge waits for this one to end
+    boss.attackTimers[i] -= dt;
+    if (boss.attackTimers[i] > 0) return;
+    boss.attackTimers[i] = attack.interval;
+    performBossAttack(world, obstacle, attack);
+  });
+}
+
+function performBossAttack(world: GameWorld, obstacle: ObstacleData, attack: BossAttack): void {
+  const { width, height } = world.playfield;
+  const radius = getObstacleRadius(obstacle);
+
+  if (attack.type === 'radialBurst') {
+    // Evenly spaced ring, turned by a random amount so consecutive bursts leave different gaps
+    const start = randomRange(world.rng, 0, 360 / attack.count);
+    for (let i = 0; i < attack.count; i++) {
+      const direction = angleToForwardVector(start + (i * 360) / attack.count);
+      fireEnemyShot(world, offsetPosition(obstacle.position, direction, radius, width, height), direction, attack.speed);
+    }
+  } else if (attack.type === 'summon') {
+    const inPlay = world.obstacles.filter((candidate) => !candidate.isBoss).length;
+    const count = Math.min(attack.count, attack.maxInPlay - inPlay);
+    const start = randomRange(world.rng, 0, 360);
+    const speed = getEnemySpeed(world, attack.enemy);
+    for (let i = 0; i < count; i++) {
+      const direction = angleToForwardVector(start + (i * 360) / count);
+      const minionRadius = getObstacleRadius({ size: attack.size });
+      const position = offsetPosition(obstacle.position, direction, radius + minionRadius, width, height);
+      addEnemy(world, attack.enemy, attack.size, position, { x: direction.x * speed, y: direction.y * speed });
+    }
+  } else if (world.boss) {
+    // Charge: hold still to telegraph it, then dash (see updateBoss)
+    world.boss.charge = { stage: 'windup', remaining: attack.windup };
+    obstacle.velocity = { x: 0, y: 0 };
+  }
+}
+
+// Point the boss straight at the jet at the given speed in pixels per second
+function aimBossAtJet(world: GameWorld, obstacle: ObstacleData, speed: number): void {
+  const { width, height } = world.playfield;
+  const from = toPixels(obstacle.position, width, height);
+  const to = toPixels(world.player.position, width, height);
+  const forward = angleToForwardVector(getHeading({ x: to.x - from.x, y: to.y - from.y }));
+  obstacle.velocity = { x: forward.x * speed, y: forward.y * speed };
+}
+
+/**
+ * Whether a hit at the given point on the boss gets through its shield: always while unshielded,
+ * otherwise only within the weak point's arc.
+ */
+export function isBossHitExposed(world: GameWorld, boss: ObstacleData, contact: Position): boolean {
+  const shield = getBossPhase(world)?.shield;
+  if (!shield || !world.boss) return true;
+
+  const { width, height } = world.playfield;
+  const center = toPixels(boss.position, width, height);
+  const point = toPixels(contact, width, height);
+  const angle = getHeading({ x: point.x - center.x, y: point.y - center.y });
+  const difference = ((angle - world.boss.weakPointAngle + 540) % 360) - 180;
+  return Math.abs(difference) <= shield.weakPointArc / 2;
+}
+
+// Velocity in pixels per second from one point of the field toward another
+function aimAt(world: GameWorld, from: Position, to: Position, speed: number): Velocity {
+  const { width, height } = world.playfield;
+  const dx = ((to.x - from.x) / 100) * width;
+  const dy = ((to.y - from.y) / 100) * height;
+  const distance = Math.hypot(dx, dy);
+  return distance === 0 ? { x: 0, y: speed } : { x: (dx / distance) * speed, y: (dy / distance) * speed };
+}
+
+// Heading of a velocity in degrees (0 = up, clockwise), straight down when it is not moving
+function getHeading(velocity: Velocity): number {
+  if (velocity.x === 0 && velocity.y === 0) return 180;
+  return (Math.atan2(velocity.x, -velocity.y) * 180) / Math.PI;
+}
+
+// Chasers steer toward the jet, shooters fire at it and mines arm when it comes close, then go off
+function updateEnemyBehaviors(world: GameWorld, dt: number): void {
+  const { width, height } = world.playfield;
+  const jetInPlay = world.player.respawnTime === 0;
+  const jet = toPixels(world.player.position, width, height);
+  const detonated = new Set<number>();
+
+  for (const obstacle of world.obstacles) {
+    if (obstacle.isBoss) continue;
+    const enemy = ENEMIES[obstacle.kind];
+    const center = toPixels(obstacle.position, width, height);
+    const toJet = { x: jet.x - center.x, y: jet.y - center.y };
+
+    if (obstacle.waypoints) {
+      // Fly straight at the next waypoint at full speed, turning for the one after on arrival
+      const waypoint = toPixels(obstacle.waypoints[0], width, height);
+      if (Math.hypot(waypoint.x - center.x, waypoint.y - center.y) < WAYPOINT_REACH_RADIUS) {
+        obstacle.waypoints = obstacle.waypoints.length > 1 ? obstacle.waypoints.slice(1) : undefined;
+      }
+      if (obstacle.waypoints) {
+        obstacle.velocity = aimAt(world, obstacle.position, obstacle.waypoints[0], getEnemySpeed(world, obstacle.kind));
+      }
+    } else if (enemy.chase && jetInPlay) {
+      // Turn at a limited rate and fly at full speed again after any bump slowed it down
+      const heading = getHeading(obstacle.velocity);
+      const difference = ((getHeading(toJet) - heading + 540) % 360) - 180; // Shortest turn, -180..180
+      const maxTurn = (enemy.chase.turnRate * dt) / 1000;
+      const forward = angleToForwardVector(heading + Math.max(-maxTurn, Math.min(maxTurn, difference)));
+      const speed = getEnemySpeed(world, obstacle.kind);
+      obstacle.velocity = { x: forward.x * speed, y: forward.y * speed };
+    }
+
+    if (enemy.shoot && obstacle.fireTimer !== undefined) {
+      // Shooters only fire from inside the field, and hold their shot while the jet is gone
+      obstacle.fireTimer = Math.max(0, obstacle.fireTimer - dt);
+      const { x, y } = obstacle.position;
+      if (obstacle.fireTimer === 0 && jetInPlay && x >= 0 && x <= 100 && y >= 0 && y <= 100) {
+        fireEnemyShot(world, obstacle.position, toJet, enemy.shoot.speed);
+        obstacle.fireTimer = enemy.shoot.interval;
+      }
+    }
+
+    if (enemy.mine) {
+      if (obstacle.fuse === undefined) {
+        if (jetInPlay && Math.hypot(toJet.x, toJet.y) < enemy.mine.triggerRadius) obstacle.fuse = enemy.mine.fuse;
+      } else {
+        obstacle.fuse = Math.max(0, obstacle.fuse - dt);
+        if (obstacle.fuse === 0) {
+          detonateMine(world, obstacle);
+          detonated.add(obstacle.id);
+        }
+      }
+    }
+  }
+
+  world.obstacles = world.obstacles.filter((obstacle) => !detonated.has(obstacle.id));
+}
+
+// Fire a shot from a shooter toward a target direction (pixels, any length)
+function fireEnemyShot(world: GameWorld, position: Position, direction: Position, speed: number): void {
+  const length = Math.hypot(direction.x, direction.y);
+  if (length === 0) return;
+
+  world.enemyShots.push({
+    id: world.nextEntityId++,
+    position,
+    previousPosition: position,
+    velocity: { x: (direction.x / length) * speed, y: (direction.y / length) * speed },
+    remaining: ENEMY_SHOT_LIFETIME,
+  });
+}
+
+// Move enemy shots, dropping those that burn out or leave the field (they wrap in wrap mode)
+function updateEnemyShots(world: GameWorld, deltaSeconds: number): void {
+  const { width, height } = world.playfield;
+
+  world.enemyShots = world.enemyShots.filter((shot) => {
+    shot.remaining -= deltaSeconds * 1000;
+    if (shot.remaining <= 0) return false;
+
+    const position = {
+      x: shot.position.x + (shot.velocity.x * deltaSeconds / width) * 100,
+      y: shot.position.y + (shot.velocity.y * deltaSeconds / height) * 100,
+    };
+    if (world.border === 'wrap') {
+      const offset = getWrapOffset(position, shot.velocity, width, height, ENEMY_SHOT_SIZE);
+      shot.position = { x: position.x + offset.x, y: position.y + offset.y };
+      shot.previousPosition = { x: shot.previousPosition.x + offset.x, y: shot.previousPosition.y + offset.y };
+      return true;
+    }
+    shot.position = position;
+    return !isOutOfBounds(position, width, height, ENEMY_SHOT_SIZE);
+  });
+}
+
+// A mine goes off: a blast that hits the jet if it is inside the radius and unshielded.
+// The caller removes the mine from world.obstacles.
+function detonateMine(world: GameWorld, mine: ObstacleData): void {
+  const { width, height } = world.playfield;
+  world.explosions.push({
+    id: world.nextEntityId++,
+    position: mine.position,
+    variant: 'bomb',
+    duration: HIT_EFFECT_DURATION,
+    remaining: HIT_EFFECT_DURATION,
+  });
+  spawnSparkBurst(world, mine.position, 'normal');
+
+  const blastRadius = ENEMIES[mine.kind].mine?.blastRadius ?? 0;
+  const center = toPixels(mine.position, width, height);
+  const jet = toPixels(world.player.position, width, height);
+  const away = { x: jet.x - center.x, y: jet.y - center.y };
+  if (world.player.respawnTime === 0 && !hasPowerUp(world, 'shield') && Math.hypot(away.x, away.y) < blastRadius) {
+    hitPlayer(world, 'obstacle', away);
+  }
+}
+
+// Break a destroyed splitter into smaller splitters, side by side across its heading and fanned out
+function splitObstacle(world: GameWorld, obstacle: ObstacleData): void {
+  const split = ENEMIES[obstacle.kind].split;
+  const size = getSplitSize(obstacle.size);
+  if (!split || !size) return;
+
+  const { width, height } = world.playfield;
+  const heading = getHeading(obstacle.velocity);
+  const speed = Math.max(Math.hypot(obstacle.velocity.x, obstacle.velocity.y), getEnemySpeed(world, obstacle.kind));
+  const radius = getObstacleRadius({ size });
+  const side = angleToForwardVector(heading + 90);
+
+  for (let i = 0; i < split.count; i++) {
+    const along = split.count > 1 ? i / (split.count - 1) - 0.5 : 0; // -0.5..0.5 across the fan
+    const forward = angleToForwardVector(heading + along * split.spreadAngle);
+    const position = offsetPosition(obstacle.position, side, along * 2 * radius * (split.count - 1), width, height);
+    addEnemy(world, obstacle.kind, size, position, { x: forward.x * speed, y: forward.y * speed });
+  }
+}
+
+function updatePlayer(world: GameWorld, inputs: SimulationInputs, deltaSeconds: number): void {
+  const { width, height } = world.playfield;
+  const { move, aim } = inputs;
+  const { player } = world;
+  if (player.respawnTime > 0) return;
+
+  // Update facing angle based on joystick direction (only when moving)
+  if (move.magnitude > FACING_THRESHOLD) {
+    player.facingAngle = (Math.atan2(move.x, -move.y) * 180) / Math.PI;
+  }
+  // A held aim stick points the guns on its own; otherwise they fire along the nose
+  player.aimAngle = aim.magnitude > FACING_THRESHOLD
+    ? (Math.atan2(aim.x, -aim.y) * 180) / Math.PI
+    : player.facingAngle;
+  player.isThrusting = move.magnitude > THRUST_THRESHOLD;
+
+  // Pixels to move this step: joystick steering plus any knockback from the last hit
+  let dx = player.knockback.x * deltaSeconds;
+  let dy = player.knockback.y * deltaSeconds;
+  if (move.magnitude > 0) {
+    const { direction, speedFactor } = processJoystickInput(move);
+    const speed = BASE_MOVEMENT_SPEED * speedFactor * inputs.sensitivity;
+    dx += direction.x * speed * deltaSeconds;
+    dy += direction.y * speed * deltaSeconds;
+  }
+
+  // Knockback fades out exponentially and stops once it is negligible
+  const decay = Math.exp(-PLAYER_KNOCKBACK_DECAY * deltaSeconds);
+  player.knockback = Math.hypot(player.knockback.x, player.knockback.y) * decay < 1
+    ? { x: 0, y: 0 }
+    : { x: player.knockback.x * decay, y: player.knockback.y * decay };
+
+  if (dx === 0 && dy === 0) return;
+  const newPos = {
+    x: player.position.x + (dx / width) * 100,
+    y: player.position.y + (dy / height) * 100,
+  };
+  if (world.border === 'wrap') {
+    const offset = getWrapOffset(newPos, { x: dx, y: dy }, width, height, JET_SIZE);
+    player.position = { x: newPos.x + offset.x, y: newPos.y + offset.y };
+    player.previousPosition = { x: player.previousPosition.x + offset.x, y: player.previousPosition.y + offset.y };
+  } else {
+    player.position = clampPosition(newPos, width, height, JET_SIZE);
+  }
+}
+
+// The jet touched the edge of a lethal or bouncing border
+function hitBorder(world: GameWorld): void {
+  const { width, height } = world.playfield;
+  const { player } = world;
+
+  if (world.border === 'lethal') {
+    if (player.invulnerableTime === 0) losePlayerLife(world, 'border');
+    return;
+  }
+
+  // Bounce: reflect the jet's movement this step off the edge, heading back toward the center
+  // if it was not moving; the wall pushes back even while the jet is invulnerable
+  const moved = {
+    x: ((player.position.x - player.previousPosition.x) / 100) * width,
+    y: ((player.position.y - player.previousPosition.y) / 100) * height,
+  };
+  const reflected = reflectAtBounds(player.position, moved, width, height, JET_SIZE).velocity;
+  const away = reflected.x !== 0 || reflected.y !== 0
+    ? reflected
+    : { x: width / 2 - (player.position.x / 100) * width, y: height / 2 - (player.position.y / 100) * height };
+  const length = Math.hypot(away.x, away.y);
+  if (length > 0) {
+    player.knockback = { x: (away.x / length) * PLAYER_KNOCKBACK_SPEED, y: (away.y / length) * PLAYER_KNOCKBACK_SPEED };
+  }
+  hitPlayer(world, 'border', away);
+}
+
+// Polygon hitbox mode: separate two hexagons along their SAT axis of least penetration
+function resolvePolygonObstacleCollision(
+  obsA: ObstacleData,
+  obsB: ObstacleData,
+  width: number,
+  height: number
+): CollisionResult {
+  const penetration = polygonPenetration(
+    getObstacleHitbox(obsA, toPixels(obsA.position, width, height))[0],
+    getObstacleHitbox(obsB, toPixels(obsB.position, width, height))[0]
+  );
+  if (!penetration) return { collided: false };
+
+  return resolveObstacleContact(
+    toCollisionBody(obsA),
+    toCollisionBody(obsB),
+    penetration.normal,
+    penetration.depth,
+    width,
+    height
+  );
+}
+
+function updateObstacles(world: GameWorld, deltaSeconds: number): void {
+  const { width, height } = world.playfield;
+
+  const updatedObstacles = world.obstacles.map((obstacle) => {
+    let newPos = {
+      x: obstacle.position.x + (obstacle.velocity.x * deltaSeconds / width) * 100,
+      y: obstacle.position.y + (obstacle.velocity.y * deltaSeconds / height) * 100,
+    };
+    let newVel = { ...obstacle.velocity };
+
+    const obstacleSize = getObstacleRadius(obstacle);
+    let { previousPosition } = obstacle;
+    if (world.border === 'wrap') {
+      // Obstacles wrap around with everything else (ones spawned above the field still fly in)
+      const offset = getWrapOffset(newPos, newVel, width, height, obstacleSize);
+      newPos = { x: newPos.x + offset.x, y: newPos.y + offset.y };
+      previousPosition = { x: previousPosition.x + offset.x, y: previousPosition.y + offset.y };
+    } else if (isAtBorder(newPos, width, height, obstacleSize)) {
+      const result = reflectAtBounds(newPos, newVel, width, height, obstacleSize);
+      newPos = result.position;
+      newVel = result.velocity;
+    }
+
+    return { ...obstacle, position: newPos, previousPosition, velocity: newVel };
+  });
+
+  // Collision resolution between obstacles (multiple passes). The hash is rebuilt each pass
+  // because separation moves obstacles; candidate pairs come back in brute-force order.
+  for (let pass = 0; pass < COLLISION_SOLVER_PASSES; pass++) {
+    const hash = buildObstacleHash(updatedObstacles, width, height);
+    for (const [i, j] of findCandidatePairs(hash)) {
+      const obsA = updatedObstacles[i];
+      const obsB = updatedObstacles[j];
+
+      const result = world.hitboxes === 'polygon'
+        ? resolvePolygonObstacleCollision(obsA, obsB, width, height)
+        : resolveObstacleCollision(
+          toCollisionBody(obsA),
+          getObstacleRadius(obsA),
+          toCollisionBody(obsB),
+          getObstacleRadius(obsB),
+          width,
+          height
+        );
+
+      if (result.collided && result.newPosition1 && result.newVelocity1 && result.newPosition2 && result.newVelocity2) {
+        updatedObstacles[i] = { ...obsA, position: result.newPosition1, velocity: result.newVelocity1 };
+        updatedObstacles[j] = { ...obsB, position: result.newPosition2, velocity: result.newVelocity2 };
+      }
+    }
+  }
+
+  // Remove obstacles that are out of bounds (only non-boss obstacles, and never in wrap mode)
+  world.obstacles = updatedObstacles.filter((obstacle) => {
+    if (obstacle.isBoss || world.border === 'wrap') return true; // Keep boss even if out of bounds
+    return !isOutOfBounds(obstacle.position, width, height, getObstacleRadius(obstacle));
+  });
+}
+
+function toPixels(position: Position, width: number, height: number): Position {
+  return { x: (position.x / 100) * width, y: (position.y / 100) * height };
+}
+
+/**
+ * Obstacle hitbox polygon(s) in pixels at the given pixel center (polygon hitbox mode).
+ */
+function getObstacleHitbox(obstacle: ObstacleData, center: Position): Position[][] {
+  return placeHitShape(OBSTACLE_HIT_SHAPE, center, getObstacleRadius(obstacle));
+}
+
+interface BulletImpact {
+  time: number; // Fraction of the step at first contact
+  contact: Position; // Point on the obstacle surface (pixels)
+}
+
+// Swept bullet against a moving obstacle circle; everything in pixels
+function sweepBulletAgainstCircle(
+  bulletFrom: Position,
+  bulletMove: Position,
+  bulletRadius: number,
+  obstacle: ObstacleData,
+  obstacleFrom: Position,
+  obstacleMove: Position
+): BulletImpact | null {
+  // Work in the obstacle's frame so both bodies' motion is accounted for
+  const time = segmentCircleTimeOfImpact(
+    bulletFrom,
+    { x: bulletMove.x - obstacleMove.x, y: bulletMove.y - obstacleMove.y },
+    obstacleFrom,
+    getObstacleRadius(obstacle) + bulletRadius
+  );
+  if (time === null) return null;
+
+  const centerX = obstacleFrom.x + obstacleMove.x * time;
+  const centerY = obstacleFrom.y + obstacleMove.y * time;
+  const bulletX = bulletFrom.x + bulletMove.x * time;
+  const bulletY = bulletFrom.y + bulletMove.y * time;
+  const distance = Math.hypot(bulletX - centerX, bulletY - centerY);
+  const surface = distance > 0 ? Math.min(1, getObstacleRadius(obstacle) / distance) : 0;
+
+  return {
+    time,
+    contact: { x: centerX + (bulletX - centerX) * surface, y: centerY + (bulletY - centerY) * surface },
+  };
+}
+
+// Swept bullet against a moving obstacle hexagon; everything in pixels
+function sweepBulletAgainstPolygon(
+  bulletFrom: Position,
+  bulletMove: Position,
+  bulletRadius: number,
+  obstacle: ObstacleData,
+  obstacleFrom: Position,
+  obstacleMove: Position
+): BulletImpact | null {
+  const [hexagon] = getObstacleHitbox(obstacle, obstacleFrom);
+  const impact = sweptCirclePolygonTimeOfImpact(
+    bulletFrom,
+    { x: bulletMove.x - obstacleMove.x, y: bulletMove.y - obstacleMove.y },
+    hexagon,
+    bulletRadius
+  );
+  if (!impact) return null;
+
+  // The bullet touches the edge it crossed one bullet radius behind its center
+  const { time, normal } = impact;
+  return {
+    time,
+    contact: {
+      x: bulletFrom.x + bulletMove.x * time - normal.x * bulletRadius,
+      y: bulletFrom.y + bulletMove.y * time - normal.y * bulletRadius,
+    },
+  };
+}
+
+/**
+ * Sweep a bullet from where it started this step to where it ended, against every nearby
+ * obstacle's own motion over the step, and return the obstacle it touches first.
+ * The contact point is on the obstacle's surface at the time of impact (percent).
+ */
+function findFirstBulletHit(
+  world: GameWorld,
+  hash: SpatialHash,
+  bullet: BulletData,
+  maxObstacleTravel: number,
+  ignoredObstacleIds: Set<number>
+): { obstacle: ObstacleData; contact: Position } | null {
+  const { width, height } = world.playfield;
+  const bulletFrom = toPixels(bullet.previousPosition, width, height);
+  const bulletTo = toPixels(bullet.position, width, height);
+  const bulletMove = { x: bulletTo.x - bulletFrom.x, y: bulletTo.y - bulletFrom.y };
+  const bulletRadius = getBulletRadius(bullet);
+  const sweep = world.hitboxes === 'polygon' ? sweepBulletAgainstPolygon : sweepBulletAgainstCircle;
+
+  // One query circle around the whole swept segment
+  const queryRadius = Math.hypot(bulletMove.x, bulletMove.y) / 2 + bulletRadius + maxObstacleTravel;
+  const candidates = queryCircle(
+    hash,
+    (bulletFrom.x + bulletTo.x) / 2,
+    (bulletFrom.y + bulletTo.y) / 2,
+    queryRadius
+  );
+
+  let best: { obstacle: ObstacleData; impact: BulletImpact } | null = null;
+  for (const index of candidates) {
+    const obstacle = world.obstacles[index];
+    if (ignoredObstacleIds.has(obstacle.id) || bullet.hitIds?.includes(obstacle.id)) continue;
+
+    const obstacleFrom = toPixels(obstacle.previousPosition, width, height);
+    const obstacleTo = toPixels(obstacle.position, width, height);
+    const obstacleMove = { x: obstacleTo.x - obstacleFrom.x, y: obstacleTo.y - obstacleFrom.y };
+    const impact = sweep(bulletFrom, bulletMove, bulletRadius, obstacle, obstacleFrom, obstacleMove);
+
+    // Candidates come in index order, so ties keep the lowest index
+    if (impact && (!best || impact.time < best.impact.time)) {
+      best = { obstacle, impact };
+    }
+  }
+
+  if (!best) return null;
+
+  const { contact } = best.impact;
+  return {
+    obstacle: best.obstacle,
+    contact: { x: (contact.x / width) * 100, y: (contact.y / height) * 100 },
+  };
+}
+
+function resolveBulletHits(world: GameWorld): void {
+  const { width, height } = world.playfield;
+  const bulletsToRemove = new Set<number>();
+  const obstaclesToRemove = new Set<number>();
+  const hash = buildObstacleHash(world.obstacles, width, height);
+
+  // Obstacles move during the step too; widen bullet queries by the furthest any of them went
+  let maxObstacleTravel = 0;
+  for (const obstacle of world.obstacles) {
+    const from = toPixels(obstacle.previousPosition, width, height);
+    const to = toPixels(obstacle.position, width, height);
+    maxObstacleTravel = Math.max(maxObstacleTravel, Math.hypot(to.x - from.x, to.y - from.y));
+  }
+
+  for (const bullet of world.bullets) {
+    const piercing = WEAPONS[bullet.weapon].piercing === true;
+    let hit = findFirstBulletHit(world, hash, bullet, maxObstacleTravel, obstaclesToRemove);
+
+    while (hit) {
+      applyBulletHit(world, bullet, hit.obstacle, hit.contact, obstaclesToRemove);
+      if (!piercing) {
+        bulletsToRemove.add(bullet.id);
+        break;
+      }
+      // Piercing bullets fly on; sweep again for the next target along the same path
+      bullet.hitIds = [...(bullet.hitIds ?? []), hit.obstacle.id];
+      hit = findFirstBulletHit(world, hash, bullet, maxObstacleTravel, obstaclesToRemove);
+    }
+  }
+
+  world.bullets = world.bullets.filter((bullet) => !bulletsToRemove.has(bullet.id));
+  world.obstacles = world.obstacles.filter((obstacle) => !obstaclesToRemove.has(obstacle.id));
+}
+
+// Damage one obstacle with one bullet; destroyed obstacles are added to obstaclesToRemove
+function applyBulletHit(
+  world: GameWorld,
+  bullet: BulletData,
+  obstacle: ObstacleData,
+  contact: Position,
+  obstaclesToRemove: Set<number>
+): void {
+  if (obstacle.isBoss) {
+    // Boss hit - spawn hit effect at the contact point and take the bullet's damage off its health
+    world.explosions.push({
+      id: world.nextEntityId++,
+      position: contact,
+      variant: 'hit',
+      duration: HIT_EFFECT_DURATION,
+      remaining: HIT_EFFECT_DURATION,
+    });
+
+    // A shielded boss only takes damage through its weak point
+    if (!isBossHitExposed(world, obstacle, contact)) return;
+
+    world.bossHealth -= bullet.damage;
+    if (world.bossHealth <= 0) {
+      world.bossHealth = 0;
+      world.boss = null;
+      obstaclesToRemove.add(obstacle.id);
+      world.explosions.push({
+        id: world.nextEntityId++,
+        position: obstacle.position,
+        variant: 'bomb',
+        duration: HIT_EFFECT_DURATION,
+        remaining: HIT_EFFECT_DURATION,
+      });
+      spawnSparkBurst(world, obstacle.position, 'boss');
+      world.score += BOSS_SCORE;
+      world.bossActive = false;
+      world.state = 'levelcomplete';
+    }
+  } else {
+    // Regular obstacle hit: armored ones shrug off hits until their health runs out
+    obstacle.health -= 1;
+    if (obstacle.health > 0) {
+      world.explosions.push({
+        id: world.nextEntityId++,
+        position: contact,
+        variant: 'hit',
+        duration: HIT_EFFECT_DURATION,
+        remaining: HIT_EFFECT_DURATION,
+      });
+      return;
+    }
+
+    obstaclesToRemove.add(obstacle.id);
+    destroyObstacle(world, obstacle, contact);
+    const enemy = ENEMIES[obstacle.kind];
+    if (enemy.split) splitObstacle(world, obstacle);
+    if (enemy.mine) detonateMine(world, obstacle);
+  }
+}
+
+// Remember where every moving entity started this step so rendering can interpolate
+function snapshotPositions(world: GameWorld): void {
+  world.player.previousPosition = world.player.position;
+  for (const bullet of world.bullets) bullet.previousPosition = bullet.position;
+  for (const obstacle of world.obstacles) obstacle.previousPosition = obstacle.position;
+  for (const pickup of world.pickups) pickup.previousPosition = pickup.position;
+  for (const shot of world.enemyShots) shot.previousPosition = shot.position;
+}
+
+function updateEffects(world: GameWorld, deltaTime: number): void {
+  for (const explosion of world.explosions) explosion.remaining -= deltaTime;
+  for (const burst of world.sparkBursts) burst.remaining -= deltaTime;
+  world.explosions = world.explosions.filter((explosion) => explosion.remaining > 0);
+  world.sparkBursts = world.sparkBursts.filter((burst) => burst.remaining > 0);
+}
+
+/**
+ * Advance the world by one step.
+ * Callers should pass FIXED_TIMESTEP (see fixedTimestep.ts) so runs are frame-rate independent.
+ * @param world - World to mutate in place
+ * @param inputs - Player inputs for this step
+ * @param dt - Elapsed time in milliseconds
+ */
+export function step(world: GameWorld, inputs: SimulationInputs, dt: number): void {
+  const { width, height } = world.playfield;
+  if (width === 0 || height === 0) return;
+
+  snapshotPositions(world);
+  if (world.state === 'playing' || world.state === 'exploding') {
+    world.tick += 1;
+  }
+
+  if (world.state === 'exploding') {
+    updateEffects(world, dt);
+    world.explosionTimer -= dt;
+    if (world.explosionTimer <= 0) {
+      world.explosionTimer = 0;
+      world.state = 'gameover';
+    }
+    return;
+  }
+
+  if (world.state !== 'playing') return;
+
+  const deltaSeconds = dt / 1000;
+  updateEffects(world, dt);
+  updatePowerUps(world, dt);
+
+  // Update countdown timer; running out clears a survival level and ends the run on any other
+  const { win } = getCurrentLevel(world);
+  world.timeRemaining = Math.max(0, world.timeRemaining - deltaSeconds);
+  if (world.timeRemaining === 0) {
+    if (win.type === 'survive') {
+      world.state = 'levelcomplete';
+    } else {
+      triggerGameOver(world, 'timeExpired');
+    }
+    return;
+  }
+
+  updatePlayerStatus(world, dt);
+  updatePlayer(world, inputs, deltaSeconds);
+
+  // The jet cannot fire while it is waiting to respawn
+  if (world.player.respawnTime === 0) {
+    updateFiring(world, inputs.fire, dt);
+  }
+
+  // Enemies already announced still arrive, but waves hold off while a boss is in play
+  updateIncoming(world, dt);
+  if (!world.bossActive) {
+    updateWaves(world, dt);
+  }
+
+  // Enough kills bring on the boss, or clear a destroy level outright
+  if (win.type === 'boss' && world.destroyedThisLevel >= win.kills) {
+    spawnBoss(world, win.boss);
+  } else if (win.type === 'destroy' && world.destroyedThisLevel >= win.kills) {
+    world.state = 'levelcomplete';
+    return;
+  }
+
+  updateEnemyBehaviors(world, dt);
+  if (world.state !== 'playing') return;
+  updateBoss(world, dt);
+
+  updateBullets(world, deltaSeconds);
+  updateEnemyShots(world, deltaSeconds);
+
+  updateObstacles(world, deltaSeconds);
+  // Hits are swept along each bullet's path, so resolve them before dropping bullets that
+  // left the playfield this step (they may have struck something on the way out)
+  resolveBulletHits(world);
+  if (world.border !== 'wrap') {
+    world.bullets = world.bullets.filter((bullet) => !isOutOfBounds(bullet.position, width, height, getBulletRadius(bullet)));
+  }
+  if (world.state !== 'playing') return;
+
+  // Collect pickups before the hit check, so a bomb grabbed this step can still save the jet
+  updatePickups(world, deltaSeconds);
+
+  // A respawning jet is out of play: nothing can hit it
+  if (world.player.respawnTime > 0) return;
+
+  // Check player-obstacle collisions against nearby obstacles only
+  const hash = buildObstacleHash(world.obstacles, width, height);
+  const playerX = (world.player.position.x / 100) * width;
+  const playerY = (world.player.position.y / 100) * height;
+  const jetHitbox = world.hitboxes === 'polygon'
+    ? placeHitShape(JET_HIT_SHAPE, { x: playerX, y: playerY }, JET_SIZE, world.player.facingAngle)
+    : null;
+  const removedOnContact = new Set<number>();
+  for (const index of queryCircle(hash, playerX, playerY, JET_SIZE)) {
+    const obstacle = world.obstacles[index];
+    const radius = getObstacleRadius(obstacle);
+    const fullHit = jetHitbox
+      ? isFullHitPolygon(jetHitbox, JET_SIZE, getObstacleHitbox(obstacle, toPixels(obstacle.position, width, height)), radius)
+      : isFullHit(world.player.position, JET_SIZE, obstacle.position, radius, width, height);
+    if (!fullHit) continue;
+
+    // A shield destroys regular obstacles on contact and holds the boss off
+    if (hasPowerUp(world, 'shield')) {
+      if (!obstacle.isBoss) {
+        destroyObstacle(world, obstacle, obstacle.position);
+        removedOnContact.add(obstacle.id);
+      }
+      continue;
+    }
+    // Flying into a mine sets it off on the spot
+    if (!obstacle.isBoss && ENEMIES[obstacle.kind].mine) {
+      removedOnContact.add(obstacle.id);
+      detonateMine(world, obstacle);
+      if (world.state !== 'playing') return;
+      continue;
+    }
+    const obstacleCenter = toPixels(obstacle.position, width, height);
+    hitPlayer(world, 'obstacle', { x: playerX - obstacleCenter.x, y: playerY - obstacleCenter.y });
+    if (world.state !== 'playing') return;
+  }
+  world.obstacles = world.obstacles.filter((obstacle) => !removedOnContact.has(obstacle.id));
+
+  // Enemy shots break on the jet; a shield soaks them up
+  const spentShots = new Set<number>();
+  for (const shot of world.enemyShots) {
+    if (!isFullHit(world.player.position, JET_SIZE, shot.position, ENEMY_SHOT_SIZE, width, height)) continue;
+    spentShots.add(shot.id);
+    if (!hasPowerUp(world, 'shield')) {
+      hitPlayer(world, 'obstacle', shot.velocity);
+      if (world.state !== 'playing') return;
+    }
+  }
+  world.enemyShots = world.enemyShots.filter((shot) => !spentShots.has(shot.id));
+
+  // Check player-border collision (a wrap-around field has no border to hit)
+  if (
+    world.border !== 'wrap' &&
+    world.player.respawnTime === 0 &&
+    isAtBorder(world.player.position, width, height, JET_SIZE)
+  ) {
+    hitBorder(world);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Broadphase benchmark scenario.
+ * Fills the playfield with a dense, seeded wave of obstacles, holds the trigger down and steps
+ * the simulation. Every tick it counts how many narrow-phase tests the old brute-force scans
+ * would run versus the spatial hash, times both on the same snapshot, and checks that the hash
+ * never misses an overlapping pair.
+ */
+
+import { addEnemy, buildObstacleHash, createWorld, getObstacleRadius, startGame, step } from '../GameSimulation';
+import { findCandidatePairs, queryCircle } from '../../physics/spatialHash';
+import { createRng, nextFloat, randomRange } from '../rng';
+import { getBulletRadius } from '../weapons';
+import {
+  COLLISION_SOLVER_PASSES,
+  FIXED_TIMESTEP,
+  JET_SIZE,
+  OBSTACLE_SPEED,
+} from '../constants';
+import type { GameWorld, ObstacleData, ObstacleSize, SimulationInputs } from '../types';
+
+export interface BroadphaseBenchmarkOptions {
+  obstacleCount?: number;
+  ticks?: number;
+  seed?: number;
+  width?: number; // Playfield pixels
+  height?: number; // Playfield pixels
+}
+
+interface PairCounts {
+  obstacleObstacle: number;
+  bulletObstacle: number;
+  playerObstacle: number;
+}
+
+export interface BroadphaseBenchmarkResult {
+  ticks: number;
+  restarts: number; // Times the jet was destroyed and the wave re-seeded
+  averageObstacles: number;
+  averageBullets: number;
+  bruteForce: PairCounts; // Narrow-phase tests summed over all ticks
+  spatialHash: PairCounts;
+  missedOverlaps: number; // Overlapping pairs the hash failed to report (must be 0)
+  bruteForceMs: number;
+  spatialHashMs: number;
+}
+
+const SIZES: ObstacleSize[] = ['small', 'medium', 'large'];
+
+// Keep the opening wave clear of the jet so the run does not end on the first tick
+const SPAWN_CLEARANCE = JET_SIZE * 4;
+
+function createScenario(options: Required<BroadphaseBenchmarkOptions>, seed: number): GameWorld {
+  const { width, height, obstacleCount } = options;
+  const world = createWorld(width, height, seed);
+  startGame(world, seed);
+  world.timeRemaining = Number.MAX_SAFE_INTEGER; // The level timer would end long runs early
+
+  const rng = createRng(seed ^ 0x9e3779b9);
+  const centerX = width / 2;
+  const centerY = height / 2;
+  while (world.obstacles.length < obstacleCount) {
+    const x = randomRange(rng, 0.05, 0.95) * width;
+    const y = randomRange(rng, 0.05, 0.95) * height;
+    if (Math.hypot(x - centerX, y - centerY) < SPAWN_CLEARANCE) continue;
+
+    const angle = nextFloat(rng) * Math.PI * 2;
+    const position = { x: (x / width) * 100, y: (y / height) * 100 };
+    const size = SIZES[Math.floor(nextFloat(rng) * SIZES.length)];
+    addEnemy(world, 'drifter', size, position, { x: Math.cos(angle) * OBSTACLE_SPEED, y: Math.sin(angle) * OBSTACLE_SPEED });
+  }
+
+  return world;
+}
+
+function toPixels(position: { x: number; y: number }, world: GameWorld): { x: number; y: number } {
+  return { x: (position.x / 100) * world.playfield.width, y: (position.y / 100) * world.playfield.height };
+}
+
+function circlesOverlap(world: GameWorld, a: ObstacleData, b: ObstacleData): boolean {
+  const pa = toPixels(a.position, world);
+  const pb = toPixels(b.position, world);
+  return Math.hypot(pa.x - pb.x, pa.y - pb.y) < getObstacleRadius(a) + getObstacleRadius(b);
+}
+
+// Brute-force narrow phase over one snapshot; returns the overlapping obstacle pairs
+function scanBruteForce(world: GameWorld, counts: PairCounts): Set<string> {
+  const { obstacles, bullets } = world;
+  const overlapping = new Set<string>();
+
+  for (let i = 0; i < obstacles.length; i++) {
+    for (let j = i + 1; j < obstacles.length; j++) {
+      if (circlesOverlap(world, obstacles[i], obstacles[j])) overlapping.add(`${i}:${j}`);
+    }
+  }
+  counts.obstacleObstacle += COLLISION_SOLVER_PASSES * (obstacles.length * (obstacles.length - 1)) / 2;
+  counts.bulletObstacle += bullets.length * obstacles.length;
+  counts.playerObstacle += obstacles.length;
+
+  return overlapping;
+}
+
+// Spatial hash narrow phase over the same snapshot; returns the candidate obstacle pairs
+function scanSpatialHash(world: GameWorld, counts: PairCounts): Set<string> {
+  const { width, height } = world.playfield;
+  const hash = buildObstacleHash(world.obstacles, width, height);
+  const pairs = findCandidatePairs(hash);
+  for (const [i, j] of pairs) circlesOverlap(world, world.obstacles[i], world.obstacles[j]);
+  counts.obstacleObstacle += COLLISION_SOLVER_PASSES * pairs.length;
+
+  // Bullets are swept, so each queries a circle around its path widened by obstacle motion
+  let maxObstacleTravel = 0;
+  for (const obstacle of world.obstacles) {
+    const from = toPixels(obstacle.previousPosition, world);
+    const to = toPixels(obstacle.position, world);
+    maxObstacleTravel = Math.max(maxObstacleTravel, Math.hypot(to.x - from.x, to.y - from.y));
+  }
+  for (const bullet of world.bullets) {
+    const from = toPixels(bullet.previousPosition, world);
+    const to = toPixels(bullet.position, world);
+    const radius = Math.hypot(to.x - from.x, to.y - from.y) / 2 + getBulletRadius(bullet) + maxObstacleTravel;
+    counts.bulletObstacle += queryCircle(hash, (from.x + to.x) / 2, (from.y + to.y) / 2, radius).length;
+  }
+  const player = toPixels(world.player.position, world);
+  counts.playerObstacle += queryCircle(hash, player.x, player.y, JET_SIZE).length;
+
+  return new Set(pairs.map(([i, j]) => `${i}:${j}`));
+}
+
+function emptyCounts(): PairCounts {
+  return { obstacleObstacle: 0, bulletObstacle: 0, playerObstacle: 0 };
+}
+
+/**
+ * Run the dense-wave scenario and compare brute-force and spatial hash pair counts.
+ * Deterministic for a given seed, apart from the timings.
+ */
+export function runBroadphaseBenchmark(options: BroadphaseBenchmarkOptions = {}): BroadphaseBenchmarkResult {
+  const resolved: Required<BroadphaseBenchmarkOptions> = {
+    obstacleCount: options.obstacleCount ?? 150,
+    ticks: options.ticks ?? 600,
+    seed: options.seed ?? 1,
+    width: options.width ?? 1280,
+    height: options.height ?? 720,
+  };
+  const inputs: SimulationInputs = {
+    move: { x: 0, y: 0, magnitude: 0 },
+    aim: { x: 0, y: 0, magnitude: 0 },
+    fire: true,
+    sensitivity: 1,
+  };
+
+  const result: BroadphaseBenchmarkResult = {
+    ticks: 0,
+    restarts: 0,
+    averageObstacles: 0,
+    averageBullets: 0,
+    bruteForce: emptyCounts(),
+    spatialHash: emptyCounts(),
+    missedOverlaps: 0,
+    bruteForceMs: 0,
+    spatialHashMs: 0,
+  };
+
+  let world = createScenario(resolved, resolved.seed);
+  let obstacleTotal = 0;
+  let bulletTotal = 0;
+
+  for (let tick = 0; tick < resolved.ticks; tick++) {
+    // Circle slowly while firing so bullets sweep the whole wave
+    const angle = (tick / 240) * Math.PI * 2;
+    inputs.move = { x: Math.sin(angle) * 0.2, y: -Math.cos(angle) * 0.2, magnitude: 0.2 };
+    step(world, inputs, FIXED_TIMESTEP);
+
+    if (world.state !== 'playing') {
+      result.restarts++;
+      world = createScenario(resolved, resolved.seed + result.restarts);
+      continue;
+    }
+
+    obstacleTotal += world.obstacles.length;
+    bulletTotal += world.bullets.length;
+    result.ticks++;
+
+    let start = performance.now();
+    const overlapping = scanBruteForce(world, result.bruteForce);
+    result.bruteForceMs += performance.now() - start;
+
+    start = performance.now();
+    const candidates = scanSpatialHash(world, result.spatialHash);
+    result.spatialHashMs += performance.now() - start;
+
+    for (const pair of overlapping) {
+      if (!candidates.has(pair)) result.missedOverlaps++;
+    }
+  }
+
+  result.averageObstacles = result.ticks > 0 ? obstacleTotal / result.ticks : 0;
+  result.averageBullets = result.ticks > 0 ? bulletTotal / result.ticks : 0;
+  return result;
+}
+
+/**
+ * Human-readable summary of a benchmark run.
+ */
+export function formatBroadphaseReport(result: BroadphaseBenchmarkResult): string {
+  const row = (label: string, brute: number, hashed: number) => {
+    const ratio = hashed > 0 ? (brute / hashed).toFixed(1) : '-';
+    return `  ${label.padEnd(18)} ${String(brute).padStart(12)} ${String(hashed).padStart(12)} ${ratio.padStart(7)}x`;
+  };
+
+  return [
+    `Broadphase benchmark: ${result.ticks} ticks, ${result.restarts} restarts, ` +
+      `~${Math.round(result.averageObstacles)} obstacles, ~${Math.round(result.averageBullets)} bullets`,
+    `  ${'pair tests'.padEnd(18)} ${'brute force'.padStart(12)} ${'spatial hash'.padStart(12)} ${'saved'.padStart(8)}`,
+    row('obstacle-obstacle', result.bruteForce.obstacleObstacle, result.spatialHash.obstacleObstacle),
+    row('bullet-obstacle', result.bruteForce.bulletObstacle, result.spatialHash.bulletObstacle),
+    row('player-obstacle', result.bruteForce.playerObstacle, result.spatialHash.playerObstacle),
+    `  time: brute force ${result.bruteForceMs.toFixed(1)} ms, spatial hash ${result.spatialHashMs.toFixed(1)} ms`,
+    `  missed overlaps: ${result.missedOverlaps}`,
+  ].join('\n');
+}
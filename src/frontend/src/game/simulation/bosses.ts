@@ -0,0 +1,122 @@
+/**
+ * Boss definitions.
+ * A boss is a state machine over phases keyed to its remaining health: each phase has its own
+ * set of attacks on independent timers, and may shield the boss so that only a weak point on its
+ * rim takes damage. Levels name their boss in their win condition (see levels.ts).
+ */
+
+import { BOSS_MAX_HEALTH } from './constants';
+import type { BossKind, EnemyKind, ObstacleSize } from './types';
+
+export type BossAttack =
+  // Ring of slow shots fired outward in every direction
+  | { type: 'radialBurst'; interval: number; count: number; speed: number }
+  // Minions spawned around the rim, flying outward; skipped while `maxInPlay` regular obstacles are already in play
+  | { type: 'summon'; interval: number; enemy: EnemyKind; size: ObstacleSize; count: number; maxInPlay: number }
+  // Stop and wind up for `windup` ms, then dash at where the jet was at `speed` px/s for `duration` ms
+  | { type: 'charge'; interval: number; windup: number; speed: number; duration: number };
+
+export interface BossPhase {
+  label: string;
+  startsAt: number; // Fraction of max health (0-1) at or below which the phase begins
+  attacks: BossAttack[]; // Each fires every `interval` ms while the phase lasts, first after one interval
+  shield?: { weakPointArc: number; spinRate: number }; // Only hits within this many degrees of the spinning weak point count
+}
+
+export interface BossDefinition {
+  label: string;
+  maxHealth: number;
+  speedScale: number; // Cruising speed relative to OBSTACLE_SPEED
+  phases: BossPhase[]; // Ordered by descending startsAt; the first starts at full health
+}
+
+export const BOSSES: Record<BossKind, BossDefinition> = {
+  warden: {
+    label: 'Warden',
+    maxHealth: BOSS_MAX_HEALTH,
+    speedScale: 0.6,
+    phases: [
+      {
+        label: 'Barrage',
+        startsAt: 1,
+        attacks: [{ type: 'radialBurst', interval: 2200, count: 8, speed: 110 }],
+      },
+      {
+        label: 'Swarm',
+        startsAt: 0.5,
+        attacks: [
+          { type: 'radialBurst', interval: 1600, count: 12, speed: 120 },
+          { type: 'summon', interval: 5000, enemy: 'chaser', size: 'small', count: 2, maxInPlay: 6 },
+        ],
+      },
+    ],
+  },
+  hive: {
+    label: 'Hive',
+    maxHealth: 24,
+    speedScale: 0.5,
+    phases: [
+      {
+        label: 'Brood',
+        startsAt: 1,
+        attacks: [{ type: 'summon', interval: 3500, enemy: 'drifter', size: 'small', count: 3, maxInPlay: 8 }],
+      },
+      {
+        label: 'Carapace',
+        startsAt: 0.6,
+        attacks: [{ type: 'summon', interval: 4000, enemy: 'chaser', size: 'small', count: 2, maxInPlay: 6 }],
+        shield: { weakPointArc: 70, spinRate: 60 },
+      },
+      {
+        label: 'Frenzy',
+        startsAt: 0.3,
+        attacks: [
+          { type: 'radialBurst', interval: 1400, count: 10, speed: 140 },
+          { type: 'summon', interval: 4500, enemy: 'mine', size: 'small', count: 2, maxInPlay: 6 },
+        ],
+      },
+    ],
+  },
+  juggernaut: {
+    label: 'Juggernaut',
+    maxHealth: 30,
+    speedScale: 0.6,
+    phases: [
+      {
+        label: 'Ram',
+        startsAt: 1,
+        attacks: [{ type: 'charge', interval: 4000, windup: 800, speed: 420, duration: 700 }],
+      },
+      {
+        label: 'Bulwark',
+        startsAt: 0.66,
+        attacks: [{ type: 'radialBurst', interval: 1800, count: 12, speed: 120 }],
+        shield: { weakPointArc: 60, spinRate: 90 },
+      },
+      {
+        label: 'Rampage',
+        startsAt: 0.33,
+        attacks: [
+          { type: 'charge', interval: 2500, windup: 600, speed: 480, duration: 700 },
+          { type: 'radialBurst', interval: 2000, count: 16, speed: 130 },
+        ],
+      },
+    ],
+  },
+};
+
+export function isBossKind(value: unknown): value is BossKind {
+  return typeof value === 'string' && value in BOSSES;
+}
+
+/**
+ * Index of the phase a boss is in at the given remaining health.
+ */
+export function getBossPhaseIndex(boss: BossDefinition, health: number): number {
+  const fraction = health / boss.maxHealth;
+  let index = 0;
+  boss.phases.forEach((phase, i) => {
+    if (fraction <= phase.startsAt) index = i;
+  });
+  return index;
+}
@@ -0,0 +1,71 @@
+/**
+ * Gameplay tuning constants shared by the simulation and the renderer.
+ */
+
+// Version of the simulation rules. Bump whenever a change would make an existing replay
+// play out differently, so old replay files are rejected instead of silently desyncing.
+export const SIMULATION_VERSION = 12;
+
+export const JET_SIZE = 32; // Reduced for mobile - smaller collision radius
+export const BULLET_SPEED = 400; // Increased from 300 - bullets travel faster
+export const FIRE_COOLDOWN = 120; // Reduced from 200ms - faster continuous fire for tighter bullet spacing
+export const BASE_MOVEMENT_SPEED = 180; // Base pixels per second - will be scaled by joystick
+export const OBSTACLE_SPEED = 120; // Base speed in pixels per second - FAST speed
+export const OBSTACLE_SIZE_SMALL = 18; // Small obstacle collision radius
+export const OBSTACLE_SIZE_MEDIUM = 24; // Medium obstacle collision radius
+export const OBSTACLE_SIZE_LARGE = 30; // Large obstacle collision radius
+export const BOSS_SIZE = 50; // Boss obstacle collision radius
+export const BULLET_SIZE = 4; // Reduced from 6 for smaller bullets
+export const EXPLOSION_DURATION = 800; // Milliseconds before transitioning to game over
+export const OBSTACLE_SPAWN_INTERVAL = 1000; // Milliseconds between spawns of the default campaign's random stream
+export const WAVE_TELEGRAPH_TIME = 1000; // Milliseconds a wave's markers show at the edge before its enemies arrive
+export const WAYPOINT_REACH_RADIUS = 12; // Pixels from a spawn path waypoint at which an enemy turns for the next
+export const MAX_DELTA_TIME = 100; // Clamp delta to avoid huge jumps after tab switches
+export const HIT_EFFECT_DURATION = 300; // Duration for bullet hit effects
+export const BULLET_SPAWN_OFFSET = 30; // Pixels ahead of jet nose for bullet spawn (tuned for visual muzzle)
+export const FACING_THRESHOLD = 0.1; // Threshold for updating facing angle
+export const THRUST_THRESHOLD = 0.05; // Joystick magnitude above which the thruster is shown
+export const COLLISION_SOLVER_PASSES = 3; // Number of collision resolution passes per frame
+export const OBSTACLE_DENSITY = 1 / (OBSTACLE_SIZE_MEDIUM * OBSTACLE_SIZE_MEDIUM); // Mass per squared pixel of radius (medium = 1)
+export const SPATIAL_HASH_CELL_SIZE = 64; // Broadphase grid cell size in pixels (about one large obstacle across)
+export const SPARK_BURST_DURATION = 400; // Duration for normal spark bursts
+export const SPARK_BURST_BOSS_DURATION = 600; // Duration for boss spark bursts
+export const BOSS_MAX_HEALTH = 15; // Health of the first boss (see bosses.ts); each bullet removes its weapon's damage
+export const BOSS_SCORE = 100; // Score awarded for defeating the boss
+export const ENEMY_SHOT_SIZE = 6; // Enemy shot collision radius
+export const ENEMY_SHOT_LIFETIME = 5000; // Milliseconds before an enemy shot fizzles out
+export const PICKUP_SIZE = 14; // Pickup collision radius
+export const PICKUP_SPEED = 50; // Pickup drift speed in pixels per second
+export const PICKUP_LIFETIME = 7000; // Milliseconds before an uncollected pickup disappears
+export const PICKUP_EXPIRY_WARNING = 1500; // Pickups blink for this many milliseconds before expiring
+export const RAPID_FIRE_COOLDOWN_SCALE = 0.5; // Weapon cooldowns (and charge times) are scaled by this during rapid fire
+export const SPREAD_SHOT_ANGLE = 15; // Degrees between the bullets of a spread shot
+export const TIME_BONUS_SECONDS = 5; // Seconds added to the level timer by a time bonus
+export const PLAYER_LIVES = 3; // Lives at the start of a run; the run ends when the last one is lost
+export const PLAYER_SHIELD_MAX = 100; // Shield meter capacity
+export const PLAYER_SHIELD_HIT_DRAIN = 50; // Shield lost per hit; a hit the meter cannot fully absorb costs a life
+export const PLAYER_SHIELD_REGEN_RATE = 10; // Shield points regained per second
+export const PLAYER_SHIELD_REGEN_DELAY = 2000; // Milliseconds after a hit before the shield starts regenerating
+export const PLAYER_INVULNERABILITY_DURATION = 1500; // Milliseconds of invulnerability after a shielded hit
+export const PLAYER_RESPAWN_DELAY = 1200; // Milliseconds the jet is gone after losing a life
+export const PLAYER_RESPAWN_INVULNERABILITY = 2500; // Milliseconds of invulnerability after respawning
+export const PLAYER_KNOCKBACK_SPEED = 360; // Pixels per second the jet is pushed away from what hit it
+export const PLAYER_KNOCKBACK_DECAY = 6; // Knockback falls off by e^(-decay * seconds)
+export const BULLET_WRAP_LIFETIME = 1500; // Milliseconds a bullet lasts in wrap-around mode, where it never leaves the field
+
+// Restitution per obstacle type; a colliding pair bounces with the average of the two.
+// Bigger bodies absorb more of the impact. Medium (0.9) matches the old global damping.
+export const OBSTACLE_RESTITUTION = {
+  small: 0.95,
+  medium: 0.9,
+  large: 0.85,
+  boss: 0.8,
+} as const;
+
+// Score values for each obstacle size
+export const SCORE_SMALL = 5;
+export const SCORE_MEDIUM = 10;
+export const SCORE_LARGE = 15;
+
+// Fixed simulation step (120 Hz) - every rule advances in steps of exactly this many milliseconds
+export const FIXED_TIMESTEP = 1000 / 120;
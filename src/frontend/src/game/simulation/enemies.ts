@@ -0,0 +1,123 @@
+/**
+ * Enemy archetype definitions.
+ * Every regular obstacle is one of these kinds. The spawner picks a kind by weight, then a size
+ * from the kind's own size weights; behaviors (chasing, splitting, shooting, detonating) are
+ * optional blocks the simulation checks per obstacle, like weapon flags.
+ */
+
+import { nextFloat, type Rng } from './rng';
+import type { EnemyKind, ObstacleSize } from './types';
+
+export interface EnemyDefinition {
+  label: string;
+  weight: number; // Relative spawn likelihood among all kinds
+  sizes: Partial<Record<ObstacleSize, number>>; // Relative likelihood of each size it spawns at
+  scoreMultiplier: number; // Applied to the size's base score
+  health: number; // Hits it takes to destroy, whatever the weapon
+  speedScale: number; // Spawn speed relative to OBSTACLE_SPEED
+  chase?: { turnRate: number }; // Degrees per second it steers toward the jet
+  split?: { count: number; spreadAngle: number }; // Breaks into this many pieces one size smaller when shot
+  shoot?: { interval: number; speed: number }; // Milliseconds between shots at the jet, shot speed in pixels per second
+  mine?: { triggerRadius: number; fuse: number; blastRadius: number }; // Pixels, milliseconds, pixels
+}
+
+export const ENEMIES: Record<EnemyKind, EnemyDefinition> = {
+  drifter: {
+    label: 'Drifter',
+    weight: 10,
+    sizes: { small: 5, medium: 3, large: 2 },
+    scoreMultiplier: 1,
+    health: 1,
+    speedScale: 1,
+  },
+  chaser: {
+    label: 'Chaser',
+    weight: 2,
+    sizes: { small: 1 },
+    scoreMultiplier: 2,
+    health: 1,
+    speedScale: 0.8,
+    chase: { turnRate: 90 },
+  },
+  splitter: {
+    label: 'Splitter',
+    weight: 2,
+    sizes: { large: 1 },
+    scoreMultiplier: 1,
+    health: 1,
+    speedScale: 0.8,
+    split: { count: 2, spreadAngle: 40 },
+  },
+  armored: {
+    label: 'Armored',
+    weight: 2,
+    sizes: { medium: 1, large: 1 },
+    scoreMultiplier: 3,
+    health: 3,
+    speedScale: 0.6,
+  },
+  shooter: {
+    label: 'Shooter',
+    weight: 1,
+    sizes: { medium: 1 },
+    scoreMultiplier: 3,
+    health: 2,
+    speedScale: 0.5,
+    shoot: { interval: 2000, speed: 140 },
+  },
+  mine: {
+    label: 'Mine',
+    weight: 1,
+    sizes: { small: 1 },
+    scoreMultiplier: 2,
+    health: 1,
+    speedScale: 0.4,
+    mine: { triggerRadius: 90, fuse: 700, blastRadius: 110 },
+  },
+};
+
+export function isEnemyKind(value: unknown): value is EnemyKind {
+  return typeof value === 'string' && value in ENEMIES;
+}
+
+// Weighted pick over a record's entries; entries with no weight never come up
+function pickWeighted<K extends string>(rng: Rng, weights: Partial<Record<K, number>>): K {
+  const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0);
+  if (entries.length === 0) {
+    throw new Error('At least one positively weighted entry is required');
+  }
+
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = nextFloat(rng) * totalWeight;
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return key;
+  }
+  return entries[entries.length - 1][0];
+}
+
+/**
+ * Roll the kind and size of the next spawned enemy.
+ */
+export function rollEnemy(rng: Rng): { kind: EnemyKind; size: ObstacleSize } {
+  const weights: Partial<Record<EnemyKind, number>> = {};
+  for (const [kind, enemy] of Object.entries(ENEMIES) as [EnemyKind, EnemyDefinition][]) {
+    weights[kind] = enemy.weight;
+  }
+  const kind = pickWeighted(rng, weights);
+  return { kind, size: rollEnemySize(rng, kind) };
+}
+
+/**
+ * Roll the size of a spawned enemy of a known kind.
+ */
+export function rollEnemySize(rng: Rng, kind: EnemyKind): ObstacleSize {
+  return pickWeighted(rng, ENEMIES[kind].sizes);
+}
+
+/**
+ * Size of the pieces a splitter of the given size breaks into, or null if it is too small to split.
+ */
+export function getSplitSize(size: ObstacleSize): ObstacleSize | null {
+  return size === 'large' ? 'medium' : size === 'medium' ? 'small' : null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Accumulator-based fixed-timestep driver.
+ * Render frames of any length are converted into a whole number of equal simulation steps,
+ * so gameplay runs identically on 60 Hz, 90 Hz and 120 Hz displays. The leftover fraction of
+ * a step is returned as an interpolation factor for rendering between the last two states.
+ */
+
+import { FIXED_TIMESTEP, MAX_DELTA_TIME } from './constants';
+import type { Position } from './types';
+
+export interface FixedStepClock {
+  accumulator: number; // Milliseconds of frame time not yet consumed by a step
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return { accumulator: 0 };
+}
+
+/**
+ * Consume a render frame's elapsed time in fixed simulation steps.
+ * @param clock - Clock carrying the leftover time between frames
+ * @param frameDelta - Elapsed render time in milliseconds (clamped to MAX_DELTA_TIME)
+ * @param stepFn - Called once per fixed step with the step length in milliseconds
+ * @returns Interpolation factor (0-1) between the previous and current simulation state
+ */
+export function advanceFixedStep(
+  clock: FixedStepClock,
+  frameDelta: number,
+  stepFn: (dt: number) => void
+): number {
+  clock.accumulator += Math.max(0, Math.min(frameDelta, MAX_DELTA_TIME));
+
+  while (clock.accumulator >= FIXED_TIMESTEP) {
+    stepFn(FIXED_TIMESTEP);
+    clock.accumulator -= FIXED_TIMESTEP;
+  }
+
+  return clock.accumulator / FIXED_TIMESTEP;
+}
+
+/**
+ * Blend an entity's previous and current step positions for rendering.
+ */
+export function interpolatePosition(previous: Position, current: Position, alpha: number): Position {
+  return {
+    x: previous.x + (current.x - previous.x) * alpha,
+    y: previous.y + (current.y - previous.y) * alpha,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Wave formations.
+ * Each time a wave sends a group, its pattern lays the group out: where every member enters,
+ * which way it sets off, how long after the group's arrival it follows and any waypoints it
+ * steers through. Layouts are worked out in pixels so shapes keep their proportions on any
+ * playfield, then handed back in playfield percent.
+ */
+
+import { nextFloat, randomRange, type Rng } from './rng';
+import type { Position, SpawnEdge, WavePattern } from './types';
+
+export interface FormationDefinition {
+  label: string;
+  usesEdge: boolean; // False for patterns placed around the jet or the field center
+}
+
+export interface FormationSlot {
+  position: Position; // Playfield percent
+  direction: Position; // Unit vector in pixels the enemy sets off along
+  delay: number; // Milliseconds after the group arrives that this member enters
+  waypoints?: Position[]; // Playfield percent, flown through in order before moving freely
+}
+
+export const FORMATIONS: Record<WavePattern, FormationDefinition> = {
+  scatter: { label: 'Scatter', usesEdge: true },
+  vee: { label: 'V-formation', usesEdge: true },
+  line: { label: 'Line sweep', usesEdge: true },
+  ring: { label: 'Ring', usesEdge: false },
+  spiral: { label: 'Spiral', usesEdge: false },
+};
+
+const SPAWN_MARGIN = 0.05; // Fraction of the field outside the edge where enemies enter
+const SCATTER_SPREAD = 30; // Degrees either side of straight into the field
+const CORNER_SPAN = 0.4; // Fraction of the shorter side a corner group spreads across
+const VEE_SIZE = 5;
+const VEE_GAP = 40; // Pixels between ranks sideways
+const VEE_DELAY = 300; // Milliseconds between ranks
+const LINE_SIZE = 6;
+const RING_SIZE = 8;
+const RING_RADIUS = 180; // Pixels from the jet
+const SPIRAL_SIZE = 6;
+const SPIRAL_DELAY = 250; // Milliseconds between arms
+const SPIRAL_WAYPOINTS = 6;
+const SPIRAL_TURN = 50; // Degrees each waypoint winds further round
+
+type Side = 'top' | 'bottom' | 'left' | 'right';
+
+// Where a group enters: the middle of its stretch of edge, the way along it and the way in
+interface Entry {
+  origin: Position;
+  along: Position;
+  inward: Position;
+  span: number; // Pixels of edge the group may spread across
+}
+
+interface Field {
+  width: number;
+  height: number;
+}
+
+function normalize(vector: Position): Position {
+  const length = Math.hypot(vector.x, vector.y);
+  return length === 0 ? { x: 0, y: 1 } : { x: vector.x / length, y: vector.y / length };
+}
+
+function rotate(vector: Position, degrees: number): Position {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: vector.x * cos - vector.y * sin, y: vector.x * sin + vector.y * cos };
+}
+
+function pick<T>(rng: Rng, options: readonly T[]): T {
+  return options[Math.floor(nextFloat(rng) * options.length)];
+}
+
+function sideEntry(side: Side, { width, height }: Field): Entry {
+  switch (side) {
+    case 'top':
+      return { origin: { x: width / 2, y: -height * SPAWN_MARGIN }, along: { x: 1, y: 0 }, inward: { x: 0, y: 1 }, span: width };
+    case 'bottom':
+      return { origin: { x: width / 2, y: height * (1 + SPAWN_MARGIN) }, along: { x: 1, y: 0 }, inward: { x: 0, y: -1 }, span: width };
+    case 'left':
+      return { origin: { x: -width * SPAWN_MARGIN, y: height / 2 }, along: { x: 0, y: 1 }, inward: { x: 1, y: 0 }, span: height };
+    case 'right':
+      return { origin: { x: width * (1 + SPAWN_MARGIN), y: height / 2 }, along: { x: 0, y: 1 }, inward: { x: -1, y: 0 }, span: height };
+  }
+}
+
+// Sides and corners are picked once per group, so a whole formation comes from the same place
+function rollEntry(rng: Rng, edge: SpawnEdge, field: Field): Entry {
+  switch (edge) {
+    case 'sides':
+      return sideEntry(pick(rng, ['left', 'right'] as const), field);
+    case 'corners': {
+      const { width, height } = field;
+      const origin = {
+        x: pick(rng, [-SPAWN_MARGIN, 1 + SPAWN_MARGIN]) * width,
+        y: pick(rng, [-SPAWN_MARGIN, 1 + SPAWN_MARGIN]) * height,
+      };
+      const inward = normalize({ x: width / 2 - origin.x, y: height / 2 - origin.y });
+      return { origin, along: { x: -inward.y, y: inward.x }, inward, span: Math.min(width, height) * CORNER_SPAN };
+    }
+    default:
+      return sideEntry(edge, field);
+  }
+}
+
+function alongEntry(entry: Entry, offset: number): Position {
+  return { x: entry.origin.x + entry.along.x * offset, y: entry.origin.y + entry.along.y * offset };
+}
+
+function toPercent(point: Position, { width, height }: Field): Position {
+  return { x: (point.x / width) * 100, y: (point.y / height) * 100 };
+}
+
+/**
+ * Lay out one group of a wave.
+ * @param jet - Jet position in playfield percent, which rings close in on
+ */
+export function layoutFormation(
+  rng: Rng,
+  pattern: WavePattern,
+  edge: SpawnEdge,
+  field: Field,
+  jet: Position
+): FormationSlot[] {
+  const { width, height } = field;
+  const slot = (point: Position, direction: Position, delay = 0, waypoints?: Position[]): FormationSlot => ({
+    position: toPercent(point, field),
+    direction,
+    delay,
+    ...(waypoints && { waypoints }),
+  });
+
+  switch (pattern) {
+    case 'scatter': {
+      const entry = rollEntry(rng, edge, field);
+      const point = alongEntry(entry, randomRange(rng, -entry.span / 2, entry.span / 2));
+      return [slot(point, rotate(entry.inward, randomRange(rng, -SCATTER_SPREAD, SCATTER_SPREAD)))];
+    }
+    case 'vee': {
+      // Leader first, then pairs trailing further out on either side
+      const entry = rollEntry(rng, edge, field);
+      const lead = randomRange(rng, -entry.span / 4, entry.span / 4);
+      return Array.from({ length: VEE_SIZE }, (_, i) => {
+        const rank = Math.ceil(i / 2);
+        const side = i % 2 === 0 ? 1 : -1;
+        return slot(alongEntry(entry, lead + side * rank * VEE_GAP), entry.inward, rank * VEE_DELAY);
+      });
+    }
+    case 'line': {
+      // Evenly spread across the edge, sweeping straight over the field together
+      const entry = rollEntry(rng, edge, field);
+      return Array.from({ length: LINE_SIZE }, (_, i) =>
+        slot(alongEntry(entry, ((i + 0.5) / LINE_SIZE - 0.5) * entry.span), entry.inward)
+      );
+    }
+    case 'ring': {
+      // All around the jet at once, flying at where it was when the ring was announced
+      const center = { x: (jet.x / 100) * width, y: (jet.y / 100) * height };
+      const turn = randomRange(rng, 0, 360);
+      return Array.from({ length: RING_SIZE }, (_, i) => {
+        const out = rotate({ x: 0, y: -1 }, turn + (i * 360) / RING_SIZE);
+        const point = { x: center.x + out.x * RING_RADIUS, y: center.y + out.y * RING_RADIUS };
+        return slot(point, { x: -out.x, y: -out.y });
+      });
+    }
+    case 'spiral': {
+      // Arms enter one after another around the field, each winding in toward the center along
+      // an ellipse shrinking from the field's own proportions, so every waypoint is reachable
+      const turn = randomRange(rng, 0, 360);
+      return Array.from({ length: SPIRAL_SIZE }, (_, i) => {
+        const angle = turn + (i * 360) / SPIRAL_SIZE;
+        const out = rotate({ x: 0, y: -1 }, angle);
+        // Enter just outside the edge, straight out from the center in the arm's direction
+        const reach = Math.min(Math.abs(width / 2 / out.x), Math.abs(height / 2 / out.y)) * (1 + SPAWN_MARGIN);
+        const start = { x: width / 2 + out.x * reach, y: height / 2 + out.y * reach };
+        const waypoints = Array.from({ length: SPIRAL_WAYPOINTS }, (_, step) => {
+          const scale = 1 - (step + 1) / (SPIRAL_WAYPOINTS + 1);
+          const along = rotate({ x: 0, y: -1 }, angle + (step + 1) * SPIRAL_TURN);
+          return { x: width / 2 + (along.x * width * scale) / 2, y: height / 2 + (along.y * height * scale) / 2 };
+        });
+        const direction = normalize({ x: waypoints[0].x - start.x, y: waypoints[0].y - start.y });
+        return slot(start, direction, i * SPIRAL_DELAY, waypoints.map((point) => toPercent(point, field)));
+      });
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Node entry for the headless scenario harness.
+ * Usage: pnpm test [name filter...]
+ * Prints one line per scenario, and any report it returns, and exits non-zero if any failed.
+ */
+
+import { runScenarios } from './scenarios';
+
+const results = runScenarios(process.argv.slice(2));
+
+for (const result of results) {
+  const status = result.passed ? 'PASS' : 'FAIL';
+  console.log(`${status}  ${result.name} (${result.durationMs.toFixed(0)} ms)`);
+  if (result.error) console.log(`      ${result.error}`);
+  if (result.report) console.log(result.report);
+}
+
+const failed = results.filter((result) => !result.passed).length;
+console.log(`\n${results.length - failed} passed, ${failed} failed`);
+
+if (results.length === 0) {
+  console.log('No scenarios matched the given filters');
+  process.exitCode = 1;
+} else if (failed > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,133 @@
+/**
+ * Headless simulation runner.
+ * Builds a world at a given playfield size, seed and level, feeds it a scripted input
+ * sequence one fixed step at a time and reports how the run ended. Nothing here touches the
+ * DOM, so it runs the same under Node as in the browser.
+ */
+
+import { createWorld, startGame, step } from '../GameSimulation';
+import { FIXED_TIMESTEP } from '../constants';
+import type { LevelPack } from '../levels';
+import type { BorderMode, GameOverReason, GameState, GameWorld, HitboxMode, SimulationInputs } from '../types';
+
+/**
+ * Inputs held for a number of steps. Omitted fields keep their previous value.
+ */
+export interface InputSegment {
+  ticks: number;
+  move?: { x: number; y: number }; // Joystick direction; length is the magnitude (clamped to 1)
+  aim?: { x: number; y: number }; // Twin-stick aim, like move
+  fire?: boolean;
+}
+
+export interface HeadlessRunOptions {
+  width?: number; // Playfield pixels
+  height?: number; // Playfield pixels
+  seed?: number;
+  level?: number;
+  levels?: LevelPack; // Defaults to the built-in campaign
+  hitboxes?: HitboxMode;
+  border?: BorderMode;
+  sensitivity?: number;
+  inputs?: InputSegment[]; // Played in order; the jet idles once the script runs out
+  maxTicks?: number; // Hard stop, including steps after the script ends
+  setup?: (world: GameWorld) => void; // Arrange the world after the run has started
+  beforeStep?: (world: GameWorld, inputs: SimulationInputs) => void;
+  afterStep?: (world: GameWorld) => void;
+  until?: (world: GameWorld) => boolean; // Stop early once this returns true
+}
+
+export interface HeadlessRunOutcome {
+  ticks: number; // Steps taken by the runner
+  state: GameState;
+  gameOverReason: GameOverReason;
+  score: number;
+  level: number;
+  lives: number;
+  destroyedThisLevel: number;
+  bossHealth: number;
+  timeRemaining: number; // Seconds
+  world: GameWorld; // Final world, for assertions the summary does not cover
+}
+
+const DEFAULT_MAX_TICKS = 120 * 60; // One minute of simulated play
+
+function toJoystick(move: { x: number; y: number }): SimulationInputs['move'] {
+  const magnitude = Math.min(1, Math.hypot(move.x, move.y));
+  return { x: move.x, y: move.y, magnitude };
+}
+
+/**
+ * Run a scripted game to completion without rendering.
+ * Stops when the run reaches game over or level complete, when `until` is satisfied, or
+ * after `maxTicks` steps, whichever comes first.
+ */
+export function runHeadless(options: HeadlessRunOptions = {}): HeadlessRunOutcome {
+  const width = options.width ?? 400;
+  const height = options.height ?? 700;
+  const seed = options.seed ?? 1;
+  const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+  const script = options.inputs ?? [];
+
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`Headless playfield must have a positive size, got ${width}x${height}`);
+  }
+
+  const world = createWorld(width, height, seed);
+  startGame(world, seed, options.hitboxes ?? 'circle', options.border ?? 'lethal', options.level ?? 1, options.levels);
+  options.setup?.(world);
+
+  const inputs: SimulationInputs = {
+    move: { x: 0, y: 0, magnitude: 0 },
+    aim: { x: 0, y: 0, magnitude: 0 },
+    fire: false,
+    sensitivity: options.sensitivity ?? 1,
+  };
+
+  let segmentIndex = 0;
+  let segmentTicksLeft = script.length > 0 ? script[0].ticks : 0;
+  let ticks = 0;
+
+  const applySegment = (segment: InputSegment) => {
+    if (segment.move) inputs.move = toJoystick(segment.move);
+    if (segment.aim) inputs.aim = toJoystick(segment.aim);
+    if (segment.fire !== undefined) inputs.fire = segment.fire;
+  };
+  if (script.length > 0) applySegment(script[0]);
+
+  while (ticks < maxTicks && (world.state === 'playing' || world.state === 'exploding')) {
+    if (options.until?.(world)) break;
+
+    // Move on to the next segment once the current one has been held long enough
+    while (segmentIndex < script.length && segmentTicksLeft <= 0) {
+      segmentIndex++;
+      if (segmentIndex < script.length) {
+        segmentTicksLeft = script[segmentIndex].ticks;
+        applySegment(script[segmentIndex]);
+      } else {
+        inputs.move = { x: 0, y: 0, magnitude: 0 };
+        inputs.aim = { x: 0, y: 0, magnitude: 0 };
+        inputs.fire = false;
+      }
+    }
+
+    options.beforeStep?.(world, inputs);
+    step(world, inputs, FIXED_TIMESTEP);
+    options.afterStep?.(world);
+    segmentTicksLeft--;
+    ticks++;
+  }
+
+  return {
+    ticks,
+    state: world.state,
+    gameOverReason: world.gameOverReason,
+    score: world.score,
+    level: world.level,
+    lives: world.lives,
+    destroyedThisLevel: world.destroyedThisLevel,
+    bossHealth: world.bossHealth,
+    timeRemaining: world.timeRemaining,
+    world,
+  };
+}
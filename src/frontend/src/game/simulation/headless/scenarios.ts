@@ -0,0 +1,1516 @@
+/**
+ * Scenario harness for the headless runner.
+ * Each scenario scripts a short run and throws if the outcome differs from the rules it pins
+ * down, so gameplay changes that alter these behaviors fail loudly instead of slipping in.
+ */
+
+import { addBoss, addEnemy, getCurrentLevel, selectWeapon } from '../GameSimulation';
+import {
+  createReplay,
+  createReplayPlayback,
+  finishReplay,
+  recordReplayEvent,
+  stepReplay,
+} from '../replay';
+import { formatBroadphaseReport, runBroadphaseBenchmark } from '../benchmarks/broadphaseBenchmark';
+import { LEVEL_DROP_TABLES, POWER_UP_DURATIONS } from '../powerUps';
+import { WEAPONS } from '../weapons';
+import { ENEMIES } from '../enemies';
+import { BOSSES } from '../bosses';
+import { layoutFormation } from '../formations';
+import { createRng } from '../rng';
+import {
+  DEFAULT_LEVEL_PACK,
+  fastForwardLevel,
+  getKillTarget,
+  getLevelDefinition,
+  parseLevelPack,
+  validateLevelPack,
+  type LevelDefinition,
+  type LevelPack,
+} from '../levels';
+import {
+  BOSS_MAX_HEALTH,
+  BOSS_SCORE,
+  FIXED_TIMESTEP,
+  OBSTACLE_SPEED,
+  PICKUP_LIFETIME,
+  PLAYER_LIVES,
+  PLAYER_RESPAWN_INVULNERABILITY,
+  PLAYER_SHIELD_HIT_DRAIN,
+  PLAYER_SHIELD_MAX,
+  SCORE_LARGE,
+  SCORE_MEDIUM,
+  SCORE_SMALL,
+  WAVE_TELEGRAPH_TIME,
+} from '../constants';
+import { runHeadless } from './runner';
+import { DEFAULT_BINDINGS, getBoundActions, rebind } from '../../input/bindings';
+import {
+  createInputManager,
+  pressAction,
+  readInputFrame,
+  releaseAim,
+  releaseSource,
+  setSourceAim,
+  setSourceFire,
+  setSourceMove,
+  type InputAction,
+} from '../../input/inputManager';
+import { readGamepad } from '../../utils/gamepadInput';
+import { getKeyboardVector } from '../../utils/keyboardMovement';
+import { MAX_TILT, getTiltVector, toScreenTilt } from '../../utils/tiltInput';
+import { DEADZONE, processJoystickInput } from '../../utils/joystickMovement';
+import type {
+  BorderMode,
+  BossKind,
+  EnemyKind,
+  GameWorld,
+  HitboxMode,
+  ObstacleData,
+  ObstacleSize,
+  Position,
+  PowerUpKind,
+  SpawnEdge,
+  WeaponKind,
+} from '../types';
+
+export interface Scenario {
+  name: string;
+  run: () => string | void; // Throws on failure; may return a report to print with the result
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  report?: string;
+  durationMs: number;
+}
+
+const HITBOX_MODES: HitboxMode[] = ['circle', 'polygon'];
+const TICKS_PER_SECOND = Math.round(1000 / FIXED_TIMESTEP);
+
+function expectEqual<T>(actual: T, expected: T, what: string): void {
+  if (actual !== expected) {
+    throw new Error(`${what}: expected ${String(expected)}, got ${String(actual)}`);
+  }
+}
+
+function expectTrue(condition: boolean, what: string): void {
+  if (!condition) {
+    throw new Error(what);
+  }
+}
+
+// Keep random spawns out of the way so only the obstacles a scenario places are in play
+function holdBackSpawns(world: GameWorld): void {
+  world.waves = [];
+  world.incoming = [];
+}
+
+// Boss a level of the built-in campaign ends with
+function getCampaignBoss(level: number): BossKind {
+  const { win } = getLevelDefinition(DEFAULT_LEVEL_PACK, level);
+  if (win.type !== 'boss') throw new Error(`campaign level ${level} should end with a boss`);
+  return win.boss;
+}
+
+// One-level pack for scenarios that need their own level rules
+function singleLevelPack(level: Partial<LevelDefinition>): LevelPack {
+  return {
+    name: 'Scenario',
+    levels: [{ ...getLevelDefinition(DEFAULT_LEVEL_PACK, 1), waves: [], ...level }],
+  };
+}
+
+function placeObstacle(
+  world: GameWorld,
+  position: Position,
+  size: ObstacleSize,
+  velocity = { x: 0, y: 0 },
+  kind: EnemyKind = 'drifter'
+): ObstacleData {
+  return addEnemy(world, kind, size, position, velocity);
+}
+
+function placeBoss(world: GameWorld, position: Position, velocity = { x: 0, y: 0 }): ObstacleData {
+  return addBoss(world, getCampaignBoss(world.level), position, velocity);
+}
+
+function placePickup(world: GameWorld, position: Position, kind: PowerUpKind): void {
+  world.pickups.push({
+    id: world.nextEntityId++,
+    kind,
+    position,
+    previousPosition: position,
+    velocity: { x: 0, y: 0 },
+    duration: PICKUP_LIFETIME,
+    remaining: PICKUP_LIFETIME,
+  });
+}
+
+function bossAppearsAfterThreshold(level: number): Scenario {
+  return {
+    name: `boss appears after the kill target of campaign level ${level}`,
+    run: () => {
+      const threshold = getKillTarget(getLevelDefinition(DEFAULT_LEVEL_PACK, level));
+      if (threshold === null) throw new Error(`campaign level ${level} should have a kill target`);
+      let killsWhenBossAppeared: number | null = null;
+
+      const outcome = runHeadless({
+        level,
+        inputs: [{ ticks: Infinity, fire: true }],
+        setup: holdBackSpawns,
+        afterStep: (world) => {
+          const bossPresent = world.obstacles.some((obstacle) => obstacle.isBoss);
+          if (bossPresent && killsWhenBossAppeared === null) {
+            killsWhenBossAppeared = world.destroyedThisLevel;
+          }
+          // Feed one target at a time into the line of fire until the threshold is reached
+          const targetAlive = world.obstacles.some((obstacle) => !obstacle.isBoss);
+          if (!targetAlive && world.destroyedThisLevel < threshold) {
+            placeObstacle(world, { x: 50, y: 25 }, 'small');
+          }
+        },
+        until: (world) => world.bossActive,
+      });
+
+      expectEqual(outcome.state, 'playing', 'state when the boss appeared');
+      expectEqual(killsWhenBossAppeared, threshold, 'kills when the boss appeared');
+      const boss = BOSSES[getCampaignBoss(level)];
+      expectEqual(outcome.world.boss?.kind, getCampaignBoss(level), 'boss kind');
+      expectEqual(outcome.bossHealth, boss.maxHealth, 'boss health on arrival');
+    },
+  };
+}
+
+const bossDefeatCompletesLevel: Scenario = {
+  name: 'boss loses one health per cannon hit, scores BOSS_SCORE and completes the level',
+  run: () => {
+    let hits = 0;
+    let lastHealth = BOSS_MAX_HEALTH;
+    const outcome = runHeadless({
+      inputs: [{ ticks: Infinity, fire: true }],
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeBoss(world, { x: 50, y: 20 });
+      },
+      afterStep: (world) => {
+        if (world.bossHealth < lastHealth) hits++;
+        lastHealth = world.bossHealth;
+      },
+    });
+
+    expectEqual(outcome.state, 'levelcomplete', 'state');
+    expectEqual(outcome.bossHealth, 0, 'boss health');
+    expectEqual(hits, BOSS_MAX_HEALTH / WEAPONS.cannon.damage, 'boss hits taken');
+    expectEqual(outcome.score, BOSS_SCORE, 'score');
+    expectTrue(!outcome.world.bossActive, 'boss should no longer be active');
+  },
+};
+
+const bossPhasesFollowHealth: Scenario = {
+  name: 'a boss moves through its phases as its health drops',
+  run: () => {
+    const { phases, maxHealth } = BOSSES[getCampaignBoss(1)];
+    const phaseEntries: { phase: number; health: number }[] = [];
+    runHeadless({
+      inputs: [{ ticks: Infinity, fire: true }],
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeBoss(world, { x: 50, y: 20 });
+      },
+      afterStep: (world) => {
+        const phase = world.boss?.phase;
+        if (phase !== undefined && phase !== phaseEntries[phaseEntries.length - 1]?.phase) {
+          phaseEntries.push({ phase, health: world.bossHealth });
+        }
+      },
+    });
+
+    expectEqual(phaseEntries.map((entry) => entry.phase).join(','), phases.map((_, i) => i).join(','), 'phases entered');
+    phaseEntries.forEach(({ phase, health }) => {
+      expectTrue(health <= phases[phase].startsAt * maxHealth, `phase ${phase} started too early, at ${health} health`);
+    });
+  },
+};
+
+// Park the boss of a level at the top of the field and watch it for a while without shooting back
+function watchBoss(level: number, seconds: number, afterStep: (world: GameWorld) => void = () => {}) {
+  return runHeadless({
+    level,
+    maxTicks: seconds * TICKS_PER_SECOND,
+    setup: (world) => {
+      holdBackSpawns(world);
+      placeBoss(world, { x: 50, y: 20 });
+    },
+    afterStep,
+  });
+}
+
+const bossFiresRadialBursts: Scenario = {
+  name: 'a boss radial burst fires a ring of shots',
+  run: () => {
+    const [burst] = BOSSES.warden.phases[0].attacks;
+    if (burst.type !== 'radialBurst') throw new Error('the warden should open with a radial burst');
+
+    let mostShots = 0;
+    watchBoss(1, (burst.interval + 500) / 1000, (world) => {
+      mostShots = Math.max(mostShots, world.enemyShots.length);
+    });
+    expectEqual(mostShots, burst.count, 'shots in the ring');
+  },
+};
+
+const bossSummonsMinions: Scenario = {
+  name: 'a boss summons minions around itself',
+  run: () => {
+    const [summon] = BOSSES.hive.phases[0].attacks;
+    if (summon.type !== 'summon') throw new Error('the hive should open by summoning');
+
+    const outcome = watchBoss(2, (summon.interval + 100) / 1000);
+    const minions = outcome.world.obstacles.filter((obstacle) => !obstacle.isBoss);
+    expectEqual(minions.length, summon.count, 'minions');
+    expectTrue(minions.every((minion) => minion.kind === summon.enemy), 'minions should be the summoned kind');
+  },
+};
+
+const bossChargesJet: Scenario = {
+  name: 'a charging boss winds up, then dashes into the jet',
+  run: () => {
+    const stages = new Set<string>();
+    const outcome = watchBoss(3, 7, (world) => {
+      if (world.boss?.charge) stages.add(world.boss.charge.stage);
+    });
+    expectTrue(stages.has('windup') && stages.has('dash'), 'the boss should have wound up and dashed');
+    expectTrue(outcome.world.player.shield < PLAYER_SHIELD_MAX, 'the dash should have hit the jet');
+  },
+};
+
+// Fire at a shielded boss from below for a second, with its weak point starting at the given angle
+function shieldedBossHealthLost(weakPointAngle: number): number {
+  const { phases, maxHealth } = BOSSES.hive;
+  const shieldPhase = phases.findIndex((phase) => phase.shield);
+  const startHealth = phases[shieldPhase].startsAt * maxHealth;
+  const outcome = runHeadless({
+    level: 2,
+    maxTicks: TICKS_PER_SECOND,
+    inputs: [{ ticks: Infinity, fire: true }],
+    setup: (world) => {
+      holdBackSpawns(world);
+      placeBoss(world, { x: 50, y: 20 });
+      world.bossHealth = startHealth;
+      world.boss!.weakPointAngle = weakPointAngle;
+    },
+  });
+  return startHealth - outcome.bossHealth;
+}
+
+const shieldedBossWeakPoint: Scenario = {
+  name: 'a shielded boss only takes damage through its weak point',
+  run: () => {
+    expectEqual(shieldedBossHealthLost(0), 0, 'damage with the weak point facing away');
+    expectTrue(shieldedBossHealthLost(180) > 0, 'hits on the weak point should do damage');
+  },
+};
+
+// Fly right into the border until the run ends, counting respawns and the lowest shield seen
+function flyIntoBorder(border: BorderMode) {
+  let respawns = 0;
+  let wasRespawning = false;
+  let lowestShield = PLAYER_SHIELD_MAX;
+  let bouncedBack = false;
+  const outcome = runHeadless({
+    border,
+    inputs: [{ ticks: Infinity, move: { x: 1, y: 0 } }],
+    setup: (world) => {
+      holdBackSpawns(world);
+      world.timeRemaining = Number.MAX_SAFE_INTEGER; // Bouncing off the wall takes a while
+    },
+    afterStep: (world) => {
+      const respawning = world.player.respawnTime > 0;
+      if (wasRespawning && !respawning) respawns++;
+      wasRespawning = respawning;
+      lowestShield = Math.min(lowestShield, world.player.shield);
+      if (world.player.knockback.x < 0) bouncedBack = true;
+    },
+  });
+  return { outcome, respawns, lowestShield, bouncedBack };
+}
+
+const lethalBorderEndsRun: Scenario = {
+  name: 'a lethal border costs a life on every touch, shield or not, then ends the run',
+  run: () => {
+    const { outcome, respawns, lowestShield } = flyIntoBorder('lethal');
+
+    expectEqual(outcome.state, 'gameover', 'state');
+    expectEqual(outcome.gameOverReason, 'border', 'game over reason');
+    expectEqual(outcome.lives, 0, 'lives left');
+    expectEqual(respawns, PLAYER_LIVES - 1, 'respawns');
+    expectEqual(lowestShield, PLAYER_SHIELD_MAX, 'lowest shield');
+    expectTrue(outcome.world.player.position.x > 50, 'jet should have moved right');
+  },
+};
+
+const bouncingBorderWearsDownShield: Scenario = {
+  name: 'a bouncing border knocks the jet back and wears down the shield before each life',
+  run: () => {
+    const { outcome, respawns, lowestShield, bouncedBack } = flyIntoBorder('bounce');
+
+    expectEqual(outcome.state, 'gameover', 'state');
+    expectEqual(outcome.gameOverReason, 'border', 'game over reason');
+    expectEqual(outcome.lives, 0, 'lives left');
+    expectEqual(respawns, PLAYER_LIVES - 1, 'respawns');
+    expectTrue(lowestShield < PLAYER_SHIELD_HIT_DRAIN, 'shield should have been worn below one hit');
+    expectTrue(bouncedBack, 'jet should have been knocked back off the wall');
+  },
+};
+
+const wrapBorderWrapsEverything: Scenario = {
+  name: 'a wrap-around border sends the jet, bullets and obstacles back in from the opposite side',
+  run: () => {
+    let jetWrapped = false;
+    let obstacleWrapped = false;
+    let bulletWrapped = false;
+    let lastJetX = 50;
+    const outcome = runHeadless({
+      border: 'wrap',
+      maxTicks: 5 * TICKS_PER_SECOND,
+      inputs: [
+        { ticks: 2 * TICKS_PER_SECOND, fire: true },
+        { ticks: Infinity, fire: false, move: { x: 1, y: 0 } },
+      ],
+      setup: (world) => {
+        holdBackSpawns(world);
+        world.player.position = { x: 95, y: 50 };
+        placeObstacle(world, { x: 10, y: 85 }, 'small', { x: -OBSTACLE_SPEED, y: 0 });
+      },
+      afterStep: (world) => {
+        if (world.player.position.x < lastJetX - 50) jetWrapped = true;
+        lastJetX = world.player.position.x;
+        if (world.obstacles.some((obstacle) => obstacle.position.x > 90)) obstacleWrapped = true;
+        // Bullets fly up from the jet, so one below it came back in through the bottom
+        if (world.bullets.some((bullet) => bullet.position.y > 60)) bulletWrapped = true;
+      },
+    });
+
+    expectEqual(outcome.state, 'playing', 'state');
+    expectEqual(outcome.lives, PLAYER_LIVES, 'lives left');
+    expectTrue(jetWrapped, 'jet should have wrapped from the right edge to the left');
+    expectTrue(obstacleWrapped, 'obstacle should have wrapped from the left edge to the right');
+    expectTrue(bulletWrapped, 'a bullet should have wrapped from the top edge to the bottom');
+    expectEqual(outcome.world.bullets.length, 0, 'bullets left after burning out');
+    expectEqual(outcome.world.obstacles.length, 1, 'obstacles in play');
+  },
+};
+
+function obstacleOnJetEndsRun(hitboxes: HitboxMode): Scenario {
+  return {
+    name: `an obstacle parked on the jet takes every life and ends the run (${hitboxes} hitboxes)`,
+    run: () => {
+      const outcome = runHeadless({
+        hitboxes,
+        setup: (world) => {
+          holdBackSpawns(world);
+          placeObstacle(world, { ...world.player.position }, 'large');
+        },
+      });
+
+      expectEqual(outcome.state, 'gameover', 'state');
+      expectEqual(outcome.gameOverReason, 'obstacle', 'game over reason');
+      expectEqual(outcome.lives, 0, 'lives left');
+      expectEqual(outcome.score, 0, 'score');
+    },
+  };
+}
+
+const shieldedHitKnocksBack: Scenario = {
+  name: 'a shielded hit drains the shield, knocks the jet back and makes it briefly invulnerable',
+  run: () => {
+    let hitTick: number | null = null;
+    const outcome = runHeadless({
+      maxTicks: TICKS_PER_SECOND,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeObstacle(world, { x: 50, y: 47 }, 'large');
+      },
+      afterStep: (world) => {
+        if (hitTick === null && world.player.shield < PLAYER_SHIELD_MAX) hitTick = world.tick;
+      },
+      until: (world) => hitTick !== null && world.tick >= hitTick + 10,
+    });
+
+    const { player } = outcome.world;
+    expectEqual(outcome.state, 'playing', 'state');
+    expectEqual(outcome.lives, PLAYER_LIVES, 'lives left');
+    expectEqual(player.shield, PLAYER_SHIELD_MAX - PLAYER_SHIELD_HIT_DRAIN, 'shield');
+    expectTrue(player.invulnerableTime > 0, 'jet should be invulnerable after the hit');
+    expectTrue(player.position.y > 50, 'jet should have been knocked down, away from the obstacle');
+  },
+};
+
+const unshieldedHitCostsLife: Scenario = {
+  name: 'an unshielded hit costs a life and respawns the jet at the center',
+  run: () => {
+    let died = false;
+    const outcome = runHeadless({
+      maxTicks: 5 * TICKS_PER_SECOND,
+      setup: (world) => {
+        holdBackSpawns(world);
+        world.player.shield = 0;
+        world.player.position = { x: 50, y: 80 };
+        placeObstacle(world, { x: 50, y: 80 }, 'large');
+      },
+      afterStep: (world) => {
+        if (world.player.respawnTime > 0) died = true;
+      },
+      until: (world) => died && world.player.respawnTime === 0,
+    });
+
+    const { player } = outcome.world;
+    expectEqual(outcome.state, 'playing', 'state');
+    expectEqual(outcome.lives, PLAYER_LIVES - 1, 'lives left');
+    expectEqual(player.position.x, 50, 'respawn x');
+    expectEqual(player.position.y, 50, 'respawn y');
+    expectEqual(player.shield, PLAYER_SHIELD_MAX, 'shield after respawning');
+    expectEqual(player.invulnerableTime, PLAYER_RESPAWN_INVULNERABILITY, 'invulnerability after respawning');
+  },
+};
+
+function timerRunsOut(level: number): Scenario {
+  return {
+    name: `level ${level} ends with timeExpired after its time limit`,
+    run: () => {
+      let ticksPlayed = 0;
+      const outcome = runHeadless({
+        level,
+        setup: holdBackSpawns,
+        afterStep: (world) => {
+          if (world.state === 'playing') ticksPlayed++;
+        },
+      });
+
+      expectEqual(outcome.gameOverReason, 'timeExpired', 'game over reason');
+      expectEqual(outcome.timeRemaining, 0, 'time remaining');
+      expectEqual(outcome.level, level, 'level');
+      // Repeated float subtraction may land the zero crossing one step late
+      const expectedTicks = getLevelDefinition(DEFAULT_LEVEL_PACK, level).timeLimit * TICKS_PER_SECOND;
+      expectTrue(
+        Math.abs(ticksPlayed + 1 - expectedTicks) <= 1,
+        `expected about ${expectedTicks} ticks of play, got ${ticksPlayed + 1}`
+      );
+    },
+  };
+}
+
+// Time limit, enemy speed and kill target of the original endless campaign
+const campaignKeepsScaling: Scenario = {
+  name: 'the campaign keeps scaling past its listed levels',
+  run: () => {
+    for (const level of [11, 12, 20, 40]) {
+      const definition = getLevelDefinition(DEFAULT_LEVEL_PACK, level);
+      expectEqual(definition.timeLimit, 30 + (level - 1) * 5, `level ${level} time limit`);
+      expectTrue(Math.abs(definition.speedScale - (1 + (level - 1) * 0.15)) < 1e-9, `level ${level} speed should scale by 15% a level`);
+      expectEqual(getKillTarget(definition), level * 5, `level ${level} kill target`);
+    }
+
+    const outcome = runHeadless({ level: 14, maxTicks: 1, setup: holdBackSpawns });
+    expectTrue(Math.abs(outcome.timeRemaining - 95) < 0.1, `level 14 should start with 95 s, got ${outcome.timeRemaining}`);
+
+    // A copy of the campaign, such as one exported and imported again, carries on the same way
+    const copy = parseLevelPack(JSON.stringify(DEFAULT_LEVEL_PACK));
+    expectEqual(getLevelDefinition(copy, 15).timeLimit, 100, 'level 15 time limit of a campaign copy');
+    expectEqual(getKillTarget(getLevelDefinition(copy, 15)), 75, 'level 15 kill target of a campaign copy');
+    expectEqual(getLevelDefinition(copy, 15).theme, getLevelDefinition(DEFAULT_LEVEL_PACK, 15).theme, 'level 15 theme of a campaign copy');
+    // Without the endless flag, a pack repeats its last level
+    const finite = { ...copy, endless: undefined };
+    expectEqual(getLevelDefinition(finite, 15), copy.levels[9], 'level 15 of a pack that is not endless');
+  },
+};
+
+const wavesSpawnOnSchedule: Scenario = {
+  name: 'a wave spawns its enemies from its start time, one interval apart, then stops',
+  run: () => {
+    const spawnTicks: number[] = [];
+    const seen = new Set<number>();
+    runHeadless({
+      levels: singleLevelPack({
+        waves: [{ enemy: 'armored', size: 'small', count: 3, edge: 'top', pattern: 'scatter', start: 2, interval: 1000 }],
+      }),
+      maxTicks: 6 * TICKS_PER_SECOND,
+      afterStep: (world) => {
+        for (const obstacle of world.obstacles) {
+          if (seen.has(obstacle.id)) continue;
+          seen.add(obstacle.id);
+          expectEqual(`${obstacle.kind} ${obstacle.size}`, 'armored small', 'spawned enemy');
+          spawnTicks.push(world.tick);
+        }
+      },
+    });
+
+    const expected = [3000, 4000, 5000].map((ms) => Math.round((ms / 1000) * TICKS_PER_SECOND));
+    expectEqual(spawnTicks.length, expected.length, 'enemies spawned');
+    spawnTicks.forEach((tick, i) => {
+      expectTrue(Math.abs(tick - expected[i]) <= 1, `spawn ${i + 1}: expected about tick ${expected[i]}, got ${tick}`);
+    });
+  },
+};
+
+const wavesAreTelegraphed: Scenario = {
+  name: 'a wave group is marked at its edge ahead of time and still arrives on schedule',
+  run: () => {
+    let announcedTick = -1;
+    let arrivalTick = -1;
+    const arrivals: ObstacleData[] = [];
+    runHeadless({
+      levels: singleLevelPack({
+        waves: [{ enemy: 'drifter', size: 'small', count: 1, edge: 'bottom', pattern: 'scatter', start: 2, interval: 1000 }],
+      }),
+      maxTicks: 4 * TICKS_PER_SECOND,
+      afterStep: (world) => {
+        if (announcedTick < 0 && world.incoming.length > 0) {
+          announcedTick = world.tick;
+          expectTrue(world.incoming[0].position.y > 100, 'marked enemy should enter from below the field');
+        }
+        if (arrivalTick < 0 && world.obstacles.length > 0) {
+          arrivalTick = world.tick;
+          arrivals.push(...world.obstacles);
+          expectEqual(world.incoming.length, 0, 'markers left once the group arrived');
+        }
+      },
+      until: () => arrivalTick >= 0,
+    });
+
+    const expectedArrival = 3 * TICKS_PER_SECOND;
+    const expectedAnnounce = expectedArrival - Math.round((WAVE_TELEGRAPH_TIME / 1000) * TICKS_PER_SECOND);
+    expectTrue(Math.abs(announcedTick - expectedAnnounce) <= 1, `markers at tick ${announcedTick}, expected about ${expectedAnnounce}`);
+    expectTrue(Math.abs(arrivalTick - expectedArrival) <= 1, `arrival at tick ${arrivalTick}, expected about ${expectedArrival}`);
+    expectEqual(arrivals.length, 1, 'enemies arrived');
+    expectTrue(arrivals[0].position.y > 90 && arrivals[0].velocity.y < 0, 'enemy should fly up from the bottom edge');
+  },
+};
+
+const formationsLayOutGroups: Scenario = {
+  name: 'formations lay out their groups from the requested edge or around the jet',
+  run: () => {
+    const field = { width: 400, height: 700 };
+    const jet = { x: 50, y: 60 };
+    const layout = (pattern: Parameters<typeof layoutFormation>[1], edge: SpawnEdge = 'top') =>
+      layoutFormation(createRng(7), pattern, edge, field, jet);
+
+    // Every edge enters from outside the field, heading in; corner groups spread around the corner
+    const nearEdge = (value: number) => Math.min(Math.abs(value), Math.abs(100 - value)) < 30;
+    const outside: Record<SpawnEdge, (p: Position) => boolean> = {
+      top: (p) => p.y < 0,
+      bottom: (p) => p.y > 100,
+      left: (p) => p.x < 0,
+      right: (p) => p.x > 100,
+      sides: (p) => p.x < 0 || p.x > 100,
+      corners: (p) => (p.x < 0 || p.x > 100 || p.y < 0 || p.y > 100) && nearEdge(p.x) && nearEdge(p.y),
+    };
+    for (const [edge, isOutside] of Object.entries(outside) as [SpawnEdge, (p: Position) => boolean][]) {
+      for (const slot of layout('scatter', edge)) {
+        expectTrue(isOutside(slot.position), `${edge} scatter entered at ${slot.position.x.toFixed(1)},${slot.position.y.toFixed(1)}`);
+        const inward = { x: 50 - slot.position.x, y: 50 - slot.position.y };
+        expectTrue(slot.direction.x * inward.x + slot.direction.y * inward.y > 0, `${edge} scatter should head into the field`);
+      }
+    }
+
+    const vee = layout('vee', 'left');
+    expectEqual(vee.length, 5, 'V-formation size');
+    expectEqual(vee.map((slot) => slot.delay / vee[1].delay).join(','), '0,1,1,2,2', 'V-formation ranks');
+    expectTrue(vee.every((slot) => slot.position.x < 0 && slot.direction.x === 1), 'V-formation flies in from the left');
+
+    const line = layout('line', 'bottom');
+    expectEqual(line.length, 6, 'line size');
+    expectTrue(line.every((slot) => slot.delay === 0 && slot.direction.y === -1), 'line sweeps up together');
+    expectTrue(line[0].position.x < 10 && line[line.length - 1].position.x > 90, 'line spans the edge');
+
+    // A ring is centered on the jet, every member flying straight at it
+    const ring = layout('ring');
+    expectEqual(ring.length, 8, 'ring size');
+    for (const slot of ring) {
+      const out = {
+        x: ((slot.position.x - jet.x) / 100) * field.width,
+        y: ((slot.position.y - jet.y) / 100) * field.height,
+      };
+      expectTrue(Math.abs(Math.hypot(out.x, out.y) - 180) < 0.01, 'ring members should be equally far from the jet');
+      expectTrue(Math.abs(out.x * slot.direction.x + out.y * slot.direction.y + 180) < 0.01, 'ring members should close in on the jet');
+    }
+
+    // Spiral arms wind in on waypoints that all lie inside the field, each closer to the center
+    const spiral = layout('spiral');
+    expectEqual(spiral.length, 6, 'spiral arms');
+    for (const slot of spiral) {
+      const distances = (slot.waypoints ?? []).map((p) => Math.hypot(p.x - 50, p.y - 50));
+      expectTrue(distances.length > 0, 'spiral arms should have waypoints');
+      expectTrue((slot.waypoints ?? []).every((p) => p.x > 0 && p.x < 100 && p.y > 0 && p.y < 100), 'spiral waypoints inside the field');
+      expectTrue(distances.every((d, i) => i === 0 || d < distances[i - 1] + 10), 'spiral arms should close in on the center');
+    }
+  },
+};
+
+const surviveLevelClearsOnTimer: Scenario = {
+  name: 'a survival level clears when its timer runs out',
+  run: () => {
+    const outcome = runHeadless({ levels: singleLevelPack({ timeLimit: 3, win: { type: 'survive' } }) });
+
+    expectEqual(outcome.state, 'levelcomplete', 'state');
+    expectEqual(outcome.gameOverReason, null, 'game over reason');
+    expectTrue(Math.abs(outcome.ticks - 3 * TICKS_PER_SECOND) <= 1, `expected about 3 s of play, got ${outcome.ticks} ticks`);
+  },
+};
+
+const destroyLevelClearsOnKills: Scenario = {
+  name: 'a destroy level clears at its kill target without a boss',
+  run: () => {
+    const outcome = runHeadless({
+      levels: singleLevelPack({ win: { type: 'destroy', kills: 3 } }),
+      inputs: [{ ticks: Infinity, fire: true }],
+      afterStep: (world) => {
+        if (!world.obstacles.some((obstacle) => !obstacle.isBoss)) {
+          placeObstacle(world, { x: 50, y: 25 }, 'small');
+        }
+      },
+    });
+
+    expectEqual(outcome.state, 'levelcomplete', 'state');
+    expectEqual(outcome.destroyedThisLevel, 3, 'kills');
+    expectTrue(!outcome.world.obstacles.some((obstacle) => obstacle.isBoss), 'no boss should appear');
+  },
+};
+
+const wavesFollowSpawnPaths: Scenario = {
+  name: 'an enemy spawned on a drawn path flies through its waypoints in order',
+  run: () => {
+    const path = [{ x: 10, y: 10 }, { x: 90, y: 15 }, { x: 85, y: 85 }];
+    const reached: Position[] = [];
+    let remaining = path.length - 1;
+    const outcome = runHeadless({
+      levels: singleLevelPack({
+        waves: [{ enemy: 'drifter', size: 'small', count: 1, edge: 'top', pattern: 'scatter', path, start: 0, interval: 100 }],
+      }),
+      maxTicks: 15 * TICKS_PER_SECOND,
+      afterStep: (world) => {
+        const enemy = world.obstacles[0];
+        if (!enemy) return;
+        const left = enemy.waypoints?.length ?? 0;
+        if (left < remaining) {
+          reached.push(enemy.position);
+          remaining = left;
+        }
+      },
+      until: () => remaining === 0,
+    });
+
+    expectEqual(outcome.state, 'playing', 'state');
+    expectEqual(reached.length, path.length - 1, 'waypoints reached');
+    reached.forEach((position, i) => {
+      const waypoint = path[i + 1];
+      expectTrue(
+        Math.abs(position.x - waypoint.x) < 4 && Math.abs(position.y - waypoint.y) < 4,
+        `waypoint ${i + 1} reached at ${position.x.toFixed(1)},${position.y.toFixed(1)} instead of ${waypoint.x},${waypoint.y}`
+      );
+    });
+  },
+};
+
+const playtestFastForwards: Scenario = {
+  name: 'playtesting from a later wave resumes waves already underway on their own schedule',
+  run: () => {
+    const stream = { edge: 'top', pattern: 'scatter', start: 0, interval: 1000 } as const;
+    const level = singleLevelPack({
+      waves: [
+        { ...stream, enemy: 'armored', size: 'small', count: 5 },
+        { ...stream, enemy: 'mine', size: 'small', count: 2 },
+        { ...stream, enemy: 'drifter', size: 'small', count: 1, start: 5 },
+      ],
+    }).levels[0];
+    // The playtest offset survives the trip through a replay's level pack
+    const resumed = validateLevelPack({ name: 'Scenario', levels: [fastForwardLevel(level, 3.5)] });
+    expectEqual(resumed.levels[0].playtestFrom, 3.5, 'playtest offset');
+    expectEqual(resumed.levels[0].waves.map((wave) => wave.start).join(','), '0,0,5', 'wave starts');
+
+    const arrivals: string[] = [];
+    const seen = new Set<number>();
+    runHeadless({
+      levels: resumed,
+      maxTicks: 3 * TICKS_PER_SECOND,
+      afterStep: (world) => {
+        for (const obstacle of world.obstacles) {
+          if (seen.has(obstacle.id)) continue;
+          seen.add(obstacle.id);
+          arrivals.push(`${obstacle.kind}@${world.tick}`);
+        }
+      },
+    });
+
+    // Armored groups came at 1, 2 and 3 s, so the last two are due at 4 and 5 s: 0.5 and 1.5 s into
+    // the playtest. Both mines have arrived already, and the drifter comes at 6 s.
+    const expected = [['armored', 500], ['armored', 1500], ['drifter', 2500]] as const;
+    expectEqual(arrivals.length, expected.length, `enemies spawned after resuming (${arrivals.join(', ')})`);
+    expected.forEach(([kind, ms], i) => {
+      const [arrivedKind, tick] = arrivals[i].split('@');
+      const expectedTick = Math.round((ms / 1000) * TICKS_PER_SECOND);
+      expectEqual(arrivedKind, kind, `resumed spawn ${i + 1}`);
+      expectTrue(Math.abs(Number(tick) - expectedTick) <= 1, `resumed spawn ${i + 1}: expected about tick ${expectedTick}, got ${tick}`);
+    });
+  },
+};
+
+function expectRejected(json: string, message: string): void {
+  try {
+    parseLevelPack(json);
+  } catch (error) {
+    const actual = error instanceof Error ? error.message : String(error);
+    expectTrue(actual.includes(message), `expected an error mentioning '${message}', got '${actual}'`);
+    return;
+  }
+  throw new Error(`expected '${json}' to be rejected`);
+}
+
+const levelPacksAreValidated: Scenario = {
+  name: 'level packs are validated with errors naming the bad field',
+  run: () => {
+    const campaign = JSON.stringify(DEFAULT_LEVEL_PACK);
+    expectEqual(JSON.stringify(validateLevelPack(JSON.parse(campaign))), campaign, 'campaign after a round trip');
+    // Packs saved before levels had drop tables get the campaign's table for each level's position
+    const withoutDrops = JSON.parse(campaign) as { levels: Partial<LevelDefinition>[] };
+    withoutDrops.levels.forEach((level) => delete level.drops);
+    const filled = validateLevelPack(withoutDrops).levels.map((level) => level.drops);
+    expectEqual(filled[1], LEVEL_DROP_TABLES[1], 'level 2 drops when omitted');
+    expectEqual(filled[9], LEVEL_DROP_TABLES[LEVEL_DROP_TABLES.length - 1], 'level 10 drops when omitted');
+
+    const withLevel = (level: object) => JSON.stringify(singleLevelPack(level as Partial<LevelDefinition>));
+    const wave = { enemy: 'drifter', edge: 'top', pattern: 'scatter', start: 0, interval: 1000 };
+    expectRejected('{"name": "Broken",', 'not valid JSON');
+    expectRejected('{"name": "Empty", "levels": []}', 'pack "levels" must be a non-empty list');
+    expectRejected(JSON.stringify({ ...singleLevelPack({}), endless: 'yes' }), 'pack "endless" must be true or false');
+    expectRejected(withLevel({ timeLimit: -5 }), 'level 1 "timeLimit" must be a number of at least 1');
+    expectRejected(withLevel({ theme: 'disco' }), 'level 1 "theme" must be one of grid, nebula, ember, abyss');
+    expectRejected(withLevel({ win: { type: 'boss', boss: 'kraken', kills: 5 } }), 'level 1 win condition "boss" must be one of');
+    expectRejected(withLevel({ waves: [wave, { ...wave, enemy: 'dragon' }] }), 'level 1 wave 2 "enemy" must be one of random');
+    expectRejected(withLevel({ waves: [{ ...wave, count: 2.5 }] }), 'level 1 wave 1 "count" must be a whole number');
+    expectRejected(withLevel({ waves: [{ ...wave, pattern: 'ring', interval: 1 }] }), 'level 1 wave 1 "interval" must be a number of at least 100');
+    expectRejected(withLevel({ waves: [{ ...wave, start: -0.5 }] }), 'level 1 wave 1 "start" must be a number of at least 0');
+    expectRejected(withLevel({ waves: [{ ...wave, enemy: 'random', size: 'large' }] }), 'can only be set for a specific enemy');
+    expectRejected(withLevel({ drops: { chance: 1.5, entries: [] } }), 'level 1 drops "chance" must be at most 1');
+    expectRejected(
+      withLevel({ drops: { chance: 0.2, entries: [{ kind: 'laser', weight: 1 }] } }),
+      'level 1 drops entry 1 "kind" must be one of rapidFire'
+    );
+    expectRejected(
+      withLevel({ waves: [{ ...wave, path: [{ x: 50, y: -5 }, { x: 50, y: 120 }] }] }),
+      'level 1 wave 1 path point 2 must lie between 0 and 100'
+    );
+  },
+};
+
+const heavyObstaclesShrugOffLightOnes: Scenario = {
+  name: 'a small obstacle barely moves a large one and cannot move the boss',
+  run: () => {
+    let largeId = -1;
+    let bossId = -1;
+    const outcome = runHeadless({
+      maxTicks: 2 * TICKS_PER_SECOND,
+      setup: (world) => {
+        holdBackSpawns(world);
+        world.player.position = { x: 50, y: 90 };
+        world.player.previousPosition = world.player.position;
+        placeObstacle(world, { x: 30, y: 20 }, 'small', { x: OBSTACLE_SPEED, y: 0 });
+        largeId = placeObstacle(world, { x: 45, y: 20 }, 'large').id;
+        placeObstacle(world, { x: 30, y: 60 }, 'small', { x: OBSTACLE_SPEED, y: 0 });
+        bossId = placeBoss(world, { x: 60, y: 60 }).id;
+      },
+    });
+
+    const largeAfter = outcome.world.obstacles.find((obstacle) => obstacle.id === largeId);
+    const bossAfter = outcome.world.obstacles.find((obstacle) => obstacle.id === bossId);
+    expectTrue(largeAfter !== undefined && bossAfter !== undefined, 'obstacles should still be in play');
+    expectTrue(largeAfter!.velocity.x > 0, 'large obstacle should be pushed along');
+    expectTrue(largeAfter!.velocity.x < OBSTACLE_SPEED, 'large obstacle should move slower than the small one hit it');
+    expectEqual(bossAfter!.velocity.x, 0, 'boss horizontal velocity');
+    expectTrue(Math.abs(bossAfter!.position.x - 60) < 1e-9, 'boss should not be pushed sideways');
+  },
+};
+
+function replayMatchesRun(hitboxes: HitboxMode, border: BorderMode = 'lethal'): Scenario {
+  return {
+    name: `a recorded run plays back identically (${hitboxes} hitboxes, ${border} border)`,
+    run: () => {
+      const seed = 42;
+      const playfield = { width: 400, height: 700 };
+      const replay = createReplay(seed, playfield, 1, hitboxes, border);
+      const recorded = { x: 0, y: 0, magnitude: 0, fire: false };
+      const recordedAim = { x: 0, y: 0, magnitude: 0 };
+      const weaponSwitches = new Map<number, WeaponKind>([[400, 'laser'], [800, 'homing'], [1100, 'charge']]);
+
+      const outcome = runHeadless({
+        ...playfield,
+        seed,
+        hitboxes,
+        border,
+        inputs: [
+          { ticks: 90, fire: true },
+          { ticks: 240, move: { x: -0.6, y: -0.3 } },
+          { ticks: 240, move: { x: 0.7, y: 0.2 } },
+          { ticks: 240, move: { x: 0, y: -0.5 }, fire: false },
+          { ticks: 300, move: { x: 0.4, y: 0.4 }, fire: true },
+          { ticks: 300, move: { x: -0.4, y: 0.2 }, aim: { x: 0.6, y: -0.8 } },
+        ],
+        // Record input changes the way live play does, stamped with the tick they apply to
+        beforeStep: (world, inputs) => {
+          const weapon = weaponSwitches.get(world.tick);
+          if (weapon) {
+            selectWeapon(world, weapon);
+            recordReplayEvent(replay, { tick: world.tick, type: 'weapon', weapon });
+          }
+          const { move, aim, fire } = inputs;
+          if (move.x !== recorded.x || move.y !== recorded.y || move.magnitude !== recorded.magnitude) {
+            recordReplayEvent(replay, { tick: world.tick, type: 'move', ...move });
+            Object.assign(recorded, move);
+          }
+          if (aim.x !== recordedAim.x || aim.y !== recordedAim.y || aim.magnitude !== recordedAim.magnitude) {
+            recordReplayEvent(replay, { tick: world.tick, type: 'aim', ...aim });
+            Object.assign(recordedAim, aim);
+          }
+          if (fire !== recorded.fire) {
+            recordReplayEvent(replay, { tick: world.tick, type: 'fire', active: fire });
+            recorded.fire = fire;
+          }
+        },
+      });
+      finishReplay(replay, outcome.world);
+
+      const playback = createReplayPlayback(replay);
+      while (stepReplay(playback)) {
+        // Play the recording to its end
+      }
+
+      expectEqual(playback.world.tick, outcome.world.tick, 'ticks');
+      expectEqual(playback.world.score, outcome.score, 'score');
+      expectEqual(playback.world.gameOverReason, outcome.gameOverReason, 'game over reason');
+      expectEqual(playback.world.obstacles.length, outcome.world.obstacles.length, 'obstacles in play');
+      expectEqual(playback.world.player.position.x, outcome.world.player.position.x, 'jet x');
+      expectEqual(playback.world.player.position.y, outcome.world.player.position.y, 'jet y');
+    },
+  };
+}
+
+const bombClearsObstacles: Scenario = {
+  name: 'a bomb pickup destroys every regular obstacle and counts them toward the boss',
+  run: () => {
+    const outcome = runHeadless({
+      maxTicks: 1,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeObstacle(world, { x: 20, y: 15 }, 'small');
+        placeObstacle(world, { x: 80, y: 15 }, 'medium');
+        placeObstacle(world, { x: 50, y: 80 }, 'large');
+        placePickup(world, { ...world.player.position }, 'bomb');
+      },
+    });
+
+    expectEqual(outcome.world.obstacles.length, 0, 'obstacles left');
+    expectEqual(outcome.destroyedThisLevel, 3, 'obstacles destroyed');
+    expectEqual(outcome.score, SCORE_SMALL + SCORE_MEDIUM + SCORE_LARGE, 'score');
+  },
+};
+
+const shieldAbsorbsObstacles: Scenario = {
+  name: 'a shield destroys obstacles on contact instead of ending the run',
+  run: () => {
+    const outcome = runHeadless({
+      maxTicks: TICKS_PER_SECOND,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placePickup(world, { ...world.player.position }, 'shield');
+        placeObstacle(world, { x: 50, y: 42 }, 'large', { x: 0, y: OBSTACLE_SPEED });
+      },
+    });
+
+    expectEqual(outcome.state, 'playing', 'state');
+    expectEqual(outcome.destroyedThisLevel, 1, 'obstacles destroyed');
+    expectEqual(outcome.world.powerUps[0]?.kind, 'shield', 'running power-up');
+    expectTrue(outcome.world.powerUps[0].remaining < POWER_UP_DURATIONS.shield, 'shield should be counting down');
+  },
+};
+
+function countBulletsFired(powerUp: PowerUpKind | null): number {
+  let fired = 0;
+  let lastId = -1;
+  runHeadless({
+    maxTicks: TICKS_PER_SECOND,
+    inputs: [{ ticks: Infinity, fire: true }],
+    setup: (world) => {
+      holdBackSpawns(world);
+      if (powerUp) placePickup(world, { ...world.player.position }, powerUp);
+    },
+    afterStep: (world) => {
+      for (const bullet of world.bullets) {
+        if (bullet.id > lastId) {
+          fired++;
+          lastId = bullet.id;
+        }
+      }
+    },
+  });
+  return fired;
+}
+
+const firepowerPowerUps: Scenario = {
+  name: 'rapid fire doubles the fire rate and spread shot triples each shot',
+  run: () => {
+    const normal = countBulletsFired(null);
+    expectEqual(countBulletsFired('rapidFire'), normal * 2, 'bullets fired with rapid fire');
+    expectEqual(countBulletsFired('spreadShot'), normal * 3, 'bullets fired with spread shot');
+  },
+};
+
+const pickupsExpire: Scenario = {
+  name: 'uncollected pickups disappear after PICKUP_LIFETIME',
+  run: () => {
+    let lastSeenTick = 0;
+    runHeadless({
+      maxTicks: 2 * PICKUP_LIFETIME / FIXED_TIMESTEP,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placePickup(world, { x: 50, y: 10 }, 'timeBonus');
+      },
+      afterStep: (world) => {
+        if (world.pickups.length > 0) lastSeenTick = world.tick;
+      },
+    });
+
+    const expectedTicks = Math.round(PICKUP_LIFETIME / FIXED_TIMESTEP);
+    expectTrue(
+      Math.abs(lastSeenTick + 1 - expectedTicks) <= 1,
+      `expected the pickup to last about ${expectedTicks} ticks, got ${lastSeenTick + 1}`
+    );
+  },
+};
+
+// Power-ups left behind by shooting down a row of small obstacles under the given drop table
+function countDrops(drops: LevelDefinition['drops']): PowerUpKind[] {
+  const outcome = runHeadless({
+    levels: singleLevelPack({ drops }),
+    maxTicks: 4 * TICKS_PER_SECOND,
+    setup: (world) => {
+      holdBackSpawns(world);
+      for (const y of [12, 24, 36]) placeObstacle(world, { x: 50, y }, 'small');
+    },
+    beforeStep: (_world, inputs) => {
+      inputs.fire = true;
+    },
+    until: (world) => world.obstacles.length === 0,
+  });
+  return outcome.world.pickups.map((pickup) => pickup.kind);
+}
+
+const levelsSetTheirDrops: Scenario = {
+  name: "destroyed obstacles drop power-ups from the level's own drop table",
+  run: () => {
+    expectEqual(countDrops({ chance: 1, entries: [{ kind: 'bomb', weight: 1 }] }).join(','), 'bomb,bomb,bomb', 'drops at full chance');
+    expectEqual(countDrops({ chance: 0, entries: [{ kind: 'bomb', weight: 1 }] }).length, 0, 'drops at no chance');
+  },
+};
+
+// Fire a single shot of the given weapon at the scenario's targets and run until it is gone.
+// The trigger is held until the first bullet leaves, or for `chargeTicks` with a charge weapon.
+function fireOneShot(
+  weapon: WeaponKind,
+  setup: (world: GameWorld) => void,
+  chargeTicks = 1
+): ReturnType<typeof runHeadless> {
+  let fired = false;
+  let held = 0;
+  return runHeadless({
+    maxTicks: 4 * TICKS_PER_SECOND,
+    setup: (world) => {
+      holdBackSpawns(world);
+      selectWeapon(world, weapon);
+      setup(world);
+    },
+    beforeStep: (_world, inputs) => {
+      inputs.fire = WEAPONS[weapon].charge ? held++ < chargeTicks : !fired;
+    },
+    afterStep: (world) => {
+      if (world.bullets.length > 0) fired = true;
+    },
+    until: (world) => fired && world.bullets.length === 0,
+  });
+}
+
+const laserPierces: Scenario = {
+  name: 'one laser bolt pierces every obstacle in its path',
+  run: () => {
+    const outcome = fireOneShot('laser', (world) => {
+      placeObstacle(world, { x: 50, y: 35 }, 'small');
+      placeObstacle(world, { x: 50, y: 25 }, 'medium');
+      placeObstacle(world, { x: 50, y: 12 }, 'large');
+    });
+
+    expectEqual(outcome.destroyedThisLevel, 3, 'obstacles destroyed');
+    expectEqual(outcome.world.obstacles.length, 0, 'obstacles left');
+  },
+};
+
+const chargeScalesDamage: Scenario = {
+  name: 'a charge shot deals more damage the longer the trigger is held',
+  run: () => {
+    const { maxTime, maxDamage } = WEAPONS.charge.charge!;
+    const bossHealthAfter = (holdTicks: number) =>
+      fireOneShot('charge', (world) => placeBoss(world, { x: 50, y: 20 }), holdTicks).bossHealth;
+
+    const tap = bossHealthAfter(1);
+    const full = bossHealthAfter(Math.ceil(maxTime / FIXED_TIMESTEP));
+    expectTrue(tap < BOSS_MAX_HEALTH, 'a tapped charge shot should still hit');
+    expectTrue(BOSS_MAX_HEALTH - tap < 2 * WEAPONS.charge.damage, 'a tapped charge shot should be weak');
+    expectEqual(full, BOSS_MAX_HEALTH - maxDamage, 'boss health after a full charge');
+  },
+};
+
+const twinStickAimsIndependently: Scenario = {
+  name: 'the twin-stick aim points the guns independently of the jet heading',
+  run: () => {
+    const outcome = runHeadless({
+      maxTicks: TICKS_PER_SECOND / 2,
+      inputs: [{ ticks: Infinity, move: { x: 0.5, y: 0 }, aim: { x: 0, y: -1 }, fire: true }],
+      setup: holdBackSpawns,
+    });
+
+    const { player, bullets } = outcome.world;
+    expectEqual(Math.round(player.facingAngle), 90, 'jet heading');
+    expectEqual(Math.round(player.aimAngle), 0, 'aim angle');
+    expectTrue(bullets.length > 0, 'the jet should have fired');
+    for (const bullet of bullets) {
+      expectTrue(bullet.velocity.y < 0 && Math.abs(bullet.velocity.x) < 1e-6, 'bullets should fly straight up');
+    }
+  },
+};
+
+const homingFindsTarget: Scenario = {
+  name: 'homing missiles steer into an obstacle off the line of fire',
+  run: () => {
+    const offAxis = (world: GameWorld) => placeObstacle(world, { x: 85, y: 30 }, 'small');
+
+    expectEqual(fireOneShot('cannon', offAxis).destroyedThisLevel, 0, 'cannon kills');
+    expectEqual(fireOneShot('homing', offAxis).destroyedThisLevel, 1, 'homing kills');
+  },
+};
+
+const armoredTakesSeveralHits: Scenario = {
+  name: 'an armored obstacle survives hits until its health runs out and scores extra',
+  run: () => {
+    let lowestHealth = ENEMIES.armored.health;
+    const outcome = runHeadless({
+      maxTicks: 4 * TICKS_PER_SECOND,
+      inputs: [{ ticks: Infinity, fire: true }],
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeObstacle(world, { x: 50, y: 30 }, 'medium', undefined, 'armored');
+      },
+      afterStep: (world) => {
+        for (const obstacle of world.obstacles) lowestHealth = Math.min(lowestHealth, obstacle.health);
+      },
+      until: (world) => world.destroyedThisLevel > 0,
+    });
+
+    expectEqual(outcome.destroyedThisLevel, 1, 'obstacles destroyed');
+    expectEqual(lowestHealth, 1, 'lowest health before breaking');
+    expectEqual(outcome.score, SCORE_MEDIUM * ENEMIES.armored.scoreMultiplier, 'score');
+  },
+};
+
+const splitterBreaksApart: Scenario = {
+  name: 'a shot splitter breaks into smaller splitters',
+  run: () => {
+    const outcome = fireOneShot('cannon', (world) => {
+      placeObstacle(world, { x: 50, y: 30 }, 'large', undefined, 'splitter');
+    });
+
+    const pieces = outcome.world.obstacles;
+    expectEqual(outcome.destroyedThisLevel, 1, 'obstacles destroyed');
+    expectEqual(pieces.length, ENEMIES.splitter.split!.count, 'pieces');
+    expectTrue(pieces.every((piece) => piece.kind === 'splitter' && piece.size === 'medium'), 'pieces should be medium splitters');
+  },
+};
+
+// Run a few seconds with one obstacle flying sideways across the top, away from the jet
+function shieldAfterSidewaysPass(kind: EnemyKind): number {
+  return runHeadless({
+    maxTicks: 5 * TICKS_PER_SECOND,
+    setup: (world) => {
+      holdBackSpawns(world);
+      placeObstacle(world, { x: 15, y: 15 }, 'small', { x: -OBSTACLE_SPEED, y: 0 }, kind);
+    },
+  }).world.player.shield;
+}
+
+const chaserHuntsJet: Scenario = {
+  name: 'a chaser steers into the jet where a drifter on the same path misses',
+  run: () => {
+    expectEqual(shieldAfterSidewaysPass('drifter'), PLAYER_SHIELD_MAX, 'shield after a drifter');
+    expectTrue(shieldAfterSidewaysPass('chaser') < PLAYER_SHIELD_MAX, 'the chaser should have hit the jet');
+  },
+};
+
+const shooterFiresAtJet: Scenario = {
+  name: 'a shooter fires projectiles that hit the jet',
+  run: () => {
+    let shotsSeen = 0;
+    const outcome = runHeadless({
+      maxTicks: 5 * TICKS_PER_SECOND,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeObstacle(world, { x: 50, y: 15 }, 'medium', undefined, 'shooter');
+      },
+      afterStep: (world) => {
+        shotsSeen = Math.max(shotsSeen, world.enemyShots.length);
+      },
+      until: (world) => world.player.shield < PLAYER_SHIELD_MAX,
+    });
+
+    expectTrue(shotsSeen > 0, 'the shooter should have fired');
+    expectEqual(outcome.world.player.shield, PLAYER_SHIELD_MAX - PLAYER_SHIELD_HIT_DRAIN, 'shield after a shot');
+    expectEqual(outcome.world.obstacles.length, 1, 'obstacles in play');
+  },
+};
+
+const mineDetonatesNearJet: Scenario = {
+  name: 'a mine arms when the jet comes close and its blast hits the jet',
+  run: () => {
+    const { fuse } = ENEMIES.mine.mine!;
+    const outcome = runHeadless({
+      maxTicks: Math.ceil(fuse / FIXED_TIMESTEP) + TICKS_PER_SECOND / 2,
+      setup: (world) => {
+        holdBackSpawns(world);
+        placeObstacle(world, { x: 50, y: 42 }, 'small', undefined, 'mine');
+        placeObstacle(world, { x: 50, y: 5 }, 'small', undefined, 'mine');
+      },
+    });
+
+    expectEqual(outcome.world.obstacles.length, 1, 'mines left');
+    expectEqual(outcome.world.obstacles[0].fuse, undefined, 'fuse of the distant mine');
+    expectEqual(outcome.world.player.shield, PLAYER_SHIELD_MAX - PLAYER_SHIELD_HIT_DRAIN, 'shield after the blast');
+    expectEqual(outcome.destroyedThisLevel, 0, 'obstacles destroyed');
+    expectEqual(outcome.score, 0, 'score');
+  },
+};
+
+// Standard-mapping controller holding its sticks at the given axes and the given buttons down
+function fakeGamepad(axes: number[], pressed: number[] = []): Gamepad {
+  const buttons = Array.from({ length: 17 }, (_, index) => ({
+    pressed: pressed.includes(index),
+    touched: pressed.includes(index),
+    value: pressed.includes(index) ? 1 : 0,
+  }));
+  return { axes, buttons, connected: true, mapping: 'standard' } as unknown as Gamepad;
+}
+
+const gamepadSticksHaveDeadzone: Scenario = {
+  name: 'controller sticks ignore drift inside the deadzone and top out at full deflection',
+  run: () => {
+    const read = (axes: number[]) => readGamepad(fakeGamepad(axes), DEFAULT_BINDINGS.buttons);
+
+    const inside = read([DEADZONE - 0.01, 0, 0, -(DEADZONE - 0.01)]);
+    expectEqual(inside.move.magnitude, 0, 'move just inside the deadzone');
+    expectEqual(inside.aim.magnitude, 0, 'aim just inside the deadzone');
+    // Both axes under the deadzone can still add up to a deflection past it
+    expectTrue(read([0.12, 0.12, 0, 0]).move.magnitude > DEADZONE, 'a diagonal past the deadzone should count');
+
+    const outside = read([DEADZONE + 0.01, 0, 0, -(DEADZONE + 0.01)]);
+    expectTrue(Math.abs(outside.move.magnitude - (DEADZONE + 0.01)) < 1e-9, 'move just outside the deadzone');
+    expectEqual(outside.move.x, DEADZONE + 0.01, 'move x just outside the deadzone');
+    expectTrue(Math.abs(outside.aim.magnitude - (DEADZONE + 0.01)) < 1e-9, 'aim just outside the deadzone');
+    const creep = processJoystickInput(outside.move).speedFactor;
+    expectTrue(creep > 0 && creep < 0.001, `just outside the deadzone the jet should barely creep, got ${creep}`);
+
+    const full = read([0, -1, 0, 0]);
+    expectEqual(full.move.magnitude, 1, 'move at full deflection');
+    // A stick pushed into its corner reads longer than 1, but steers no faster than one pushed straight
+    const corner = read([1, -1, 0, 0]);
+    expectEqual(corner.move.magnitude, 1, 'move pushed into the corner');
+    expectEqual(
+      processJoystickInput(corner.move).speedFactor,
+      processJoystickInput(full.move).speedFactor,
+      'corner speed against straight full deflection'
+    );
+  },
+};
+
+const RIGHT = { x: 1, y: 0, magnitude: 1 };
+const UP = { x: 0, y: -1, magnitude: 1 };
+const NEUTRAL = { x: 0, y: 0, magnitude: 0 };
+
+function describeStick(stick: { x: number; y: number; magnitude: number }): string {
+  return `${stick.x},${stick.y},${stick.magnitude}`;
+}
+
+const sticksFollowLatestSource: Scenario = {
+  name: 'the move and aim sticks follow whichever source moved them last',
+  run: () => {
+    const manager = createInputManager();
+    setSourceMove(manager, 'touch', RIGHT);
+    setSourceMove(manager, 'gamepad', UP);
+    expectEqual(describeStick(readInputFrame(manager).move), describeStick(UP), 'move after the controller');
+    setSourceMove(manager, 'touch', { x: -1, y: 0, magnitude: 1 });
+    expectEqual(describeStick(readInputFrame(manager).move), '-1,0,1', 'move after the touch stick again');
+    // Letting go of the latest stick hands steering back to one still held
+    setSourceMove(manager, 'touch', NEUTRAL);
+    expectEqual(describeStick(readInputFrame(manager).move), describeStick(UP), 'move once the touch stick is let go');
+    releaseSource(manager, 'gamepad');
+    expectEqual(describeStick(readInputFrame(manager).move), describeStick(NEUTRAL), 'move with nothing held');
+
+    setSourceAim(manager, 'gamepad', UP);
+    setSourceAim(manager, 'touch', RIGHT);
+    expectEqual(describeStick(readInputFrame(manager).aim), describeStick(RIGHT), 'aim after the touch aim stick');
+  },
+};
+
+const releasedAimHoldsOneFrame: Scenario = {
+  name: 'a released aim stick holds its aim for one more frame, then the guns follow the nose',
+  run: () => {
+    const manager = createInputManager();
+    setSourceAim(manager, 'touch', RIGHT);
+    setSourceFire(manager, 'touch', true);
+    readInputFrame(manager);
+
+    setSourceFire(manager, 'touch', false);
+    releaseAim(manager, 'touch');
+    expectEqual(describeStick(readInputFrame(manager).aim), describeStick(RIGHT), 'aim in the frame the stick is let go');
+    // Keyboard fire afterwards shoots along the nose, not the old aim
+    setSourceFire(manager, 'keyboard', true);
+    const next = readInputFrame(manager);
+    expectEqual(describeStick(next.aim), describeStick(NEUTRAL), 'aim in the frame after');
+    expectTrue(next.fire, 'keyboard fire should still fire');
+  },
+};
+
+const fireFromAnySource: Scenario = {
+  name: 'the trigger is held while any source holds it',
+  run: () => {
+    const manager = createInputManager();
+    setSourceFire(manager, 'keyboard', true);
+    setSourceFire(manager, 'gamepad', false);
+    expectEqual(readInputFrame(manager).fire, true, 'fire with the key held and the controller idle');
+    setSourceFire(manager, 'touch', true);
+    setSourceFire(manager, 'keyboard', false);
+    expectEqual(readInputFrame(manager).fire, true, 'fire with only the touch button held');
+    expectEqual(readInputFrame(manager).fire, true, 'fire is held across frames');
+    setSourceFire(manager, 'touch', false);
+    expectEqual(readInputFrame(manager).fire, false, 'fire with nothing held');
+  },
+};
+
+const pressesCountOnce: Scenario = {
+  name: 'pause and special reach the game once per press, confirm only the menus',
+  run: () => {
+    const manager = createInputManager();
+    const told: InputAction[] = [];
+    manager.onAction = (action) => told.push(action);
+
+    pressAction(manager, 'pause');
+    pressAction(manager, 'special');
+    const pressed = readInputFrame(manager);
+    expectTrue(pressed.pause && pressed.special, 'pause and special should be in the frame after the press');
+    const next = readInputFrame(manager);
+    expectTrue(!next.pause && !next.special, 'pause and special should not repeat in the next frame');
+
+    pressAction(manager, 'confirm');
+    const confirmed = readInputFrame(manager);
+    expectTrue(!confirmed.pause && !confirmed.special, 'confirm should not reach the game');
+    expectEqual(told.join(','), 'pause,special,confirm', 'presses told to the menus');
+  },
+};
+
+const defaultBindingsShareMenuInputs: Scenario = {
+  name: 'Start pauses and confirms, and A fires and confirms, by default',
+  run: () => {
+    const { buttons } = DEFAULT_BINDINGS;
+    expectEqual(getBoundActions<'buttons'>(buttons, 9).join(','), 'pause,confirm', 'actions on Start');
+    expectEqual(getBoundActions<'buttons'>(buttons, 0).join(','), 'fire,confirm', 'actions on A');
+
+    const start = readGamepad(fakeGamepad([0, 0, 0, 0], [9]), buttons);
+    expectTrue(start.pause && start.confirm && !start.fire, 'Start should read as pause and confirm');
+    const a = readGamepad(fakeGamepad([0, 0, 0, 0], [0]), buttons);
+    expectTrue(a.fire && a.confirm && !a.pause, 'A should read as fire and confirm');
+  },
+};
+
+const keyboardWithIdleGamepad: Scenario = {
+  name: 'a held key with an idle controller plugged in reads as the key alone',
+  run: () => {
+    const manager = createInputManager();
+    const { keys, buttons } = DEFAULT_BINDINGS;
+    setSourceMove(manager, 'keyboard', getKeyboardVector(['KeyD'], keys));
+    setSourceFire(manager, 'keyboard', true);
+    // The controller reports its resting state after the key went down
+    const idle = readGamepad(fakeGamepad([0.05, -0.05, 0, 0]), buttons);
+    setSourceMove(manager, 'gamepad', idle.move);
+    setSourceAim(manager, 'gamepad', idle.aim);
+    setSourceFire(manager, 'gamepad', idle.fire);
+
+    const frame = readInputFrame(manager);
+    expectEqual(describeStick(frame.move), describeStick(RIGHT), 'move');
+    expectEqual(describeStick(frame.aim), describeStick(NEUTRAL), 'aim');
+    expectTrue(frame.fire && !frame.pause && !frame.special, 'only fire should be held');
+  },
+};
+
+const rebindReplacesBinding: Scenario = {
+  name: 'rebinding replaces the binding in its slot and takes the input off clashing actions',
+  run: () => {
+    const moved = rebind(DEFAULT_BINDINGS, 'keys', 'fire', 0, 'KeyL');
+    expectEqual(moved.keys.fire.join(','), 'KeyL,KeyJ', 'fire keys');
+    expectEqual(getBoundActions<'keys'>(moved.keys, 'Space').length, 0, 'actions still on the replaced key');
+    expectEqual(DEFAULT_BINDINGS.keys.fire.join(','), 'Space,KeyJ', 'defaults after rebinding');
+
+    const taken = rebind(DEFAULT_BINDINGS, 'keys', 'special', 0, 'KeyJ');
+    expectEqual(taken.keys.special.join(','), 'KeyJ', 'special keys');
+    expectEqual(taken.keys.fire.join(','), 'Space', 'fire keys after special took J');
+
+    // A may pause instead of fire, and still confirm on the menus
+    const buttons = rebind(DEFAULT_BINDINGS, 'buttons', 'pause', 0, 0).buttons;
+    expectEqual(getBoundActions<'buttons'>(buttons, 0).join(','), 'pause,confirm', 'actions on A after rebinding pause');
+    expectEqual(getBoundActions<'buttons'>(buttons, 9).join(','), 'confirm', 'actions on Start after rebinding pause');
+  },
+};
+
+const tiltFollowsScreenRotation: Scenario = {
+  name: 'tilt readings turn into screen axes for every screen rotation',
+  run: () => {
+    const reading = { beta: 10, gamma: 4 };
+    const expected: [number, string][] = [
+      [0, '4,10'],
+      [90, '10,-4'],
+      [180, '-4,-10'],
+      [270, '-10,4'],
+      [-90, '-10,4'], // Older iOS reports landscape-right as -90
+    ];
+    for (const [angle, axes] of expected) {
+      const tilt = toScreenTilt(reading, angle);
+      expectEqual(`${tilt.x},${tilt.y}`, axes, `screen tilt at ${angle} degrees`);
+    }
+  },
+};
+
+const tiltSteersFromCalibratedPose: Scenario = {
+  name: 'tilt steers away from the calibrated pose, with a deadzone and full deflection at the limit',
+  run: () => {
+    const neutral = toScreenTilt({ beta: 40, gamma: 0 }, 0); // Held at a comfortable angle when calibrated
+    const steer = (beta: number, gamma: number) => getTiltVector(toScreenTilt({ beta, gamma }, 0), neutral);
+
+    expectEqual(steer(40, 0).magnitude, 0, 'magnitude at the calibrated pose');
+    const half = steer(40 + MAX_TILT / 2, 0);
+    expectEqual(describeStick(half), '0,0.5,0.5', 'half the limit past the calibrated pose');
+
+    const edge = DEADZONE * MAX_TILT;
+    expectEqual(steer(40, edge - 0.1).magnitude, 0, 'magnitude just inside the deadzone');
+    const past = steer(40, edge + 0.1);
+    expectTrue(Math.abs(past.magnitude - (edge + 0.1) / MAX_TILT) < 1e-9, 'magnitude just outside the deadzone');
+
+    expectEqual(describeStick(steer(40, MAX_TILT * 2)), '1,0,1', 'tilted twice the limit');
+    const corner = steer(40 + MAX_TILT, MAX_TILT);
+    expectEqual(corner.magnitude, 1, 'magnitude tilted to the limit on both axes');
+    expectTrue(Math.abs(corner.x - Math.SQRT1_2) < 1e-9 && Math.abs(corner.y - Math.SQRT1_2) < 1e-9, 'corner direction');
+
+    // Calibrated near the sensor's wrap-around, a small tilt across it stays small
+    const wrapped = getTiltVector(toScreenTilt({ beta: 0, gamma: -175 }, 0), toScreenTilt({ beta: 0, gamma: 170 }, 0));
+    expectTrue(Math.abs(wrapped.x - 15 / MAX_TILT) < 1e-9, `tilt across the wrap-around: expected x ${15 / MAX_TILT}, got ${wrapped.x}`);
+  },
+};
+
+const broadphaseMissesNothing: Scenario = {
+  name: 'spatial hash broadphase never misses an overlapping pair and runs far fewer pair tests',
+  run: () => {
+    const result = runBroadphaseBenchmark({ ticks: 240 });
+    expectTrue(result.ticks > 0, 'benchmark should simulate at least one tick');
+    expectEqual(result.missedOverlaps, 0, 'missed overlaps');
+    for (const pairs of ['obstacleObstacle', 'bulletObstacle', 'playerObstacle'] as const) {
+      const brute = result.bruteForce[pairs];
+      const hashed = result.spatialHash[pairs];
+      expectTrue(hashed * 10 <= brute, `${pairs} pair tests: the hash ran ${hashed} against ${brute} brute-force tests`);
+    }
+    return formatBroadphaseReport(result);
+  },
+};
+
+export const SCENARIOS: Scenario[] = [
+  bossAppearsAfterThreshold(1),
+  bossAppearsAfterThreshold(2),
+  bossAppearsAfterThreshold(3),
+  bossDefeatCompletesLevel,
+  bossPhasesFollowHealth,
+  bossFiresRadialBursts,
+  bossSummonsMinions,
+  bossChargesJet,
+  shieldedBossWeakPoint,
+  lethalBorderEndsRun,
+  bouncingBorderWearsDownShield,
+  wrapBorderWrapsEverything,
+  ...HITBOX_MODES.map(obstacleOnJetEndsRun),
+  shieldedHitKnocksBack,
+  unshieldedHitCostsLife,
+  timerRunsOut(1),
+  timerRunsOut(3),
+  campaignKeepsScaling,
+  wavesSpawnOnSchedule,
+  wavesAreTelegraphed,
+  formationsLayOutGroups,
+  surviveLevelClearsOnTimer,
+  destroyLevelClearsOnKills,
+  wavesFollowSpawnPaths,
+  playtestFastForwards,
+  levelPacksAreValidated,
+  heavyObstaclesShrugOffLightOnes,
+  bombClearsObstacles,
+  shieldAbsorbsObstacles,
+  firepowerPowerUps,
+  pickupsExpire,
+  levelsSetTheirDrops,
+  laserPierces,
+  chargeScalesDamage,
+  twinStickAimsIndependently,
+  homingFindsTarget,
+  armoredTakesSeveralHits,
+  splitterBreaksApart,
+  chaserHuntsJet,
+  shooterFiresAtJet,
+  mineDetonatesNearJet,
+  gamepadSticksHaveDeadzone,
+  sticksFollowLatestSource,
+  releasedAimHoldsOneFrame,
+  fireFromAnySource,
+  pressesCountOnce,
+  defaultBindingsShareMenuInputs,
+  keyboardWithIdleGamepad,
+  rebindReplacesBinding,
+  tiltFollowsScreenRotation,
+  tiltSteersFromCalibratedPose,
+  ...HITBOX_MODES.map((hitboxes) => replayMatchesRun(hitboxes)),
+  replayMatchesRun('circle', 'bounce'),
+  replayMatchesRun('circle', 'wrap'),
+  broadphaseMissesNothing,
+];
+
+/**
+ * Run scenarios, optionally only those whose name contains one of the filters.
+ */
+export function runScenarios(filters: string[] = []): ScenarioResult[] {
+  const selected = filters.length > 0
+    ? SCENARIOS.filter((scenario) => filters.some((filter) => scenario.name.includes(filter)))
+    : SCENARIOS;
+
+  return selected.map((scenario) => {
+    const start = performance.now();
+    try {
+      const report = scenario.run() ?? undefined;
+      return { name: scenario.name, passed: true, report, durationMs: performance.now() - start };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { name: scenario.name, passed: false, error: message, durationMs: performance.now() - start };
+    }
+  });
+}
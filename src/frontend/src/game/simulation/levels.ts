@@ -0,0 +1,310 @@
+/**
+ * Level definitions.
+ * A level pack is plain data: each level sets its time limit, enemy speed, backdrop theme, win
+ * condition, power-up drops and the waves its enemies arrive in. Packs loaded from JSON go through
+ * validateLevelPack, which rejects anything malformed with a message naming the offending field.
+ */
+
+import { OBSTACLE_SPAWN_INTERVAL } from './constants';
+import { BOSSES, isBossKind } from './bosses';
+import { ENEMIES, isEnemyKind } from './enemies';
+import { POWER_UP_KINDS, getDropTable, type DropTable, type DropTableEntry } from './powerUps';
+import type { BossKind, EnemyKind, LevelTheme, ObstacleSize, Position, SpawnEdge, WavePattern } from './types';
+
+export type WinCondition =
+  // The boss arrives once `kills` regular obstacles are destroyed; defeating it clears the level
+  | { type: 'boss'; boss: BossKind; kills: number }
+  // Destroying `kills` regular obstacles clears the level
+  | { type: 'destroy'; kills: number }
+  // Lasting until the timer runs out clears the level
+  | { type: 'survive' };
+
+export interface WaveDefinition {
+  enemy: EnemyKind | 'random'; // 'random' picks kind and size by spawn weight
+  size?: ObstacleSize; // Only for a specific enemy; rolled from the kind's own sizes when omitted
+  count?: number; // Groups in the wave; omitted, the wave keeps coming for the whole level
+  edge: SpawnEdge; // Where groups enter the field; ignored by patterns laid out inside it
+  pattern: WavePattern; // Formation each group flies in; see formations.ts
+  path?: Position[]; // Spawn point then waypoints in playfield percent; replaces the edge and pattern
+  start: number; // Seconds into the level the wave begins
+  interval: number; // Milliseconds between groups, the first one interval after the start
+}
+
+export interface LevelDefinition {
+  name: string;
+  timeLimit: number; // Seconds on the countdown timer
+  speedScale: number; // Enemy and boss speed relative to their base speeds
+  theme: LevelTheme;
+  win: WinCondition;
+  drops: DropTable; // Optional in files; levels without one get the campaign's table for their position
+  waves: WaveDefinition[]; // Waves pause while a boss is in play
+  playtestFrom?: number; // Seconds of the level skipped when playtesting from a later wave; see fastForwardLevel
+}
+
+export interface LevelPack {
+  name: string;
+  levels: LevelDefinition[]; // Index 0 = level 1; levels past the end repeat the last one...
+  endless?: boolean; // ...or, when set, keep getting harder by the campaign's steps, like the campaign itself
+}
+
+export const LEVEL_THEMES: LevelTheme[] = ['grid', 'nebula', 'ember', 'abyss'];
+export const SPAWN_EDGES: SpawnEdge[] = ['top', 'bottom', 'left', 'right', 'sides', 'corners'];
+export const WAVE_PATTERNS: WavePattern[] = ['scatter', 'vee', 'line', 'ring', 'spiral'];
+export const MAX_PATH_POINTS = 12;
+export const MIN_WAVE_INTERVAL = 100; // Milliseconds; shorter, an endless ring floods the field faster than anyone can play
+export const LEVEL_PACK_FILE_EXTENSION = '.json';
+
+const DEFAULT_LEVEL_COUNT = 10;
+const DEFAULT_LEVEL_BOSSES: BossKind[] = ['warden', 'hive', 'juggernaut'];
+
+// How much harder each level of the campaign, or of an endless pack past its last level, gets
+const LEVEL_TIME_STEP = 5; // Seconds
+const LEVEL_SPEED_STEP = 0.15;
+const LEVEL_KILL_STEP = 5;
+
+// The original endless campaign: a steady random stream, 5 s more and 15% faster enemies each
+// level, and a boss after 5 more kills each level
+function createDefaultLevel(level: number): LevelDefinition {
+  return {
+    name: `Level ${level}`,
+    timeLimit: 30 + (level - 1) * LEVEL_TIME_STEP,
+    speedScale: 1 + (level - 1) * LEVEL_SPEED_STEP,
+    theme: LEVEL_THEMES[(level - 1) % LEVEL_THEMES.length],
+    win: {
+      type: 'boss',
+      boss: DEFAULT_LEVEL_BOSSES[Math.min(level, DEFAULT_LEVEL_BOSSES.length) - 1],
+      kills: level * LEVEL_KILL_STEP,
+    },
+    drops: getDropTable(level),
+    waves: [{ enemy: 'random', edge: 'top', pattern: 'scatter', start: 0, interval: OBSTACLE_SPAWN_INTERVAL }],
+  };
+}
+
+export const DEFAULT_LEVEL_PACK: LevelPack = {
+  name: 'Campaign',
+  levels: Array.from({ length: DEFAULT_LEVEL_COUNT }, (_, i) => createDefaultLevel(i + 1)),
+  endless: true,
+};
+
+/**
+ * Starting point for a level made from scratch: a minute of random enemies, then the first boss.
+ */
+export function createBlankLevel(name: string): LevelDefinition {
+  return { ...createDefaultLevel(1), name, timeLimit: 60, win: { type: 'boss', boss: 'warden', kills: 10 } };
+}
+
+// A level `extra` levels past the end of an endless pack: its last level, harder by a step for each
+function createEndlessLevel(last: LevelDefinition, extra: number, level: number): LevelDefinition {
+  return {
+    ...last,
+    name: `Level ${level}`,
+    timeLimit: last.timeLimit + extra * LEVEL_TIME_STEP,
+    speedScale: last.speedScale + extra * LEVEL_SPEED_STEP,
+    theme: LEVEL_THEMES[(LEVEL_THEMES.indexOf(last.theme) + extra) % LEVEL_THEMES.length],
+    win: last.win.type === 'survive' ? last.win : { ...last.win, kills: last.win.kills + extra * LEVEL_KILL_STEP },
+    playtestFrom: undefined,
+  };
+}
+
+// Levels past the end of endless packs, made on first use since the simulation looks its level up every step
+const endlessLevels = new WeakMap<LevelPack, Map<number, LevelDefinition>>();
+
+/**
+ * Definition of a level in a pack.
+ * Past its listed levels an endless pack, like the campaign, keeps scaling up like the original game.
+ */
+export function getLevelDefinition(pack: LevelPack, level: number): LevelDefinition {
+  if (pack.endless && level > pack.levels.length) {
+    let levels = endlessLevels.get(pack);
+    if (!levels) {
+      levels = new Map();
+      endlessLevels.set(pack, levels);
+    }
+    let definition = levels.get(level);
+    if (!definition) {
+      definition = createEndlessLevel(pack.levels[pack.levels.length - 1], level - pack.levels.length, level);
+      levels.set(level, definition);
+    }
+    return definition;
+  }
+  const index = Math.max(0, Math.min(pack.levels.length - 1, level - 1));
+  return pack.levels[index];
+}
+
+/**
+ * Regular obstacles a level needs destroyed before its boss arrives or it clears, or null when
+ * the level is won by outlasting the timer.
+ */
+export function getKillTarget(definition: LevelDefinition): number | null {
+  return definition.win.type === 'survive' ? null : definition.win.kills;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Level pack is invalid: ${path} ${problem}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(source: Record<string, unknown>, key: string, path: string): string {
+  const value = source[key];
+  if (typeof value !== 'string' || value.trim() === '') fail(`${path} "${key}"`, 'must be a non-empty string');
+  return value;
+}
+
+function readNumber(source: Record<string, unknown>, key: string, path: string, min: number, integer = false): number {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+    fail(`${path} "${key}"`, `must be ${integer ? 'a whole number' : 'a number'} of at least ${min}`);
+  }
+  return value;
+}
+
+function readChoice<T extends string>(source: Record<string, unknown>, key: string, path: string, choices: readonly T[]): T {
+  const value = source[key];
+  if (!choices.includes(value as T)) fail(`${path} "${key}"`, `must be one of ${choices.join(', ')}`);
+  return value as T;
+}
+
+function validateWin(data: unknown, path: string): WinCondition {
+  if (!isRecord(data)) fail(path, 'must be an object');
+  const type = readChoice(data, 'type', path, ['boss', 'destroy', 'survive'] as const);
+  switch (type) {
+    case 'boss':
+      return {
+        type,
+        boss: readChoice(data, 'boss', path, Object.keys(BOSSES).filter(isBossKind)),
+        kills: readNumber(data, 'kills', path, 0, true),
+      };
+    case 'destroy':
+      return { type, kills: readNumber(data, 'kills', path, 1, true) };
+    case 'survive':
+      return { type };
+  }
+}
+
+// Spawn points may sit just off the field; waypoints must be reachable inside it
+function validatePath(data: unknown, path: string): Position[] {
+  if (!Array.isArray(data) || data.length === 0 || data.length > MAX_PATH_POINTS) {
+    fail(`${path} "path"`, `must be a list of 1 to ${MAX_PATH_POINTS} points`);
+  }
+  return data.map((point, i) => {
+    const pointPath = `${path} path point ${i + 1}`;
+    if (!isRecord(point)) fail(pointPath, 'must be an object');
+    const [min, max] = i === 0 ? [-10, 110] : [0, 100];
+    const x = readNumber(point, 'x', pointPath, min);
+    const y = readNumber(point, 'y', pointPath, min);
+    if (x > max || y > max) fail(pointPath, `must lie between ${min} and ${max}`);
+    return { x, y };
+  });
+}
+
+function validateWave(data: unknown, path: string): WaveDefinition {
+  if (!isRecord(data)) fail(path, 'must be an object');
+  const enemy = readChoice(data, 'enemy', path, ['random', ...Object.keys(ENEMIES).filter(isEnemyKind)]);
+  const wave: WaveDefinition = {
+    enemy,
+    edge: readChoice(data, 'edge', path, SPAWN_EDGES),
+    pattern: readChoice(data, 'pattern', path, WAVE_PATTERNS),
+    start: readNumber(data, 'start', path, 0),
+    interval: readNumber(data, 'interval', path, MIN_WAVE_INTERVAL),
+  };
+  if (data.size !== undefined) {
+    if (enemy === 'random') fail(`${path} "size"`, 'can only be set for a specific enemy');
+    wave.size = readChoice(data, 'size', path, ['small', 'medium', 'large'] as const);
+  }
+  if (data.count !== undefined) {
+    wave.count = readNumber(data, 'count', path, 1, true);
+  }
+  if (data.path !== undefined) {
+    wave.path = validatePath(data.path, path);
+  }
+  return wave;
+}
+
+function validateDropEntry(data: unknown, path: string): DropTableEntry {
+  if (!isRecord(data)) fail(path, 'must be an object');
+  return { kind: readChoice(data, 'kind', path, POWER_UP_KINDS), weight: readNumber(data, 'weight', path, 0) };
+}
+
+function validateDrops(data: unknown, path: string): DropTable {
+  if (!isRecord(data)) fail(path, 'must be an object');
+  const chance = readNumber(data, 'chance', path, 0);
+  if (chance > 1) fail(`${path} "chance"`, 'must be at most 1');
+  if (!Array.isArray(data.entries)) fail(`${path} "entries"`, 'must be a list');
+  return { chance, entries: data.entries.map((entry, i) => validateDropEntry(entry, `${path} entry ${i + 1}`)) };
+}
+
+function validateLevel(data: unknown, path: string, level: number): LevelDefinition {
+  if (!isRecord(data)) fail(path, 'must be an object');
+  if (!Array.isArray(data.waves)) fail(`${path} "waves"`, 'must be a list');
+  const definition: LevelDefinition = {
+    name: readString(data, 'name', path),
+    timeLimit: readNumber(data, 'timeLimit', path, 1),
+    speedScale: readNumber(data, 'speedScale', path, 0.1),
+    theme: readChoice(data, 'theme', path, LEVEL_THEMES),
+    win: validateWin(data.win, `${path} win condition`),
+    drops: data.drops === undefined ? getDropTable(level) : validateDrops(data.drops, `${path} drops`),
+    waves: data.waves.map((wave, i) => validateWave(wave, `${path} wave ${i + 1}`)),
+  };
+  // Only set on playtests, but kept so their replays play back the same
+  if (data.playtestFrom !== undefined) {
+    definition.playtestFrom = readNumber(data, 'playtestFrom', path, 0);
+  }
+  return definition;
+}
+
+/**
+ * Check untrusted data against the level schema.
+ * @returns A copy holding only the known fields
+ * @throws Error with a user-readable message naming the first invalid field
+ */
+export function validateLevelPack(data: unknown): LevelPack {
+  if (!isRecord(data)) fail('pack', 'must be an object');
+  if (!Array.isArray(data.levels) || data.levels.length === 0) fail('pack "levels"', 'must be a non-empty list');
+  const pack: LevelPack = {
+    name: readString(data, 'name', 'pack'),
+    levels: data.levels.map((level, i) => validateLevel(level, `level ${i + 1}`, i + 1)),
+  };
+  if (data.endless !== undefined) {
+    if (typeof data.endless !== 'boolean') fail('pack "endless"', 'must be true or false');
+    if (data.endless) pack.endless = true;
+  }
+  return pack;
+}
+
+/**
+ * Parse and validate a level pack file.
+ * @throws Error with a user-readable message when the file is not a valid pack
+ */
+export function parseLevelPack(json: string): LevelPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a level pack: contents are not valid JSON');
+  }
+  return validateLevelPack(data);
+}
+
+/**
+ * Serialize a level pack for sharing as a file.
+ */
+export function serializeLevelPack(pack: LevelPack): string {
+  return JSON.stringify(pack, null, 2);
+}
+
+export function getLevelPackFileName(pack: LevelPack): string {
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'levels'}${LEVEL_PACK_FILE_EXTENSION}`;
+}
+
+/**
+ * A level as it stands `seconds` in, for playtesting from a later wave. The simulation starts its
+ * waves that far along, so those underway resume with the enemies they have left on their own
+ * schedule; the time limit is kept so a playtest is not cut short.
+ */
+export function fastForwardLevel(definition: LevelDefinition, seconds: number): LevelDefinition {
+  return { ...definition, playtestFrom: seconds };
+}
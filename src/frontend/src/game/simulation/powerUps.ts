@@ -0,0 +1,91 @@
+/**
+ * Power-up drop tables and effect timings.
+ * When a regular obstacle is destroyed, the current level's table (part of its level definition)
+ * decides whether it drops a pickup and which kind. Rolls use the world RNG, so drops replay exactly.
+ */
+
+import { nextFloat, type Rng } from './rng';
+import type { PowerUpKind, TimedPowerUpKind } from './types';
+
+export interface DropTableEntry {
+  kind: PowerUpKind;
+  weight: number; // Relative likelihood among the table's entries
+}
+
+export interface DropTable {
+  chance: number; // Probability (0-1) that a destroyed obstacle drops anything
+  entries: DropTableEntry[];
+}
+
+export const POWER_UP_KINDS: PowerUpKind[] = ['rapidFire', 'spreadShot', 'shield', 'timeBonus', 'bomb'];
+
+// The campaign's drop tables by level, index 0 = level 1. Levels past the end reuse the last table.
+// Early levels favor forgiving drops; later ones shift toward firepower and bombs.
+export const LEVEL_DROP_TABLES: DropTable[] = [
+  {
+    chance: 0.15,
+    entries: [
+      { kind: 'rapidFire', weight: 3 },
+      { kind: 'spreadShot', weight: 2 },
+      { kind: 'shield', weight: 3 },
+      { kind: 'timeBonus', weight: 3 },
+    ],
+  },
+  {
+    chance: 0.15,
+    entries: [
+      { kind: 'rapidFire', weight: 3 },
+      { kind: 'spreadShot', weight: 3 },
+      { kind: 'shield', weight: 2 },
+      { kind: 'timeBonus', weight: 2 },
+      { kind: 'bomb', weight: 1 },
+    ],
+  },
+  {
+    chance: 0.12,
+    entries: [
+      { kind: 'rapidFire', weight: 3 },
+      { kind: 'spreadShot', weight: 3 },
+      { kind: 'shield', weight: 2 },
+      { kind: 'timeBonus', weight: 1 },
+      { kind: 'bomb', weight: 2 },
+    ],
+  },
+];
+
+// How long each timed effect lasts once collected, in milliseconds
+export const POWER_UP_DURATIONS: Record<TimedPowerUpKind, number> = {
+  rapidFire: 6000,
+  spreadShot: 6000,
+  shield: 5000,
+};
+
+export function isTimedPowerUp(kind: PowerUpKind): kind is TimedPowerUpKind {
+  return kind in POWER_UP_DURATIONS;
+}
+
+/**
+ * The campaign's drop table for a level, also used by levels that do not set their own.
+ */
+export function getDropTable(level: number): DropTable {
+  const index = Math.max(0, Math.min(LEVEL_DROP_TABLES.length - 1, level - 1));
+  return LEVEL_DROP_TABLES[index];
+}
+
+/**
+ * Roll a table for one destroyed obstacle.
+ * @returns The kind of pickup to drop, or null for no drop
+ */
+export function rollDrop(rng: Rng, table: DropTable): PowerUpKind | null {
+  if (nextFloat(rng) >= table.chance) return null;
+
+  const totalWeight = table.entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+  if (totalWeight <= 0) return null;
+
+  let roll = nextFloat(rng) * totalWeight;
+  for (const entry of table.entries) {
+    roll -= Math.max(0, entry.weight);
+    if (roll < 0) return entry.kind;
+  }
+  return table.entries[table.entries.length - 1].kind;
+}
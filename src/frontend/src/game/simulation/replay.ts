@@ -0,0 +1,179 @@
+/**
+ * Input recording and deterministic replay playback.
+ * A run is fully described by its seed, hitbox mode, level pack, starting playfield size and
+ * sensitivity plus the stream of input changes stamped with the simulation tick they took effect on.
+ * Playback feeds that stream back into a fresh world; seeking re-simulates from the start.
+ */
+
+import { createWorld, selectWeapon, startGame, startNextLevel, setPlayfieldSize, step } from './GameSimulation';
+import { FIXED_TIMESTEP } from './constants';
+import { DEFAULT_LEVEL_PACK, type LevelPack } from './levels';
+import type { BorderMode, GameWorld, HitboxMode, JoystickVector, SimulationInputs, WeaponKind } from './types';
+
+export type ReplayEvent =
+  | { tick: number; type: 'move'; x: number; y: number; magnitude: number }
+  | { tick: number; type: 'aim'; x: number; y: number; magnitude: number }
+  | { tick: number; type: 'fire'; active: boolean }
+  | { tick: number; type: 'sensitivity'; value: number }
+  | { tick: number; type: 'resize'; width: number; height: number }
+  | { tick: number; type: 'weapon'; weapon: WeaponKind }
+  | { tick: number; type: 'nextLevel' };
+
+export interface Replay {
+  seed: number;
+  playfield: { width: number; height: number };
+  sensitivity: number;
+  hitboxes: HitboxMode;
+  border: BorderMode;
+  levels: LevelPack;
+  events: ReplayEvent[];
+  totalTicks: number;
+  level: number; // Level reached when the recording finished
+  score: number; // Final score when the recording finished
+}
+
+export interface ReplayPlayback {
+  replay: Replay;
+  world: GameWorld;
+  inputs: SimulationInputs;
+  cursor: number; // Index of the next event to apply
+}
+
+const INPUT_PRECISION = 1000; // Inputs are rounded to 3 decimals to keep recordings compact
+
+function quantize(value: number): number {
+  return Math.round(value * INPUT_PRECISION) / INPUT_PRECISION;
+}
+
+/**
+ * Round a joystick vector to recording precision.
+ * Live play must use the quantized vector too, otherwise playback drifts from the original run.
+ */
+export function quantizeJoystickVector(vector: JoystickVector): JoystickVector {
+  return { x: quantize(vector.x), y: quantize(vector.y), magnitude: quantize(vector.magnitude) };
+}
+
+export function createReplay(
+  seed: number,
+  playfield: { width: number; height: number },
+  sensitivity: number,
+  hitboxes: HitboxMode,
+  border: BorderMode,
+  levels: LevelPack = DEFAULT_LEVEL_PACK
+): Replay {
+  return {
+    seed,
+    playfield: { ...playfield },
+    sensitivity,
+    hitboxes,
+    border,
+    levels,
+    events: [],
+    totalTicks: 0,
+    level: 1,
+    score: 0,
+  };
+}
+
+/**
+ * Append an input change. Repeated changes of the same kind within one tick collapse into
+ * the latest, since only the last value is visible to the next step.
+ */
+export function recordReplayEvent(replay: Replay, event: ReplayEvent): void {
+  const last = replay.events[replay.events.length - 1];
+  if (last && last.tick === event.tick && last.type === event.type && event.type !== 'nextLevel') {
+    replay.events[replay.events.length - 1] = event;
+    return;
+  }
+  replay.events.push(event);
+}
+
+export function finishReplay(replay: Replay, world: GameWorld): void {
+  replay.totalTicks = world.tick;
+  replay.level = world.level;
+  replay.score = world.score;
+}
+
+export function createReplayPlayback(replay: Replay): ReplayPlayback {
+  const world = createWorld(replay.playfield.width, replay.playfield.height, replay.seed);
+  startGame(world, replay.seed, replay.hitboxes, replay.border, 1, replay.levels);
+  return {
+    replay,
+    world,
+    inputs: {
+      move: { x: 0, y: 0, magnitude: 0 },
+      aim: { x: 0, y: 0, magnitude: 0 },
+      fire: false,
+      sensitivity: replay.sensitivity,
+    },
+    cursor: 0,
+  };
+}
+
+function applyEvent(playback: ReplayPlayback, event: ReplayEvent): void {
+  switch (event.type) {
+    case 'move':
+      playback.inputs.move = { x: event.x, y: event.y, magnitude: event.magnitude };
+      break;
+    case 'aim':
+      playback.inputs.aim = { x: event.x, y: event.y, magnitude: event.magnitude };
+      break;
+    case 'fire':
+      playback.inputs.fire = event.active;
+      break;
+    case 'sensitivity':
+      playback.inputs.sensitivity = event.value;
+      break;
+    case 'resize':
+      setPlayfieldSize(playback.world, event.width, event.height);
+      break;
+    case 'weapon':
+      selectWeapon(playback.world, event.weapon);
+      break;
+    case 'nextLevel':
+      startNextLevel(playback.world);
+      break;
+  }
+}
+
+export function isReplayFinished(playback: ReplayPlayback): boolean {
+  return playback.world.state === 'gameover' || playback.world.tick >= playback.replay.totalTicks;
+}
+
+/**
+ * Apply the inputs due at the current tick and advance one fixed step.
+ * @returns false once the replay has reached its end
+ */
+export function stepReplay(playback: ReplayPlayback): boolean {
+  if (isReplayFinished(playback)) return false;
+
+  const { events } = playback.replay;
+  while (playback.cursor < events.length && events[playback.cursor].tick <= playback.world.tick) {
+    applyEvent(playback, events[playback.cursor]);
+    playback.cursor++;
+  }
+
+  const tickBefore = playback.world.tick;
+  step(playback.world, playback.inputs, FIXED_TIMESTEP);
+
+  // A step that could not advance (e.g. a recording that stopped on a level-complete screen) ends playback
+  return playback.world.tick > tickBefore;
+}
+
+/**
+ * Jump to a tick. Seeking backwards restarts the run and re-simulates up to the target.
+ */
+export function seekReplay(playback: ReplayPlayback, tick: number): void {
+  const target = Math.max(0, Math.min(tick, playback.replay.totalTicks));
+
+  if (target < playback.world.tick) {
+    const fresh = createReplayPlayback(playback.replay);
+    playback.world = fresh.world;
+    playback.inputs = fresh.inputs;
+    playback.cursor = fresh.cursor;
+  }
+
+  while (playback.world.tick < target && stepReplay(playback)) {
+    // Re-simulate until the target tick is reached
+  }
+}
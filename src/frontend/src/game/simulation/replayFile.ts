@@ -0,0 +1,256 @@
+/**
+ * Versioned replay file format for sharing runs.
+ * A file is gzip-compressed JSON with a header (format, versions, seed, playfield, result and any
+ * custom level pack) and a body of delta-encoded input events. Replays recorded by a different simulation version are
+ * rejected with a readable error, because playing them back would silently desync.
+ */
+
+import { SIMULATION_VERSION } from './constants';
+import { DEFAULT_LEVEL_PACK, validateLevelPack, type LevelPack } from './levels';
+import type { Replay, ReplayEvent } from './replay';
+import type { BorderMode, HitboxMode, WeaponKind } from './types';
+import { isWeaponKind } from './weapons';
+
+export const REPLAY_FILE_FORMAT = 'jet-fighter-replay';
+export const REPLAY_FILE_FORMAT_VERSION = 6;
+// Only the current layout is read: every older one was written by an older SIMULATION_VERSION,
+// which the game version check rejects anyway
+const READABLE_FORMAT_VERSIONS = [REPLAY_FILE_FORMAT_VERSION];
+export const REPLAY_FILE_EXTENSION = '.jfreplay';
+
+interface ReplayFileHeader {
+  format: string;
+  formatVersion: number; // Layout of this file
+  gameVersion: number; // SIMULATION_VERSION the run was recorded with
+  seed: number;
+  playfield: { width: number; height: number };
+  sensitivity: number;
+  hitboxes: HitboxMode;
+  border: BorderMode;
+  levels?: LevelPack; // Omitted for the built-in campaign
+  totalTicks: number;
+  level: number;
+  score: number;
+}
+
+// Each event is [ticks since previous event, type code, ...values]
+type EncodedEvent =
+  | [number, 'm', number, number, number]
+  | [number, 'a', number, number, number]
+  | [number, 'f', 0 | 1]
+  | [number, 's', number]
+  | [number, 'r', number, number]
+  | [number, 'w', WeaponKind]
+  | [number, 'n'];
+
+interface ReplayFileContents {
+  header: ReplayFileHeader;
+  events: EncodedEvent[];
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+function encodeEvent(event: ReplayEvent, deltaTicks: number): EncodedEvent {
+  switch (event.type) {
+    case 'move':
+      return [deltaTicks, 'm', event.x, event.y, event.magnitude];
+    case 'aim':
+      return [deltaTicks, 'a', event.x, event.y, event.magnitude];
+    case 'fire':
+      return [deltaTicks, 'f', event.active ? 1 : 0];
+    case 'sensitivity':
+      return [deltaTicks, 's', event.value];
+    case 'resize':
+      return [deltaTicks, 'r', event.width, event.height];
+    case 'weapon':
+      return [deltaTicks, 'w', event.weapon];
+    case 'nextLevel':
+      return [deltaTicks, 'n'];
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function decodeEvent(encoded: unknown, tick: number, index: number): ReplayEvent {
+  if (!Array.isArray(encoded) || !isFiniteNumber(encoded[0]) || encoded[0] < 0) {
+    throw new Error(`Replay file is corrupted: event ${index} is malformed`);
+  }
+
+  const values = encoded.slice(2);
+  const expectNumbers = (count: number) => {
+    if (values.length !== count || !values.every(isFiniteNumber)) {
+      throw new Error(`Replay file is corrupted: event ${index} has invalid values`);
+    }
+  };
+
+  switch (encoded[1]) {
+    case 'm':
+      expectNumbers(3);
+      return { tick, type: 'move', x: values[0], y: values[1], magnitude: values[2] };
+    case 'a':
+      expectNumbers(3);
+      return { tick, type: 'aim', x: values[0], y: values[1], magnitude: values[2] };
+    case 'f':
+      expectNumbers(1);
+      return { tick, type: 'fire', active: values[0] === 1 };
+    case 's':
+      expectNumbers(1);
+      return { tick, type: 'sensitivity', value: values[0] };
+    case 'r':
+      expectNumbers(2);
+      return { tick, type: 'resize', width: values[0], height: values[1] };
+    case 'w':
+      if (values.length !== 1 || !isWeaponKind(values[0])) {
+        throw new Error(`Replay file is corrupted: event ${index} names an unknown weapon`);
+      }
+      return { tick, type: 'weapon', weapon: values[0] };
+    case 'n':
+      expectNumbers(0);
+      return { tick, type: 'nextLevel' };
+    default:
+      throw new Error(`Replay file is corrupted: event ${index} has unknown type "${String(encoded[1])}"`);
+  }
+}
+
+function validateHeader(header: unknown): ReplayFileHeader {
+  if (typeof header !== 'object' || header === null) {
+    throw new Error('Not a replay file: header is missing');
+  }
+
+  const h = header as Partial<ReplayFileHeader>;
+  if (h.format !== REPLAY_FILE_FORMAT) {
+    throw new Error('Not a replay file: unrecognized format');
+  }
+  if (!READABLE_FORMAT_VERSIONS.includes(h.formatVersion as number)) {
+    throw new Error(
+      `Unsupported replay file version ${String(h.formatVersion)} (this game reads version ${REPLAY_FILE_FORMAT_VERSION})`
+    );
+  }
+  if (h.gameVersion !== SIMULATION_VERSION) {
+    throw new Error(
+      `This replay was recorded with game version ${String(h.gameVersion)}, but this game runs version ${SIMULATION_VERSION}. ` +
+      'It cannot be played back accurately.'
+    );
+  }
+
+  const numbersValid =
+    isFiniteNumber(h.seed) &&
+    isFiniteNumber(h.sensitivity) &&
+    isFiniteNumber(h.totalTicks) &&
+    isFiniteNumber(h.level) &&
+    isFiniteNumber(h.score) &&
+    isFiniteNumber(h.playfield?.width) &&
+    isFiniteNumber(h.playfield?.height) &&
+    h.playfield!.width > 0 &&
+    h.playfield!.height > 0;
+  if (!numbersValid) {
+    throw new Error('Replay file is corrupted: header values are invalid');
+  }
+
+  const { hitboxes, border } = h;
+  if (hitboxes !== 'circle' && hitboxes !== 'polygon') {
+    throw new Error('Replay file is corrupted: hitbox mode is invalid');
+  }
+  if (border !== 'lethal' && border !== 'bounce' && border !== 'wrap') {
+    throw new Error('Replay file is corrupted: border mode is invalid');
+  }
+  // A pack that fails validation gets its own readable error from the level schema
+  const levels = h.levels === undefined ? undefined : validateLevelPack(h.levels);
+  return { ...(h as ReplayFileHeader), levels };
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Serialize a finished replay. Falls back to plain JSON where CompressionStream is unavailable.
+ */
+export async function encodeReplayFile(replay: Replay): Promise<Uint8Array> {
+  let previousTick = 0;
+  const events = replay.events.map((event) => {
+    const encoded = encodeEvent(event, event.tick - previousTick);
+    previousTick = event.tick;
+    return encoded;
+  });
+
+  const contents: ReplayFileContents = {
+    header: {
+      format: REPLAY_FILE_FORMAT,
+      formatVersion: REPLAY_FILE_FORMAT_VERSION,
+      gameVersion: SIMULATION_VERSION,
+      seed: replay.seed,
+      playfield: { ...replay.playfield },
+      sensitivity: replay.sensitivity,
+      hitboxes: replay.hitboxes,
+      border: replay.border,
+      levels: replay.levels === DEFAULT_LEVEL_PACK ? undefined : replay.levels,
+      totalTicks: replay.totalTicks,
+      level: replay.level,
+      score: replay.score,
+    },
+    events,
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(contents));
+  if (typeof CompressionStream === 'undefined') {
+    return json;
+  }
+  return pipeBytes(json, new CompressionStream('gzip'));
+}
+
+/**
+ * Parse and validate a replay file (compressed or plain JSON).
+ * @throws Error with a user-readable message when the file is invalid or incompatible
+ */
+export async function decodeReplayFile(bytes: Uint8Array): Promise<Replay> {
+  let jsonBytes = bytes;
+  if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot open compressed replay files');
+    }
+    try {
+      jsonBytes = await pipeBytes(bytes, new DecompressionStream('gzip'));
+    } catch {
+      throw new Error('Replay file is corrupted: it could not be decompressed');
+    }
+  }
+
+  let contents: Partial<ReplayFileContents>;
+  try {
+    contents = JSON.parse(new TextDecoder().decode(jsonBytes));
+  } catch {
+    throw new Error('Not a replay file: contents are not readable');
+  }
+
+  const header = validateHeader(contents?.header);
+  if (!Array.isArray(contents.events)) {
+    throw new Error('Replay file is corrupted: input events are missing');
+  }
+
+  let tick = 0;
+  const events = contents.events.map((encoded, index) => {
+    tick += Array.isArray(encoded) && isFiniteNumber(encoded[0]) ? encoded[0] : 0;
+    return decodeEvent(encoded, tick, index);
+  });
+
+  return {
+    seed: header.seed,
+    playfield: { width: header.playfield.width, height: header.playfield.height },
+    sensitivity: header.sensitivity,
+    hitboxes: header.hitboxes,
+    border: header.border,
+    levels: header.levels ?? DEFAULT_LEVEL_PACK,
+    events,
+    totalTicks: header.totalTicks,
+    level: header.level,
+    score: header.score,
+  };
+}
+
+export function getReplayFileName(replay: Replay): string {
+  return `jet-fighter-level${replay.level}-${replay.score}pts${REPLAY_FILE_EXTENSION}`;
+}
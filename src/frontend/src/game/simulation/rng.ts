@@ -0,0 +1,48 @@
+/**
+ * Seedable deterministic random number generator (mulberry32).
+ * All gameplay randomness is drawn from an Rng carried in the world, so a run is fully
+ * reproducible from its seed and input stream. The state is a plain number so worlds
+ * stay serializable and cloneable.
+ */
+
+export interface Rng {
+  seed: number; // Seed the generator was created with
+  state: number; // Current 32-bit internal state
+}
+
+export function createRng(seed: number): Rng {
+  const normalizedSeed = seed >>> 0;
+  return { seed: normalizedSeed, state: normalizedSeed };
+}
+
+/**
+ * Pick a fresh seed for a new run. This is the only place that uses Math.random().
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Next float in [0, 1).
+ */
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Next float in [min, max).
+ */
+export function randomRange(rng: Rng, min: number, max: number): number {
+  return min + nextFloat(rng) * (max - min);
+}
+
+/**
+ * Next unsigned 32-bit integer, useful for deriving child seeds.
+ */
+export function nextUint32(rng: Rng): number {
+  return Math.floor(nextFloat(rng) * 0x100000000) >>> 0;
+}
@@ -0,0 +1,206 @@
+import type { LevelPack, WaveDefinition } from './levels';
+import type { Rng } from './rng';
+
+/**
+ * Shared state types for the framework-agnostic game simulation.
+ * Positions are in playfield percent (0-100); velocities are noted per field.
+ */
+
+export type GameState = 'idle' | 'playing' | 'exploding' | 'gameover' | 'paused' | 'levelcomplete';
+export type ObstacleSize = 'small' | 'medium' | 'large';
+export type GameOverReason = 'border' | 'obstacle' | 'timeExpired' | null;
+export type HitboxMode = 'circle' | 'polygon'; // Collision shapes: radius circles, or SAT polygons matching the art
+// What the playfield edge does: cost the jet a life, bounce it back with a shield hit, or wrap everything around
+export type BorderMode = 'lethal' | 'bounce' | 'wrap';
+// Regular obstacle archetypes; see enemies.ts for what each one does
+export type EnemyKind = 'drifter' | 'chaser' | 'splitter' | 'armored' | 'shooter' | 'mine';
+// Scripted bosses; see bosses.ts for their phases
+export type BossKind = 'warden' | 'hive' | 'juggernaut';
+// Level schema vocabulary; see levels.ts for the full definitions
+export type LevelTheme = 'grid' | 'nebula' | 'ember' | 'abyss';
+export type SpawnEdge = 'top' | 'bottom' | 'left' | 'right' | 'sides' | 'corners'; // Sides and corners pick one per group
+export type WavePattern = 'scatter' | 'vee' | 'line' | 'ring' | 'spiral'; // See formations.ts for each layout
+export type WeaponKind = 'cannon' | 'spread' | 'twin' | 'laser' | 'homing' | 'charge';
+export type PowerUpKind = 'rapidFire' | 'spreadShot' | 'shield' | 'timeBonus' | 'bomb';
+export type TimedPowerUpKind = Extract<PowerUpKind, 'rapidFire' | 'spreadShot' | 'shield'>; // The rest apply instantly
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Velocity {
+  x: number;
+  y: number;
+}
+
+export interface BulletData {
+  id: number;
+  position: Position;
+  previousPosition: Position; // Position at the start of the last step, for render interpolation
+  velocity: Velocity; // Velocity in percent per second (fixed at fire time unless homing)
+  angle: number; // Heading in degrees for visual rotation (fixed at fire time unless homing)
+  weapon: WeaponKind; // Weapon that fired it, for its behavior and look
+  damage: number;
+  hitIds?: number[]; // Obstacles a piercing bullet has already damaged
+  remaining?: number; // Milliseconds until a limited-range bullet fizzles out
+}
+
+export interface ObstacleData {
+  id: number;
+  position: Position;
+  previousPosition: Position; // Position at the start of the last step, for render interpolation
+  velocity: Velocity; // Pixels per second
+  size: ObstacleSize;
+  kind: EnemyKind; // Behavior archetype; the boss moves like a drifter
+  health: number; // Hits left before a regular obstacle breaks (the boss uses GameWorld.bossHealth)
+  fireTimer?: number; // Milliseconds until a shooter fires next
+  fuse?: number; // Milliseconds until an armed mine detonates
+  waypoints?: Position[]; // Rest of a spawn path still to fly through, in order
+  mass: number; // Relative to a medium obstacle (1); ignored when immovable
+  immovable?: boolean; // Infinite mass: pushes other obstacles without being pushed back
+  isBoss?: boolean;
+}
+
+/**
+ * Enemy announced by a telegraph marker, entering play once its delay runs out.
+ */
+export interface IncomingEnemyData {
+  id: number;
+  kind: EnemyKind;
+  size: ObstacleSize;
+  position: Position; // Where it enters, often just outside the field
+  direction: Position; // Unit vector in pixels it sets off along
+  waypoints?: Position[];
+  delay: number; // Milliseconds until it enters play
+}
+
+export interface EnemyShotData {
+  id: number;
+  position: Position;
+  previousPosition: Position; // Position at the start of the last step, for render interpolation
+  velocity: Velocity; // Pixels per second
+  remaining: number; // Milliseconds until the shot fizzles out
+}
+
+export interface PickupData {
+  id: number;
+  kind: PowerUpKind;
+  position: Position;
+  previousPosition: Position; // Position at the start of the last step, for render interpolation
+  velocity: Velocity; // Pixels per second
+  duration: number; // Total lifetime in milliseconds, for the expiry warning
+  remaining: number; // Milliseconds until the pickup disappears uncollected
+}
+
+export interface ActivePowerUp {
+  kind: TimedPowerUpKind;
+  duration: number; // Total effect length in milliseconds, for the HUD countdown
+  remaining: number; // Milliseconds until the effect wears off
+}
+
+export interface ExplosionData {
+  id: number;
+  position: Position;
+  variant: 'hit' | 'player' | 'bomb';
+  duration: number; // Total lifetime in milliseconds, for animation progress
+  remaining: number; // Milliseconds until the effect is removed
+}
+
+export interface SparkBurstData {
+  id: number;
+  x: number;
+  y: number;
+  variant: 'normal' | 'boss' | 'player';
+  seed: number; // Seed for the burst's visual jitter, drawn from the world RNG
+  duration: number; // Total lifetime in milliseconds, for animation progress
+  remaining: number; // Milliseconds until the effect is removed
+}
+
+export interface PlayerData {
+  position: Position;
+  previousPosition: Position; // Position at the start of the last step, for render interpolation
+  facingAngle: number; // Angle in degrees, 0 = up
+  aimAngle: number; // Direction bullets leave the nose in degrees; follows facingAngle unless the aim stick is held
+  isThrusting: boolean;
+  shield: number; // Shield meter, 0 to PLAYER_SHIELD_MAX
+  shieldRegenDelay: number; // Milliseconds until the shield starts regenerating again
+  invulnerableTime: number; // Milliseconds of invulnerability left; the jet blinks meanwhile
+  respawnTime: number; // Milliseconds until the jet respawns after losing a life, 0 while alive
+  knockback: Velocity; // Push from the last hit in pixels per second, decaying over time
+}
+
+/**
+ * Progress of the boss currently in play through its definition's state machine.
+ */
+export interface BossState {
+  kind: BossKind;
+  phase: number; // Index into the definition's phases
+  attackTimers: number[]; // Milliseconds until each of the phase's attacks fires next
+  charge: { stage: 'windup' | 'dash'; remaining: number } | null; // Charge attack in progress
+  weakPointAngle: number; // Degrees (0 = up, clockwise) of the weak point on the rim while shielded
+}
+
+/**
+ * Spawning progress of one wave of the current level.
+ */
+export interface WaveState {
+  wave: WaveDefinition;
+  elapsed: number; // Milliseconds since the last group was announced, offset so groups still arrive on schedule
+  spawned: number;
+}
+
+export interface JoystickVector {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+/**
+ * Player inputs sampled once per simulation step.
+ */
+export interface SimulationInputs {
+  move: JoystickVector;
+  aim: JoystickVector; // Twin-stick aim; at rest the jet fires where it faces
+  fire: boolean;
+  sensitivity: number;
+}
+
+/**
+ * Complete mutable state of a running game.
+ * Everything the rules need lives here so a world can be stepped without React or the DOM.
+ */
+export interface GameWorld {
+  state: GameState;
+  gameOverReason: GameOverReason;
+  playfield: { width: number; height: number };
+  rng: Rng; // Source of all gameplay randomness
+  hitboxes: HitboxMode; // Fixed for the whole run so replays stay deterministic
+  border: BorderMode; // Fixed for the whole run, like hitboxes
+  tick: number; // Active simulation steps taken since the run started
+  player: PlayerData;
+  bullets: BulletData[];
+  obstacles: ObstacleData[];
+  enemyShots: EnemyShotData[]; // Projectiles fired at the jet by shooters
+  pickups: PickupData[];
+  powerUps: ActivePowerUp[]; // Timed effects currently running, at most one per kind
+  explosions: ExplosionData[];
+  sparkBursts: SparkBurstData[];
+  score: number;
+  levels: LevelPack; // Fixed for the whole run, like hitboxes
+  level: number;
+  lives: number; // Lives left, counting the one in play
+  destroyedThisLevel: number;
+  timeRemaining: number; // Countdown timer in seconds
+  bossActive: boolean;
+  bossHealth: number; // Remaining boss health while a boss is active
+  boss: BossState | null; // Phase and attack state of the active boss
+  weapon: WeaponKind; // Selected weapon, kept across levels of a run
+  chargeTime: number; // Milliseconds the trigger has been held for a charge weapon
+  bossSpawnedThisAttempt: boolean; // Track if boss has been spawned for current level attempt
+  nextEntityId: number;
+  waves: WaveState[]; // Waves of the current level still to finish spawning
+  incoming: IncomingEnemyData[]; // Telegraphed enemies about to enter play
+  fireAccumulator: number;
+  explosionTimer: number; // Milliseconds left in the 'exploding' state
+}
@@ -0,0 +1,112 @@
+/**
+ * Weapon definitions.
+ * A weapon decides what one pull of the trigger spawns: how many bullets, at which angles and
+ * offsets, how fast they fly, how much damage each deals and how often it can fire. Special
+ * behaviors (piercing, homing, charging) are flags the simulation checks per bullet.
+ */
+
+import { BULLET_SIZE, BULLET_SPEED, FIRE_COOLDOWN } from './constants';
+import type { BulletData, WeaponKind } from './types';
+
+export interface WeaponBarrel {
+  angle: number; // Degrees off the facing direction, positive = clockwise
+  offset: number; // Sideways offset from the nose in pixels, positive = right
+}
+
+export interface WeaponDefinition {
+  label: string;
+  cooldown: number; // Milliseconds between shots while the trigger is held (unused by charge weapons)
+  speed: number; // Bullet speed in pixels per second
+  damage: number; // Damage per bullet; regular obstacles lose one hit point per hit, the boss loses this much health
+  radius: number; // Bullet collision radius in pixels
+  barrels: WeaponBarrel[]; // One bullet per barrel per shot
+  piercing?: boolean; // Bullets fly on through everything they hit, damaging each target once
+  homingTurnRate?: number; // Degrees per second bullets steer toward the nearest obstacle
+  lifetime?: number; // Milliseconds before a bullet fizzles out on its own
+  charge?: { maxTime: number; maxDamage: number }; // Hold to charge, release to fire one bullet
+}
+
+export const WEAPONS: Record<WeaponKind, WeaponDefinition> = {
+  cannon: {
+    label: 'Cannon',
+    cooldown: FIRE_COOLDOWN,
+    speed: BULLET_SPEED,
+    damage: 1,
+    radius: BULLET_SIZE,
+    barrels: [{ angle: 0, offset: 0 }],
+  },
+  spread: {
+    label: 'Spread',
+    cooldown: 260,
+    speed: 380,
+    damage: 1,
+    radius: BULLET_SIZE,
+    barrels: [-24, -12, 0, 12, 24].map((angle) => ({ angle, offset: 0 })),
+  },
+  twin: {
+    label: 'Twin',
+    cooldown: 150,
+    speed: 420,
+    damage: 1,
+    radius: BULLET_SIZE,
+    barrels: [{ angle: 0, offset: -10 }, { angle: 0, offset: 10 }],
+  },
+  laser: {
+    label: 'Laser',
+    cooldown: 50,
+    speed: 1000,
+    damage: 0.5,
+    radius: 3,
+    barrels: [{ angle: 0, offset: 0 }],
+    piercing: true,
+  },
+  homing: {
+    label: 'Homing',
+    cooldown: 350,
+    speed: 260,
+    damage: 2,
+    radius: 5,
+    barrels: [{ angle: -25, offset: -8 }, { angle: 25, offset: 8 }],
+    homingTurnRate: 240,
+    lifetime: 3000, // Keeps missiles from circling a target they cannot turn tightly enough to reach
+  },
+  charge: {
+    label: 'Charge',
+    cooldown: 0,
+    speed: 320,
+    damage: 1,
+    radius: 8,
+    barrels: [{ angle: 0, offset: 0 }],
+    charge: { maxTime: 1200, maxDamage: 6 },
+  },
+};
+
+// Order the weapon selector cycles through
+export const WEAPON_ORDER: WeaponKind[] = ['cannon', 'spread', 'twin', 'laser', 'homing', 'charge'];
+
+export function isWeaponKind(value: unknown): value is WeaponKind {
+  return typeof value === 'string' && value in WEAPONS;
+}
+
+/**
+ * The weapon after the given one in selector order, wrapping around.
+ */
+export function getNextWeapon(weapon: WeaponKind): WeaponKind {
+  return WEAPON_ORDER[(WEAPON_ORDER.indexOf(weapon) + 1) % WEAPON_ORDER.length];
+}
+
+/**
+ * Damage of a charge shot after holding the trigger for the given time.
+ */
+export function getChargedDamage(weapon: WeaponDefinition, chargeTime: number): number {
+  if (!weapon.charge) return weapon.damage;
+  const amount = Math.min(1, Math.max(0, chargeTime / weapon.charge.maxTime));
+  return weapon.damage + (weapon.charge.maxDamage - weapon.damage) * amount;
+}
+
+/**
+ * Collision radius of a bullet in pixels.
+ */
+export function getBulletRadius(bullet: Pick<BulletData, 'weapon'>): number {
+  return WEAPONS[bullet.weapon].radius;
+}
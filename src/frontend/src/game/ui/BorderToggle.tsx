@@ -0,0 +1,38 @@
+import { Button } from '@/components/ui/button';
+import type { BorderMode } from '../simulation/types';
+
+interface BorderToggleProps {
+  border: BorderMode;
+  onBorderChange: (border: BorderMode) => void;
+}
+
+const BORDER_ORDER: BorderMode[] = ['lethal', 'bounce', 'wrap'];
+
+const BORDER_LABELS: Record<BorderMode, string> = {
+  lethal: 'LETHAL',
+  bounce: 'BOUNCE',
+  wrap: 'WRAP',
+};
+
+/**
+ * Cycle the border between lethal, bouncing (costs shield) and wrap-around.
+ * Takes effect when the next run starts.
+ */
+export default function BorderToggle({ border, onBorderChange }: BorderToggleProps) {
+  const next = BORDER_ORDER[(BORDER_ORDER.indexOf(border) + 1) % BORDER_ORDER.length];
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onBorderChange(next)}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      BORDER: {BORDER_LABELS[border]}
+    </Button>
+  );
+}
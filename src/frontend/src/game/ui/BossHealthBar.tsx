@@ -0,0 +1,42 @@
+import { Progress } from '@/components/ui/progress';
+
+interface BossHealthBarProps {
+  name: string;
+  phase: string; // Label of the phase the boss is in
+  health: number;
+  maxHealth: number;
+  phaseMarkers: number[]; // Fractions of max health (0-1) where later phases begin
+}
+
+/**
+ * Boss name, current phase and health, with a tick on the bar wherever the next phase kicks in.
+ */
+export default function BossHealthBar({ name, phase, health, maxHealth, phaseMarkers }: BossHealthBarProps) {
+  return (
+    <>
+      <div className="flex items-center justify-between" style={{ marginBottom: 'calc(var(--compact-hud-padding-y) * 0.5)' }}>
+        <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
+          BOSS: {name.toUpperCase()}
+          {phase && <span className="text-game-accent"> · {phase.toUpperCase()}</span>}
+        </span>
+        <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
+          {Math.ceil(health)}/{maxHealth}
+        </span>
+      </div>
+      <div className="relative">
+        <Progress
+          value={(health / maxHealth) * 100}
+          className="white-progress-bar"
+          style={{ height: 'var(--compact-progress-height)' }}
+        />
+        {phaseMarkers.map((marker) => (
+          <div
+            key={marker}
+            className={`absolute inset-y-0 w-0.5 -translate-x-1/2 ${health / maxHealth > marker ? 'bg-game-accent' : 'bg-white/40'}`}
+            style={{ left: `${marker * 100}%` }}
+          />
+        ))}
+      </div>
+    </>
+  );
+}
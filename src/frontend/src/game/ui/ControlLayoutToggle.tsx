@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button';
+import type { ControlLayout } from '../hooks/useControlLayoutPreference';
+
+interface ControlLayoutToggleProps {
+  controlLayout: ControlLayout;
+  onControlLayoutChange: (controlLayout: ControlLayout) => void;
+}
+
+/**
+ * Switch between the shoot button and a second stick that aims independently of movement.
+ */
+export default function ControlLayoutToggle({ controlLayout, onControlLayoutChange }: ControlLayoutToggleProps) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onControlLayoutChange(controlLayout === 'classic' ? 'twinStick' : 'classic')}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      CONTROLS: {controlLayout === 'classic' ? 'CLASSIC' : 'TWIN-STICK'}
+    </Button>
+  );
+}
@@ -0,0 +1,169 @@
+import { Button } from '@/components/ui/button';
+import { useEffect, useState } from 'react';
+import {
+  CONTROL_ACTIONS,
+  CONTROL_ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  MAX_BINDINGS_PER_ACTION,
+  describeButton,
+  describeKey,
+  rebind,
+  unbind,
+  type BindingDevice,
+  type ControlAction,
+  type ControlBindings,
+} from '../input/bindings';
+import { getActiveGamepad, getPressedButtons } from '../utils/gamepadInput';
+import { Z_INDEX } from './zIndex';
+
+interface ControlsSettingsProps {
+  bindings: ControlBindings;
+  onBindingsChange: (bindings: ControlBindings) => void;
+  onClose: () => void;
+}
+
+// Binding slot waiting for the player to press its new key or button
+interface Capture {
+  device: BindingDevice;
+  action: ControlAction;
+  slot: number;
+}
+
+const DEVICE_LABELS: Record<BindingDevice, string> = { keys: 'KEYBOARD', buttons: 'CONTROLLER' };
+
+/**
+ * Controls screen listing every action with its keys and controller buttons.
+ * Pick a binding (or an empty slot) and press the new key or button to rebind it.
+ */
+export default function ControlsSettings({ bindings, onBindingsChange, onClose }: ControlsSettingsProps) {
+  const [capture, setCapture] = useState<Capture | null>(null);
+
+  // Take the next key press, before the page or the game sees it
+  useEffect(() => {
+    if (capture?.device !== 'keys') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onBindingsChange(rebind(bindings, 'keys', capture.action, capture.slot, e.code));
+      setCapture(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [capture, bindings, onBindingsChange]);
+
+  // Take the next controller button pressed, ignoring any already held when capture started
+  useEffect(() => {
+    if (capture?.device !== 'buttons') return;
+    let frame: number | null = null;
+    let held: number[] | null = null;
+
+    const poll = () => {
+      const pad = getActiveGamepad();
+      const pressed = pad ? getPressedButtons(pad) : [];
+      const fresh = held === null ? undefined : pressed.find((index) => !held!.includes(index));
+      if (fresh !== undefined) {
+        onBindingsChange(rebind(bindings, 'buttons', capture.action, capture.slot, fresh));
+        setCapture(null);
+        return;
+      }
+      held = pressed;
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [capture, bindings, onBindingsChange]);
+
+  const clearCapturedSlot = () => {
+    if (!capture) return;
+    onBindingsChange(unbind(bindings, capture.device, capture.action, capture.slot));
+    setCapture(null);
+  };
+
+  const textStyle = { fontSize: 'var(--compact-hud-font-size-small)' };
+  const buttonClassName = 'border-game-border bg-transparent text-white hover:bg-game-field h-auto';
+  const buttonStyle = { ...textStyle, padding: '0.25rem 0.5rem' };
+
+  const renderSlots = (device: BindingDevice, action: ControlAction) => {
+    const names = device === 'keys' ? bindings.keys[action].map(describeKey) : bindings.buttons[action].map(describeButton);
+    const slots = names.length < MAX_BINDINGS_PER_ACTION ? [...names, '+'] : names;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {slots.map((name, slot) => {
+          const capturing = capture?.device === device && capture.action === action && capture.slot === slot;
+          return (
+            <Button
+              key={slot}
+              size="sm"
+              variant="outline"
+              onClick={() => setCapture({ device, action, slot })}
+              className={`${buttonClassName} ${capturing ? 'border-game-accent text-game-accent' : ''}`}
+              style={{ ...buttonStyle, minWidth: '2.5rem' }}
+              title={`Rebind ${CONTROL_ACTION_LABELS[action].toLowerCase()}`}
+            >
+              {capturing ? '…' : name}
+            </Button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="absolute inset-0 overflow-y-auto bg-game-field text-white"
+      style={{ zIndex: Z_INDEX.OVERLAY, padding: 'var(--compact-overlay-padding)' }}
+    >
+      <div className="flex flex-col gap-3 max-w-2xl mx-auto">
+        <div className="flex flex-wrap items-end gap-2">
+          <h1 className="font-bold text-game-accent mr-2" style={{ fontSize: 'var(--compact-overlay-title)' }}>
+            CONTROLS
+          </h1>
+          <Button size="sm" variant="outline" onClick={() => onBindingsChange(DEFAULT_BINDINGS)} className={buttonClassName} style={buttonStyle}>
+            RESET DEFAULTS
+          </Button>
+          <Button size="sm" variant="outline" onClick={onClose} className={buttonClassName} style={buttonStyle}>
+            DONE
+          </Button>
+        </div>
+
+        <p className="text-white/70" style={textStyle}>
+          {capture
+            ? `Press the new ${capture.device === 'keys' ? 'key' : 'controller button'} for ${CONTROL_ACTION_LABELS[capture.action].toLowerCase()}.`
+            : 'Pick a binding or an empty slot, then press the new key or button. The left stick always moves and the right stick aims.'}
+        </p>
+        {capture && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" onClick={clearCapturedSlot} className={buttonClassName} style={buttonStyle}>
+              CLEAR
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setCapture(null)} className={buttonClassName} style={buttonStyle}>
+              CANCEL
+            </Button>
+          </div>
+        )}
+
+        <table className="w-full border-collapse" style={textStyle}>
+          <thead>
+            <tr className="text-left text-white/70">
+              <th className="font-bold py-1 pr-2">ACTION</th>
+              <th className="font-bold py-1 pr-2">{DEVICE_LABELS.keys}</th>
+              <th className="font-bold py-1">{DEVICE_LABELS.buttons}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CONTROL_ACTIONS.map((action) => (
+              <tr key={action} className="border-t border-game-border">
+                <td className="py-1 pr-2 font-bold whitespace-nowrap">{CONTROL_ACTION_LABELS[action].toUpperCase()}</td>
+                <td className="py-1 pr-2">{renderSlots('keys', action)}</td>
+                <td className="py-1">{renderSlots('buttons', action)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,27 @@ import { Progress } from '@/components/ui/progress';
 import { Pause, Play } from 'lucide-react';
 import VirtualJoystick from './VirtualJoystick';
 import ShootButton from './ShootButton';
+import ReplayMenu from './ReplayMenu';
+import LevelPackMenu from './LevelPackMenu';
+import RendererToggle from './RendererToggle';
+import HitboxToggle from './HitboxToggle';
+import BorderToggle from './BorderToggle';
+import TouchControlsToggle from './TouchControlsToggle';
+import ControlLayoutToggle from './ControlLayoutToggle';
+import SteeringToggle from './SteeringToggle';
+import PowerUpIndicators from './PowerUpIndicators';
+import WeaponSelector from './WeaponSelector';
+import PlayerStatus from './PlayerStatus';
+import BossHealthBar from './BossHealthBar';
 import { formatTime } from '../utils/levelTimer';
+import { WEAPONS } from '../simulation/weapons';
 import { Z_INDEX } from './zIndex';
+import type { RendererMode } from '../render/types';
+import type { TouchControlsMode } from '../hooks/useTouchControlsPreference';
+import type { ControlLayout } from '../hooks/useControlLayoutPreference';
+import type { SteeringMode } from '../hooks/useSteeringPreference';
+import { describeControls, type ControlBindings } from '../input/bindings';
+import type { ActivePowerUp, BorderMode, HitboxMode, WeaponKind } from '../simulation/types';
 
 type GameOverReason = 'border' | 'obstacle' | 'timeExpired' | null;
 
@@ -13,23 +32,66 @@ interface GameOverlayProps {
   gameOverReason: GameOverReason;
   score: number;
   level: number;
+  lives: number;
+  shield: number;
+  shieldMax: number;
   timeRemaining: number;
   bossActive: boolean;
-  bossHits: number;
-  bossMaxHits: number;
+  bossHealth: number;
+  bossMaxHealth: number;
+  bossName: string;
+  bossPhase: string; // Label of the boss's current phase
+  bossPhaseMarkers: number[]; // Fractions of max health where later boss phases begin
+  powerUps: ActivePowerUp[];
+  weapon: WeaponKind;
+  chargeTime: number;
+  onWeaponChange: (weapon: WeaponKind) => void;
   destroyedThisLevel: number;
-  targetObstacles: number;
+  targetObstacles: number | null; // Kills the level needs, or null when it is won by outlasting the timer
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
   onNextLevel: () => void;
   onJoystickMove: (vector: { x: number; y: number; magnitude: number }) => void;
   onJoystickNeutral: () => void;
+  onAimMove: (vector: { x: number; y: number; magnitude: number }) => void; // Twin-stick aim stick
+  onAimNeutral: () => void;
   onFireStart: () => void;
   onFireEnd: () => void;
   joystickResetToken: number;
   sensitivity: number;
   onSensitivityChange: (value: number) => void;
+  isReplay?: boolean; // Watching a replay: show the HUD only, no controls or menus
+  onWatchReplay?: () => void; // Shown on the game over screen when a replay of the run exists
+  onDownloadReplay?: () => void;
+  onLoadReplayFile?: (file: File) => void;
+  replayError?: string | null;
+  levelPackName: string;
+  onLoadLevelPackFile: (file: File) => void;
+  onResetLevelPack?: () => void; // Shown on the start screen while a custom level pack is loaded
+  levelPackError?: string | null;
+  onOpenEditor: () => void;
+  onBackToEditor?: () => void; // Shown on the pause and end screens while playtesting editor levels
+  renderer: RendererMode;
+  onRendererChange: (renderer: RendererMode) => void;
+  hitboxes: HitboxMode;
+  onHitboxesChange: (hitboxes: HitboxMode) => void;
+  border: BorderMode;
+  onBorderChange: (border: BorderMode) => void;
+  touchControls: TouchControlsMode;
+  onTouchControlsChange: (touchControls: TouchControlsMode) => void;
+  controlLayout: ControlLayout;
+  onControlLayoutChange: (controlLayout: ControlLayout) => void;
+  showTouchControls: boolean; // False while a keyboard or controller is in use and the player chose to hide them
+  keyboardDetected: boolean; // Show the key bindings on the start screen
+  gamepadDetected: boolean; // Show the controller bindings on the start screen
+  bindings: ControlBindings;
+  onOpenControls: () => void;
+  steering: SteeringMode;
+  onSteeringChange?: (steering: SteeringMode) => void; // Only provided on devices with a motion sensor
+  tiltError?: string | null;
+  tiltSteering: boolean; // Tilt is steering: hide the movement joystick and offer calibration
+  onCalibrateTilt: () => void;
 }
 
 export default function GameOverlay({
@@ -37,10 +99,20 @@ export default function GameOverlay({
   gameOverReason,
   score,
   level,
+  lives,
+  shield,
+  shieldMax,
   timeRemaining,
   bossActive,
-  bossHits,
-  bossMaxHits,
+  bossHealth,
+  bossMaxHealth,
+  bossName,
+  bossPhase,
+  bossPhaseMarkers,
+  powerUps,
+  weapon,
+  chargeTime,
+  onWeaponChange,
   destroyedThisLevel,
   targetObstacles,
   onStart,
@@ -49,19 +121,68 @@ export default function GameOverlay({
   onNextLevel,
   onJoystickMove,
   onJoystickNeutral,
+  onAimMove,
+  onAimNeutral,
   onFireStart,
   onFireEnd,
   joystickResetToken,
   sensitivity,
   onSensitivityChange,
+  isReplay = false,
+  onWatchReplay,
+  onDownloadReplay,
+  onLoadReplayFile,
+  replayError,
+  levelPackName,
+  onLoadLevelPackFile,
+  onResetLevelPack,
+  levelPackError,
+  onOpenEditor,
+  onBackToEditor,
+  renderer,
+  onRendererChange,
+  hitboxes,
+  onHitboxesChange,
+  border,
+  onBorderChange,
+  touchControls,
+  onTouchControlsChange,
+  controlLayout,
+  onControlLayoutChange,
+  showTouchControls,
+  keyboardDetected,
+  gamepadDetected,
+  bindings,
+  onOpenControls,
+  steering,
+  onSteeringChange,
+  tiltError,
+  tiltSteering,
+  onCalibrateTilt,
 }: GameOverlayProps) {
   // Calculate level progress percentage (capped at 100%)
-  const levelProgress = Math.min(100, (destroyedThisLevel / targetObstacles) * 100);
+  const levelProgress = targetObstacles === null ? 0 : Math.min(100, (destroyedThisLevel / targetObstacles) * 100);
+  const showHud = gameState === 'playing' || gameState === 'paused' || isReplay;
+
+  const backToEditorButton = onBackToEditor && (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={onBackToEditor}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      BACK TO EDITOR
+    </Button>
+  );
 
   return (
     <>
       {/* HUD - Top bar (above VFX, below overlays) */}
-      {(gameState === 'playing' || gameState === 'paused') && (
+      {showHud && (
         <div 
           className="absolute top-0 left-0 right-0 flex items-center justify-between bg-game-field/80 backdrop-blur-sm border-b border-game-border"
           style={{ 
@@ -80,31 +201,38 @@ export default function GameOverlay({
             <div className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size)' }}>
               LEVEL: <span className="text-white">{level}</span>
             </div>
+            <PlayerStatus lives={lives} shield={shield} shieldMax={shieldMax} />
+            <div className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size)' }}>
+              WEAPON: <span className="text-game-accent">{WEAPONS[weapon].label.toUpperCase()}</span>
+            </div>
+            <PowerUpIndicators powerUps={powerUps} />
           </div>
           <div className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size)' }}>
             TIME: <span className="text-white">{formatTime(timeRemaining)}</span>
           </div>
-          <Button
-            size="sm"
-            variant="ghost"
-            onClick={gameState === 'playing' ? onPause : onResume}
-            className="p-0"
-            style={{ 
-              width: 'calc(var(--compact-hud-font-size) * 1.75)',
-              height: 'calc(var(--compact-hud-font-size) * 1.75)',
-            }}
-          >
-            {gameState === 'playing' ? (
-              <Pause style={{ width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' }} />
-            ) : (
-              <Play style={{ width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' }} />
-            )}
-          </Button>
+          {!isReplay && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={gameState === 'playing' ? onPause : onResume}
+              className="p-0"
+              style={{ 
+                width: 'calc(var(--compact-hud-font-size) * 1.75)',
+                height: 'calc(var(--compact-hud-font-size) * 1.75)',
+              }}
+            >
+              {gameState === 'playing' ? (
+                <Pause style={{ width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' }} />
+              ) : (
+                <Play style={{ width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' }} />
+              )}
+            </Button>
+          )}
         </div>
       )}
 
       {/* Level progress bar - shown when boss is not active (above VFX, below overlays) */}
-      {(gameState === 'playing' || gameState === 'paused') && !bossActive && (
+      {showHud && !bossActive && (
         <div 
           className="absolute left-0 right-0 bg-game-field/80 backdrop-blur-sm border border-game-border rounded"
           style={{ 
@@ -120,19 +248,21 @@ export default function GameOverlay({
               LEVEL PROGRESS
             </span>
             <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
-              {destroyedThisLevel}/{targetObstacles}
+              {targetObstacles === null ? 'SURVIVE' : `${destroyedThisLevel}/${targetObstacles}`}
             </span>
           </div>
-          <Progress 
-            value={levelProgress} 
-            className="white-progress-bar" 
-            style={{ height: 'var(--compact-progress-height)' }}
-          />
+          {targetObstacles !== null && (
+            <Progress 
+              value={levelProgress} 
+              className="white-progress-bar" 
+              style={{ height: 'var(--compact-progress-height)' }}
+            />
+          )}
         </div>
       )}
 
       {/* Boss health bar - shown when boss is active (above VFX, below overlays) */}
-      {(gameState === 'playing' || gameState === 'paused') && bossActive && (
+      {showHud && bossActive && (
         <div 
           className="absolute left-0 right-0 bg-game-field/80 backdrop-blur-sm border border-game-border rounded"
           style={{ 
@@ -143,24 +273,18 @@ export default function GameOverlay({
             padding: 'var(--compact-hud-padding-y) var(--compact-hud-padding-x)',
           }}
         >
-          <div className="flex items-center justify-between" style={{ marginBottom: 'calc(var(--compact-hud-padding-y) * 0.5)' }}>
-            <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
-              BOSS
-            </span>
-            <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
-              {bossHits}/{bossMaxHits}
-            </span>
-          </div>
-          <Progress 
-            value={(bossHits / bossMaxHits) * 100} 
-            className="white-progress-bar"
-            style={{ height: 'var(--compact-progress-height)' }}
+          <BossHealthBar
+            name={bossName}
+            phase={bossPhase}
+            health={bossHealth}
+            maxHealth={bossMaxHealth}
+            phaseMarkers={bossPhaseMarkers}
           />
         </div>
       )}
 
       {/* Sensitivity control - bottom center (above VFX, below overlays) */}
-      {(gameState === 'playing' || gameState === 'paused') && (
+      {(gameState === 'playing' || gameState === 'paused') && !isReplay && (
         <div 
           className="absolute left-1/2 -translate-x-1/2 bg-game-field/80 backdrop-blur-sm border border-game-border rounded flex items-center"
           style={{ 
@@ -187,11 +311,23 @@ export default function GameOverlay({
           <span className="font-bold text-white" style={{ fontSize: 'var(--compact-hud-font-size-small)', minWidth: '2ch' }}>
             {sensitivity.toFixed(1)}
           </span>
+          {tiltSteering && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onCalibrateTilt}
+              className="border-game-border bg-transparent text-white hover:bg-game-field h-auto"
+              style={{ fontSize: 'var(--compact-hud-font-size-small)', padding: '0.125rem 0.375rem' }}
+              title="Make the current tilt the neutral pose for this and later runs"
+            >
+              CALIBRATE
+            </Button>
+          )}
         </div>
       )}
 
       {/* Start screen (above all VFX and HUD) */}
-      {gameState === 'idle' && (
+      {gameState === 'idle' && !isReplay && (
         <div 
           className="absolute inset-0 flex items-center justify-center bg-game-field/90 backdrop-blur-sm"
           style={{ zIndex: Z_INDEX.OVERLAY }}
@@ -219,12 +355,55 @@ export default function GameOverlay({
             >
               START GAME
             </Button>
+            {keyboardDetected && (
+              <p className="text-white/70 max-w-xs mx-auto" style={{ fontSize: 'calc(var(--compact-overlay-text) * 0.75)' }}>
+                {describeControls(bindings, 'keys')}
+              </p>
+            )}
+            {gamepadDetected && (
+              <p className="text-white/70 max-w-xs mx-auto" style={{ fontSize: 'calc(var(--compact-overlay-text) * 0.75)' }}>
+                {describeControls(bindings, 'buttons')}
+              </p>
+            )}
+            <ReplayMenu onLoadReplayFile={onLoadReplayFile} replayError={replayError} />
+            <LevelPackMenu
+              packName={levelPackName}
+              onLoadLevelPackFile={onLoadLevelPackFile}
+              onResetLevelPack={onResetLevelPack}
+              onOpenEditor={onOpenEditor}
+              levelPackError={levelPackError}
+            />
+            <div className="flex items-center justify-center flex-wrap" style={{ gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+              <RendererToggle renderer={renderer} onRendererChange={onRendererChange} />
+              <HitboxToggle hitboxes={hitboxes} onHitboxesChange={onHitboxesChange} />
+              <BorderToggle border={border} onBorderChange={onBorderChange} />
+              <TouchControlsToggle touchControls={touchControls} onTouchControlsChange={onTouchControlsChange} />
+              <ControlLayoutToggle controlLayout={controlLayout} onControlLayoutChange={onControlLayoutChange} />
+              {onSteeringChange && <SteeringToggle steering={steering} onSteeringChange={onSteeringChange} />}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onOpenControls}
+                className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+                style={{
+                  fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+                  padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+                }}
+              >
+                REBIND KEYS/PAD
+              </Button>
+            </div>
+            {tiltError && (
+              <p className="text-destructive max-w-xs mx-auto" style={{ fontSize: 'calc(var(--compact-overlay-text) * 0.75)' }}>
+                {tiltError}
+              </p>
+            )}
           </div>
         </div>
       )}
 
       {/* Pause overlay (above all VFX and HUD) */}
-      {gameState === 'paused' && (
+      {gameState === 'paused' && !isReplay && (
         <div 
           className="absolute inset-0 flex items-center justify-center bg-game-field/70 backdrop-blur-sm"
           style={{ zIndex: Z_INDEX.OVERLAY }}
@@ -248,12 +427,14 @@ export default function GameOverlay({
             >
               RESUME
             </Button>
+            {backToEditorButton}
+            <RendererToggle renderer={renderer} onRendererChange={onRendererChange} />
           </div>
         </div>
       )}
 
       {/* Game over screen (above all VFX and HUD) */}
-      {gameState === 'gameover' && (
+      {gameState === 'gameover' && !isReplay && (
         <div 
           className="absolute inset-0 flex items-center justify-center bg-game-field/90 backdrop-blur-sm"
           style={{ zIndex: Z_INDEX.OVERLAY }}
@@ -298,12 +479,23 @@ export default function GameOverlay({
             >
               PLAY AGAIN
             </Button>
+            {backToEditorButton}
+            <ReplayMenu
+              onWatchReplay={onWatchReplay}
+              onDownloadReplay={onDownloadReplay}
+              onLoadReplayFile={onLoadReplayFile}
+              replayError={replayError}
+            />
+            <div className="flex items-center justify-center flex-wrap" style={{ gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+              <HitboxToggle hitboxes={hitboxes} onHitboxesChange={onHitboxesChange} />
+              <BorderToggle border={border} onBorderChange={onBorderChange} />
+            </div>
           </div>
         </div>
       )}
 
       {/* Level complete screen (above all VFX and HUD) */}
-      {gameState === 'levelcomplete' && (
+      {gameState === 'levelcomplete' && !isReplay && (
         <div 
           className="absolute inset-0 flex items-center justify-center bg-game-field/90 backdrop-blur-sm"
           style={{ zIndex: Z_INDEX.OVERLAY }}
@@ -340,40 +532,58 @@ export default function GameOverlay({
             >
               NEXT LEVEL
             </Button>
+            {backToEditorButton}
           </div>
         </div>
       )}
 
       {/* Virtual controls - only shown during playing state */}
-      {gameState === 'playing' && (
+      {gameState === 'playing' && !isReplay && (
         <>
-          {/* Shoot button - bottom left with safe area support */}
+          {/* Weapon selector above the shoot button or aim stick - bottom left with safe area support */}
           <div 
             className="absolute safe-bottom safe-left pointer-events-none"
             style={{ zIndex: Z_INDEX.CONTROLS }}
           >
-            <div className="pointer-events-auto">
-              <ShootButton
-                onFireStart={onFireStart}
-                onFireEnd={onFireEnd}
+            <div className="pointer-events-auto flex flex-col items-center" style={{ gap: 'var(--compact-hud-gap)' }}>
+              <WeaponSelector
+                weapon={weapon}
+                chargeTime={chargeTime}
+                onWeaponChange={onWeaponChange}
                 disabled={gameState !== 'playing'}
               />
+              {showTouchControls && controlLayout === 'classic' && (
+                <ShootButton
+                  onFireStart={onFireStart}
+                  onFireEnd={onFireEnd}
+                  disabled={gameState !== 'playing'}
+                />
+              )}
+              {showTouchControls && controlLayout === 'twinStick' && (
+                <VirtualJoystick
+                  onMove={onAimMove}
+                  onNeutral={onAimNeutral}
+                  resetToken={joystickResetToken}
+                />
+              )}
             </div>
           </div>
 
-          {/* Joystick - bottom right with safe area support */}
-          <div 
-            className="absolute safe-bottom safe-right pointer-events-none"
-            style={{ zIndex: Z_INDEX.CONTROLS }}
-          >
-            <div className="pointer-events-auto">
-              <VirtualJoystick
-                onMove={onJoystickMove}
-                onNeutral={onJoystickNeutral}
-                resetToken={joystickResetToken}
-              />
+          {/* Joystick - bottom right with safe area support, not needed while tilt steers */}
+          {showTouchControls && !tiltSteering && (
+            <div 
+              className="absolute safe-bottom safe-right pointer-events-none"
+              style={{ zIndex: Z_INDEX.CONTROLS }}
+            >
+              <div className="pointer-events-auto">
+                <VirtualJoystick
+                  onMove={onJoystickMove}
+                  onNeutral={onJoystickNeutral}
+                  resetToken={joystickResetToken}
+                />
+              </div>
             </div>
-          </div>
+          )}
         </>
       )}
     </>
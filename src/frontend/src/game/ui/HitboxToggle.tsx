@@ -0,0 +1,28 @@
+import { Button } from '@/components/ui/button';
+import type { HitboxMode } from '../simulation/types';
+
+interface HitboxToggleProps {
+  hitboxes: HitboxMode;
+  onHitboxesChange: (hitboxes: HitboxMode) => void;
+}
+
+/**
+ * Switch between circle hitboxes and polygon hitboxes that follow the hexagon and jet art.
+ * Takes effect when the next run starts.
+ */
+export default function HitboxToggle({ hitboxes, onHitboxesChange }: HitboxToggleProps) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onHitboxesChange(hitboxes === 'circle' ? 'polygon' : 'circle')}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      HITBOXES: {hitboxes === 'circle' ? 'CIRCLE' : 'POLYGON'}
+    </Button>
+  );
+}
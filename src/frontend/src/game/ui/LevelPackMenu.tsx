@@ -0,0 +1,74 @@
+import { Button } from '@/components/ui/button';
+import { useRef } from 'react';
+import { LEVEL_PACK_FILE_EXTENSION } from '../simulation/levels';
+
+interface LevelPackMenuProps {
+  packName: string;
+  onLoadLevelPackFile: (file: File) => void;
+  onResetLevelPack?: () => void; // Only provided while a custom pack is loaded
+  onOpenEditor: () => void;
+  levelPackError?: string | null;
+}
+
+/**
+ * Start screen row showing the level pack the next run uses, with actions to load a pack file,
+ * go back to the built-in campaign or open the level editor.
+ */
+export default function LevelPackMenu({
+  packName,
+  onLoadLevelPackFile,
+  onResetLevelPack,
+  onOpenEditor,
+  levelPackError,
+}: LevelPackMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) {
+      onLoadLevelPackFile(file);
+    }
+  };
+
+  const textStyle = { fontSize: 'calc(var(--compact-overlay-text) * 0.75)' };
+  const buttonClassName = 'border-game-border bg-transparent text-white hover:bg-game-field h-auto';
+  const buttonStyle = {
+    ...textStyle,
+    padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+      <div className="flex items-center justify-center flex-wrap" style={{ gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+        <span className="font-bold text-white" style={textStyle}>
+          LEVELS: <span className="text-game-accent">{packName.toUpperCase()}</span>
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className={buttonClassName}
+          style={buttonStyle}
+        >
+          LOAD LEVELS
+        </Button>
+        {onResetLevelPack && (
+          <Button size="sm" variant="outline" onClick={onResetLevelPack} className={buttonClassName} style={buttonStyle}>
+            USE CAMPAIGN
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={onOpenEditor} className={buttonClassName} style={buttonStyle}>
+          EDITOR
+        </Button>
+        <input ref={fileInputRef} type="file" accept={`${LEVEL_PACK_FILE_EXTENSION},application/json`} className="hidden" onChange={handleFileChange} />
+      </div>
+      {levelPackError && (
+        <p className="text-destructive max-w-xs mx-auto" style={textStyle}>
+          {levelPackError}
+        </p>
+      )}
+    </div>
+  );
+}
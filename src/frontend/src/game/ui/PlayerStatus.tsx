@@ -0,0 +1,41 @@
+import { Heart } from 'lucide-react';
+import { PLAYER_SHIELD_HIT_DRAIN } from '../simulation/constants';
+
+interface PlayerStatusProps {
+  lives: number;
+  shield: number;
+  shieldMax: number;
+}
+
+// HUD lives counter and shield meter; the meter turns red once the next hit would cost a life
+export default function PlayerStatus({ lives, shield, shieldMax }: PlayerStatusProps) {
+  const shieldPercent = Math.max(0, Math.min(100, (shield / shieldMax) * 100));
+  const exposed = shield < PLAYER_SHIELD_HIT_DRAIN;
+
+  return (
+    <div className="flex items-center" style={{ gap: 'calc(var(--compact-hud-gap) * 0.5)' }}>
+      <div
+        className="flex items-center font-bold text-white"
+        style={{ fontSize: 'var(--compact-hud-font-size)', gap: '0.125rem' }}
+        title="Lives"
+      >
+        <Heart
+          className="text-destructive"
+          fill="currentColor"
+          style={{ width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' }}
+        />
+        <span>{lives}</span>
+      </div>
+      <div
+        className="rounded-full bg-game-border overflow-hidden"
+        style={{ width: 'calc(var(--compact-hud-font-size) * 3)', height: 'var(--compact-progress-height)' }}
+        title="Shield"
+      >
+        <div
+          className={`h-full rounded-full ${exposed ? 'bg-destructive' : 'bg-game-accent'}`}
+          style={{ width: shield > 0 ? `${shieldPercent}%` : '100%', opacity: shield > 0 ? 1 : 0.5 }}
+        />
+      </div>
+    </div>
+  );
+}
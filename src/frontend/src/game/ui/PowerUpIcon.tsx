@@ -0,0 +1,26 @@
+import { POWER_UP_ICON_VIEWBOX, POWER_UP_STYLES } from '../render/powerUpStyles';
+import type { PowerUpKind } from '../simulation/types';
+
+interface PowerUpIconProps {
+  kind: PowerUpKind;
+  size: string; // Any CSS length
+}
+
+export default function PowerUpIcon({ kind, size }: PowerUpIconProps) {
+  const style = POWER_UP_STYLES[kind];
+  return (
+    <svg
+      viewBox={`0 0 ${POWER_UP_ICON_VIEWBOX} ${POWER_UP_ICON_VIEWBOX}`}
+      style={{ width: size, height: size, flexShrink: 0 }}
+      fill="none"
+      stroke={style.color}
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      role="img"
+      aria-label={style.label}
+    >
+      <path d={style.iconPath} />
+    </svg>
+  );
+}
@@ -0,0 +1,28 @@
+import PowerUpIcon from './PowerUpIcon';
+import { POWER_UP_STYLES, isPowerUpEnding } from '../render/powerUpStyles';
+import type { ActivePowerUp } from '../simulation/types';
+
+interface PowerUpIndicatorsProps {
+  powerUps: ActivePowerUp[];
+}
+
+// HUD row of running power-ups with their seconds left; icons flash shortly before wearing off
+export default function PowerUpIndicators({ powerUps }: PowerUpIndicatorsProps) {
+  if (powerUps.length === 0) return null;
+
+  return (
+    <div className="flex items-center" style={{ gap: 'calc(var(--compact-hud-gap) * 0.5)' }}>
+      {powerUps.map((powerUp) => (
+        <div
+          key={powerUp.kind}
+          className={`flex items-center font-bold text-white ${isPowerUpEnding(powerUp) ? 'animate-pulse' : ''}`}
+          style={{ fontSize: 'var(--compact-hud-font-size-small)', gap: '0.125rem' }}
+          title={POWER_UP_STYLES[powerUp.kind].label}
+        >
+          <PowerUpIcon kind={powerUp.kind} size="var(--compact-hud-font-size)" />
+          <span>{Math.ceil(powerUp.remaining / 1000)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
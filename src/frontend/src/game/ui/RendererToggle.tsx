@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button';
+import type { RendererMode } from '../render/types';
+
+interface RendererToggleProps {
+  renderer: RendererMode;
+  onRendererChange: (renderer: RendererMode) => void;
+}
+
+/**
+ * Switch between the canvas and DOM world renderers (for comparing visuals and performance).
+ */
+export default function RendererToggle({ renderer, onRendererChange }: RendererToggleProps) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onRendererChange(renderer === 'canvas' ? 'dom' : 'canvas')}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      RENDERER: {renderer === 'canvas' ? 'CANVAS' : 'DOM'}
+    </Button>
+  );
+}
@@ -0,0 +1,108 @@
+import { Button } from '@/components/ui/button';
+import { Pause, Play, X } from 'lucide-react';
+import { formatTime } from '../utils/levelTimer';
+import { FIXED_TIMESTEP } from '../simulation/constants';
+import type { ReplaySpeed } from '../hooks/useReplayPlayback';
+import { Z_INDEX } from './zIndex';
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: ReplaySpeed) => void;
+  onExit: () => void;
+}
+
+const SPEEDS: ReplaySpeed[] = [0.5, 1, 2];
+
+export default function ReplayControls({
+  tick,
+  totalTicks,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  const ticksToSeconds = (ticks: number) => (ticks * FIXED_TIMESTEP) / 1000;
+  const iconStyle = { width: 'var(--compact-hud-font-size)', height: 'var(--compact-hud-font-size)' };
+  const iconButtonStyle = {
+    width: 'calc(var(--compact-hud-font-size) * 1.75)',
+    height: 'calc(var(--compact-hud-font-size) * 1.75)',
+  };
+
+  return (
+    <div
+      className="absolute left-1/2 -translate-x-1/2 bg-game-field/80 backdrop-blur-sm border border-game-border rounded flex items-center"
+      style={{
+        zIndex: Z_INDEX.CONTROLS,
+        bottom: 'calc(var(--compact-control-inset) + var(--safe-area-inset-bottom))',
+        padding: 'var(--compact-hud-padding-y) var(--compact-hud-padding-x)',
+        gap: 'calc(var(--compact-hud-gap) * 0.75)',
+      }}
+    >
+      <span className="font-bold text-game-accent whitespace-nowrap" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
+        REPLAY
+      </span>
+
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={isPlaying ? onPause : onPlay}
+        className="p-0 text-white"
+        style={iconButtonStyle}
+        aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+      >
+        {isPlaying ? <Pause style={iconStyle} /> : <Play style={iconStyle} />}
+      </Button>
+
+      <input
+        type="range"
+        min={0}
+        max={totalTicks}
+        step={1}
+        value={tick}
+        onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+        aria-label="Replay position"
+        className="h-1 bg-game-border rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-game-accent [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-game-accent [&::-moz-range-thumb]:border-0"
+        style={{ width: 'calc(var(--compact-control-size) * 2.5)' }}
+      />
+
+      <span className="font-bold text-white whitespace-nowrap" style={{ fontSize: 'var(--compact-hud-font-size-small)' }}>
+        {formatTime(ticksToSeconds(tick))}/{formatTime(ticksToSeconds(totalTicks))}
+      </span>
+
+      <div className="flex items-center" style={{ gap: 'calc(var(--compact-hud-gap) * 0.25)' }}>
+        {SPEEDS.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={option === speed ? 'secondary' : 'ghost'}
+            onClick={() => onSpeedChange(option)}
+            className="h-auto px-1.5 py-0.5 font-bold text-white"
+            style={{ fontSize: 'var(--compact-hud-font-size-small)' }}
+          >
+            {option}x
+          </Button>
+        ))}
+      </div>
+
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onExit}
+        className="p-0 text-white"
+        style={iconButtonStyle}
+        aria-label="Exit replay"
+      >
+        <X style={iconStyle} />
+      </Button>
+    </div>
+  );
+}
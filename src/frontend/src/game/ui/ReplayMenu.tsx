@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { useRef } from 'react';
+import { REPLAY_FILE_EXTENSION } from '../simulation/replayFile';
+
+interface ReplayMenuProps {
+  onWatchReplay?: () => void;
+  onDownloadReplay?: () => void;
+  onLoadReplayFile?: (file: File) => void;
+  replayError?: string | null;
+}
+
+/**
+ * Row of replay actions for the start and game over screens.
+ * Each action is only shown when its handler is provided.
+ */
+export default function ReplayMenu({ onWatchReplay, onDownloadReplay, onLoadReplayFile, replayError }: ReplayMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (file && onLoadReplayFile) {
+      onLoadReplayFile(file);
+    }
+  };
+
+  const buttonClassName = 'border-game-border bg-transparent text-white hover:bg-game-field h-auto';
+  const buttonStyle = {
+    fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+    padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+      <div className="flex items-center justify-center flex-wrap" style={{ gap: 'calc(var(--compact-overlay-spacing) * 0.5)' }}>
+        {onWatchReplay && (
+          <Button size="sm" variant="outline" onClick={onWatchReplay} className={buttonClassName} style={buttonStyle}>
+            WATCH REPLAY
+          </Button>
+        )}
+        {onDownloadReplay && (
+          <Button size="sm" variant="outline" onClick={onDownloadReplay} className={buttonClassName} style={buttonStyle}>
+            DOWNLOAD
+          </Button>
+        )}
+        {onLoadReplayFile && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              className={buttonClassName}
+              style={buttonStyle}
+            >
+              LOAD REPLAY
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${REPLAY_FILE_EXTENSION},application/json,application/gzip`}
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </>
+        )}
+      </div>
+      {replayError && (
+        <p className="text-destructive max-w-xs mx-auto" style={{ fontSize: 'calc(var(--compact-overlay-text) * 0.75)' }}>
+          {replayError}
+        </p>
+      )}
+    </div>
+  );
+}
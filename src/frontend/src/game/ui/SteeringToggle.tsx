@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button';
+import type { SteeringMode } from '../hooks/useSteeringPreference';
+
+interface SteeringToggleProps {
+  steering: SteeringMode;
+  onSteeringChange: (steering: SteeringMode) => void;
+}
+
+/**
+ * Switch between steering with the joystick and tilting the device.
+ */
+export default function SteeringToggle({ steering, onSteeringChange }: SteeringToggleProps) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onSteeringChange(steering === 'joystick' ? 'tilt' : 'joystick')}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      STEERING: {steering === 'joystick' ? 'JOYSTICK' : 'TILT'}
+    </Button>
+  );
+}
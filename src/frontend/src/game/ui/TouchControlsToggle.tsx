@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button';
+import type { TouchControlsMode } from '../hooks/useTouchControlsPreference';
+
+interface TouchControlsToggleProps {
+  touchControls: TouchControlsMode;
+  onTouchControlsChange: (touchControls: TouchControlsMode) => void;
+}
+
+/**
+ * Switch between hiding the joystick and shoot button while a keyboard or controller is in use, and always showing them.
+ */
+export default function TouchControlsToggle({ touchControls, onTouchControlsChange }: TouchControlsToggleProps) {
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onTouchControlsChange(touchControls === 'auto' ? 'always' : 'auto')}
+      className="border-game-border bg-transparent text-white hover:bg-game-field h-auto mx-auto"
+      style={{
+        fontSize: 'calc(var(--compact-overlay-text) * 0.75)',
+        padding: 'calc(var(--compact-overlay-spacing) * 0.4) calc(var(--compact-overlay-spacing) * 0.75)',
+      }}
+    >
+      TOUCH CONTROLS: {touchControls === 'auto' ? 'HIDE FOR KEYS/PAD' : 'ALWAYS'}
+    </Button>
+  );
+}
@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { WEAPONS, getNextWeapon } from '../simulation/weapons';
+import { WEAPON_STYLES } from '../render/weaponStyles';
+import type { WeaponKind } from '../simulation/types';
+
+interface WeaponSelectorProps {
+  weapon: WeaponKind;
+  chargeTime: number; // Milliseconds the trigger has been held for a charge weapon
+  onWeaponChange: (weapon: WeaponKind) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tap to cycle to the next weapon mid-run. Fills up as a charge weapon charges.
+ */
+export default function WeaponSelector({ weapon, chargeTime, onWeaponChange, disabled = false }: WeaponSelectorProps) {
+  const { charge, label } = WEAPONS[weapon];
+  const chargeAmount = charge ? Math.min(1, chargeTime / charge.maxTime) : 0;
+  const color = WEAPON_STYLES[weapon].color ?? 'oklch(var(--game-accent))';
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => onWeaponChange(getNextWeapon(weapon))}
+      disabled={disabled}
+      className="relative overflow-hidden rounded-full border-2 border-game-border bg-game-field/80 text-white hover:bg-game-field touch-none select-none h-auto"
+      style={{
+        width: 'var(--compact-control-size)',
+        minWidth: '44px',
+        fontSize: 'var(--compact-hud-font-size-small)',
+        padding: 'var(--compact-hud-padding-y) 0',
+      }}
+      title="Switch weapon"
+    >
+      {charge && (
+        <span
+          className="absolute inset-y-0 left-0 opacity-50"
+          style={{ width: `${chargeAmount * 100}%`, backgroundColor: color }}
+        />
+      )}
+      <span className="relative font-bold" style={{ color }}>
+        {label.toUpperCase()}
+      </span>
+    </Button>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Trigger a browser download of in-memory bytes.
+ */
+export function downloadBytes(bytes: Uint8Array, fileName: string, mimeType = 'application/octet-stream'): void {
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started before the URL goes away
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Read a user-selected or dropped file into memory.
+ */
+export async function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer());
+}
@@ -0,0 +1,97 @@
+/**
+ * Gamepad input utility for reading a standard-mapping controller into game inputs.
+ * The left stick (or the bound d-pad buttons) becomes a joystick vector that the simulation runs through
+ * processJoystickInput like the touch joystick, so it shares the same deadzone and speed curve.
+ * The right stick aims like the twin-stick aim stick.
+ */
+
+import { DEADZONE } from './joystickMovement';
+import type { ControlAction, ControlBindings } from '../input/bindings';
+
+interface JoystickVector {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+export interface GamepadReading {
+  move: JoystickVector;
+  aim: JoystickVector;
+  fire: boolean;
+  special: boolean;
+  pause: boolean;
+  confirm: boolean; // Starts runs and moves on between levels
+}
+
+export type RumbleEffect = 'hit' | 'lifeLost' | 'bossKill';
+
+// Dual-rumble parameters of each effect: milliseconds and motor strengths (0-1)
+export const RUMBLE_EFFECTS: Record<RumbleEffect, { duration: number; strongMagnitude: number; weakMagnitude: number }> = {
+  hit: { duration: 120, strongMagnitude: 0.3, weakMagnitude: 0.6 },
+  lifeLost: { duration: 350, strongMagnitude: 0.9, weakMagnitude: 0.5 },
+  bossKill: { duration: 600, strongMagnitude: 1, weakMagnitude: 1 },
+};
+
+const TRIGGER_THRESHOLD = 0.5; // Analog trigger travel that counts as a pull
+
+function isPressed(pad: Gamepad, index: number): boolean {
+  const button = pad.buttons[index];
+  return button !== undefined && (button.pressed || button.value > TRIGGER_THRESHOLD);
+}
+
+/**
+ * First connected controller, or null when there is none (or the browser has no Gamepad API).
+ */
+export function getActiveGamepad(): Gamepad | null {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return null;
+  return navigator.getGamepads().find((pad): pad is Gamepad => pad !== null && pad.connected) ?? null;
+}
+
+function isActionPressed(pad: Gamepad, buttons: ControlBindings['buttons'], action: ControlAction): boolean {
+  return buttons[action].some((index) => isPressed(pad, index));
+}
+
+// Stick on the given pair of axes, or neutral inside the deadzone
+function readStick(pad: Gamepad, xAxis: number, yAxis: number): JoystickVector {
+  const x = pad.axes[xAxis] ?? 0;
+  const y = pad.axes[yAxis] ?? 0;
+  const magnitude = Math.min(1, Math.sqrt(x * x + y * y));
+  return magnitude >= DEADZONE ? { x, y, magnitude } : { x: 0, y: 0, magnitude: 0 };
+}
+
+export function readGamepad(pad: Gamepad, buttons: ControlBindings['buttons']): GamepadReading {
+  let move = readStick(pad, 0, 1);
+  if (move.magnitude === 0) {
+    // Buttons are digital, so they steer at full deflection like the keyboard
+    const x = Number(isActionPressed(pad, buttons, 'right')) - Number(isActionPressed(pad, buttons, 'left'));
+    const y = Number(isActionPressed(pad, buttons, 'down')) - Number(isActionPressed(pad, buttons, 'up'));
+    const length = Math.sqrt(x * x + y * y);
+    if (length > 0) move = { x: x / length, y: y / length, magnitude: 1 };
+  }
+
+  return {
+    move,
+    aim: readStick(pad, 2, 3),
+    fire: isActionPressed(pad, buttons, 'fire'),
+    special: isActionPressed(pad, buttons, 'special'),
+    pause: isActionPressed(pad, buttons, 'pause'),
+    confirm: isActionPressed(pad, buttons, 'confirm'),
+  };
+}
+
+/**
+ * Indices of every button currently pressed, for picking up a new binding.
+ */
+export function getPressedButtons(pad: Gamepad): number[] {
+  return pad.buttons.flatMap((_, index) => (isPressed(pad, index) ? [index] : []));
+}
+
+/**
+ * Play a rumble effect on controllers that support it; others ignore it.
+ */
+export function playRumble(pad: Gamepad, effect: RumbleEffect): void {
+  const actuator = pad.vibrationActuator as GamepadHapticActuator | null | undefined;
+  if (!actuator || typeof actuator.playEffect !== 'function') return;
+  // Some browsers reject effects they cannot play; rumble is only a nicety
+  actuator.playEffect('dual-rumble', { startDelay: 0, ...RUMBLE_EFFECTS[effect] }).catch(() => {});
+}
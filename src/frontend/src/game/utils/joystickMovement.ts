@@ -15,7 +15,7 @@ interface MovementOutput {
 }
 
 // Configuration constants - tuned for much finer control and reduced sensitivity
-const DEADZONE = 0.15; // Ignore input below 15% to prevent jitter
+export const DEADZONE = 0.15; // Ignore input below 15% to prevent jitter
 const SPEED_CURVE_EXPONENT = 2.8; // Increased from 2.2 for much more gradual acceleration
 const MAX_SPEED_MULTIPLIER = 0.25; // Reduced from 0.35 for slower top speed
 
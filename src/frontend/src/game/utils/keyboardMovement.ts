@@ -0,0 +1,48 @@
+/**
+ * Keyboard movement utility for turning held direction keys into a joystick vector.
+ * Which keys steer comes from the player's bindings.
+ */
+
+import type { ControlBindings } from '../input/bindings';
+
+interface JoystickVector {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+// Unit step of each direction, with y pointing down like the joystick
+const DIRECTION_STEPS: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const DIRECTIONS = Object.keys(DIRECTION_STEPS) as Direction[];
+
+/**
+ * Combine the held movement keys into a full-deflection joystick vector.
+ * Diagonals are normalized so they are no faster than straight moves; opposite keys cancel out.
+ * @param held KeyboardEvent.code of every key currently held
+ * @param keys Key bindings; each direction counts once, however many of its keys are held
+ */
+export function getKeyboardVector(held: Iterable<string>, keys: ControlBindings['keys']): JoystickVector {
+  const heldKeys = new Set(held);
+  let x = 0;
+  let y = 0;
+  for (const direction of DIRECTIONS) {
+    if (keys[direction].some((code) => heldKeys.has(code))) {
+      x += DIRECTION_STEPS[direction].x;
+      y += DIRECTION_STEPS[direction].y;
+    }
+  }
+
+  const length = Math.sqrt(x * x + y * y);
+  if (length === 0) {
+    return { x: 0, y: 0, magnitude: 0 };
+  }
+  return { x: x / length, y: y / length, magnitude: 1 };
+}
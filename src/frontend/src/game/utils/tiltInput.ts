@@ -0,0 +1,106 @@
+/**
+ * Tilt input utility for steering with the device's orientation.
+ * DeviceOrientationEvent reports beta (front-back) and gamma (left-right) tilt relative to the
+ * device's natural portrait axes, so readings are first turned into the axes of the screen as it is
+ * currently rotated. In landscape-left and landscape-right the device axes swap and flip.
+ * Tilt away from the calibrated pose then becomes a joystick vector that the simulation runs through
+ * processJoystickInput like the touch joystick, so it shares the same deadzone, speed curve and sensitivity.
+ */
+
+import { DEADZONE } from './joystickMovement';
+
+interface JoystickVector {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+export interface TiltReading {
+  beta: number; // Degrees, positive with the top edge raised
+  gamma: number; // Degrees, positive with the right edge lowered
+}
+
+// Tilt in screen axes: x toward the screen's right edge going down, y toward its top edge going away
+export interface ScreenTilt {
+  x: number;
+  y: number;
+}
+
+export const MAX_TILT = 25; // Degrees away from the neutral pose for full deflection
+
+// Clockwise rotation of the screen from the device's natural orientation, in degrees
+export function getScreenAngle(): number {
+  if (typeof screen !== 'undefined' && screen.orientation) return screen.orientation.angle;
+  // Older iOS Safari only has the deprecated window.orientation (-90 for landscape-right)
+  const legacy = (window as { orientation?: number }).orientation;
+  return typeof legacy === 'number' ? legacy : 0;
+}
+
+/**
+ * Express a device reading in the axes of the screen at the given rotation.
+ * Forward tilt (top edge away from the player) gives negative y, like pushing a joystick up.
+ */
+export function toScreenTilt(reading: TiltReading, screenAngle: number): ScreenTilt {
+  switch (((screenAngle % 360) + 360) % 360) {
+    case 90: // Landscape with the device's top edge on the left
+      return { x: reading.beta, y: -reading.gamma };
+    case 270: // Landscape with the device's top edge on the right
+      return { x: -reading.beta, y: reading.gamma };
+    case 180:
+      return { x: -reading.gamma, y: -reading.beta };
+    default:
+      return { x: reading.gamma, y: reading.beta };
+  }
+}
+
+// Difference of two angles wrapped to -180..180, so crossing the sensor's wrap-around is not a huge jump
+function angleDifference(a: number, b: number): number {
+  return ((((a - b) % 360) + 540) % 360) - 180;
+}
+
+/**
+ * Turn screen-axis tilt away from the neutral pose into a joystick vector.
+ * Tilt inside the deadzone reads as neutral, so a resting hand does not turn the jet or fill the replay.
+ */
+export function getTiltVector(tilt: ScreenTilt, neutral: ScreenTilt): JoystickVector {
+  const x = angleDifference(tilt.x, neutral.x) / MAX_TILT;
+  const y = angleDifference(tilt.y, neutral.y) / MAX_TILT;
+  const length = Math.sqrt(x * x + y * y);
+  if (length < DEADZONE) {
+    return { x: 0, y: 0, magnitude: 0 };
+  }
+  const magnitude = Math.min(1, length);
+  return { x: (x / length) * magnitude, y: (y / length) * magnitude, magnitude };
+}
+
+export function isTiltSupported(): boolean {
+  return typeof window !== 'undefined' && 'DeviceOrientationEvent' in window && navigator.maxTouchPoints > 0;
+}
+
+// iOS 13 and later add a static permission request to the event
+function getOrientationEvent() {
+  return DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<'granted' | 'denied'> };
+}
+
+/**
+ * Whether motion sensor access has to be asked for, once per page load, before any readings arrive.
+ */
+export function needsTiltPermission(): boolean {
+  return typeof getOrientationEvent().requestPermission === 'function';
+}
+
+/**
+ * Ask for motion sensor access where the browser requires it.
+ * Must be called from a tap, click or key press; other browsers grant access without asking.
+ * @returns Whether orientation events will be delivered
+ */
+export async function requestTiltPermission(): Promise<boolean> {
+  const orientationEvent = getOrientationEvent();
+  if (typeof orientationEvent.requestPermission !== 'function') return true;
+  try {
+    return (await orientationEvent.requestPermission()) === 'granted';
+  } catch (error) {
+    console.warn('Failed to request motion sensor access:', error);
+    return false;
+  }
+}